@@ -1,6 +1,6 @@
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { MOCK_ASSETS, ASSET_CATEGORIES, ORGANIZATIONAL_UNITS } from './constants';
-import { Asset, AssetStatus, AuditLog, AssetLocation, AssetCategory, DatabaseConfig } from './types';
+import { MOCK_ASSETS, ASSET_CATEGORIES, ORGANIZATIONAL_UNITS, DEFAULT_COMPANY_SETTINGS, DEFAULT_JOURNAL_EXPORT_PROFILES } from './constants';
+import { Asset, AssetStatus, AuditLog, AssetLocation, AssetCategory, DatabaseConfig, CompanySettings, PeriodClose, PriorPeriodAdjustment, DepreciationRun, JournalExportProfile, GLAccount, TrialBalance, PlannedCapex, ImportFieldChange, ImportCreatedReferences, ImportMappingProfile } from './types';
 import AssetDashboard from './components/AssetDashboard';
 import AssetForm from './components/AssetForm';
 import ReportingSuite from './components/ReportingSuite';
@@ -10,6 +10,12 @@ import JournalManager from './components/JournalManager';
 import ImportManager from './components/ImportManager';
 import CategoryManager from './components/CategoryManager';
 import LocationManager from './components/LocationManager';
+import ReconciliationView from './components/ReconciliationView';
+import ForecastView from './components/ForecastView';
+import { migrateLegacyImpairments, getFiscalYearBounds } from './services/assetService';
+import { createPeriodClose, createPriorPeriodAdjustment, findClosedPeriodImpact, getLatestClosedPeriod, getLockDate, getNextOpenPeriod } from './services/periodService';
+import { createDepreciationRun, formatBatchNumber, generateJournalEntries, getActiveRuns, reverseDepreciationRun } from './services/journalService';
+import { findUnknownAccounts } from './services/accountService';
 import { createClient } from '@supabase/supabase-js';
 import { 
   LayoutDashboard, 
@@ -39,11 +45,13 @@ import {
   CheckSquare,
   Square,
   Hammer,
-  MapPin
+  MapPin,
+  Scale,
+  TrendingUp
 } from 'lucide-react';
-import { format, startOfYear } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 
-type Tab = 'dashboard' | 'register' | 'locations' | 'reports' | 'journals' | 'import' | 'audit' | 'settings';
+type Tab = 'dashboard' | 'register' | 'locations' | 'reports' | 'journals' | 'reconciliation' | 'forecast' | 'import' | 'audit' | 'settings';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
@@ -57,13 +65,18 @@ const App: React.FC = () => {
   });
   const [isChangingUser, setIsChangingUser] = useState(false);
 
+  const [companySettings, setCompanySettings] = useState<CompanySettings>(() => {
+    const saved = localStorage.getItem('shuku_company_settings_v2');
+    return saved ? { ...DEFAULT_COMPANY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_COMPANY_SETTINGS;
+  });
+
   const now = new Date();
-  const [startDate, setStartDate] = useState(format(startOfYear(now), 'yyyy-MM-dd'));
+  const [startDate, setStartDate] = useState(format(getFiscalYearBounds(now, companySettings).start, 'yyyy-MM-dd'));
   const [endDate, setEndDate] = useState(format(now, 'yyyy-MM-dd'));
 
   const [assets, setAssets] = useState<Asset[]>(() => {
     const saved = localStorage.getItem('shuku_assets_v2');
-    return saved ? JSON.parse(saved) : MOCK_ASSETS;
+    return saved ? (JSON.parse(saved) as Asset[]).map(migrateLegacyImpairments) : MOCK_ASSETS;
   });
   
   const [categories, setCategories] = useState<AssetCategory[]>(() => {
@@ -81,6 +94,47 @@ const App: React.FC = () => {
     return saved ? JSON.parse(saved) : [];
   });
 
+  const [periodCloses, setPeriodCloses] = useState<PeriodClose[]>(() => {
+    const saved = localStorage.getItem('shuku_period_closes_v2');
+    return saved ? JSON.parse(saved) : [];
+  });
+
+  const [adjustments, setAdjustments] = useState<PriorPeriodAdjustment[]>(() => {
+    const saved = localStorage.getItem('shuku_adjustments_v2');
+    return saved ? JSON.parse(saved) : [];
+  });
+
+  const [depreciationRuns, setDepreciationRuns] = useState<DepreciationRun[]>(() => {
+    const saved = localStorage.getItem('shuku_depreciation_runs_v2');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [selectedRunId, setSelectedRunId] = useState<string | undefined>();
+
+  const [chartOfAccounts, setChartOfAccounts] = useState<GLAccount[]>(() => {
+    const saved = localStorage.getItem('shuku_chart_of_accounts_v2');
+    return saved ? JSON.parse(saved) : [];
+  });
+
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | undefined>(() => {
+    const saved = localStorage.getItem('shuku_trial_balance_v2');
+    return saved ? JSON.parse(saved) : undefined;
+  });
+
+  const [plannedCapex, setPlannedCapex] = useState<PlannedCapex[]>(() => {
+    const saved = localStorage.getItem('shuku_planned_capex_v2');
+    return saved ? JSON.parse(saved) : [];
+  });
+
+  const [exportProfiles, setExportProfiles] = useState<JournalExportProfile[]>(() => {
+    const saved = localStorage.getItem('shuku_export_profiles_v2');
+    return saved ? JSON.parse(saved) : DEFAULT_JOURNAL_EXPORT_PROFILES;
+  });
+
+  const [importMappingProfiles, setImportMappingProfiles] = useState<ImportMappingProfile[]>(() => {
+    const saved = localStorage.getItem('shuku_import_mappings_v2');
+    return saved ? JSON.parse(saved) : [];
+  });
+
   const [dbConfig, setDbConfig] = useState<DatabaseConfig>(() => {
     const saved = localStorage.getItem('shuku_db_config_v2');
     return saved ? JSON.parse(saved) : { enabled: false, supabaseUrl: '', supabaseKey: '' };
@@ -138,7 +192,7 @@ const App: React.FC = () => {
 
       if (catData && catData.length > 0) setCategories(catData);
       if (locData && locData.length > 0) setLocations(locData);
-      if (assetData && assetData.length > 0) setAssets(assetData);
+      if (assetData && assetData.length > 0) setAssets((assetData as Asset[]).map(migrateLegacyImpairments));
       
       setDbConfig(prev => ({ ...prev, lastSync: new Date().toISOString() }));
       setHasSyncedInitial(true);
@@ -196,24 +250,160 @@ const App: React.FC = () => {
     localStorage.setItem('shuku_audit_v2', JSON.stringify(auditLogs));
     localStorage.setItem('shuku_db_config_v2', JSON.stringify(dbConfig));
     localStorage.setItem('shuku_current_user', currentUser);
-  }, [assets, categories, locations, auditLogs, dbConfig, currentUser]);
+    localStorage.setItem('shuku_company_settings_v2', JSON.stringify(companySettings));
+    localStorage.setItem('shuku_period_closes_v2', JSON.stringify(periodCloses));
+    localStorage.setItem('shuku_adjustments_v2', JSON.stringify(adjustments));
+    localStorage.setItem('shuku_depreciation_runs_v2', JSON.stringify(depreciationRuns));
+    localStorage.setItem('shuku_export_profiles_v2', JSON.stringify(exportProfiles));
+    localStorage.setItem('shuku_chart_of_accounts_v2', JSON.stringify(chartOfAccounts));
+    localStorage.setItem('shuku_planned_capex_v2', JSON.stringify(plannedCapex));
+    localStorage.setItem('shuku_import_mappings_v2', JSON.stringify(importMappingProfiles));
+    if (trialBalance) localStorage.setItem('shuku_trial_balance_v2', JSON.stringify(trialBalance));
+  }, [assets, categories, locations, auditLogs, dbConfig, currentUser, companySettings, periodCloses, adjustments, depreciationRuns, exportProfiles, chartOfAccounts, plannedCapex, importMappingProfiles, trialBalance]);
+
+  // Report period presets follow the configured fiscal calendar
+  const applyPeriodPreset = (preset: string) => {
+    const today = new Date();
+    const current = getFiscalYearBounds(today, companySettings);
+    if (preset === 'fy-to-date') {
+      setStartDate(format(current.start, 'yyyy-MM-dd'));
+      setEndDate(format(today, 'yyyy-MM-dd'));
+    } else if (preset === 'current-fy') {
+      setStartDate(format(current.start, 'yyyy-MM-dd'));
+      setEndDate(format(current.end, 'yyyy-MM-dd'));
+    } else if (preset === 'prior-fy') {
+      const prior = getFiscalYearBounds(new Date(current.start.getFullYear(), current.start.getMonth(), current.start.getDate() - 1), companySettings);
+      setStartDate(format(prior.start, 'yyyy-MM-dd'));
+      setEndDate(format(prior.end, 'yyyy-MM-dd'));
+    }
+  };
 
   const [editingAsset, setEditingAsset] = useState<Asset | undefined>();
   const [isScanning, setIsScanning] = useState(false);
 
-  const logAction = (assetId: string, action: string, changes: any[]) => {
+  const logAction = (assetId: string, action: string, changes: any[], batchId?: string) => {
     const newLog: AuditLog = {
       id: Math.random().toString(36).substr(2, 9),
       timestamp: new Date().toISOString(),
       userId: currentUser,
       assetId,
       action,
+      ...(batchId ? { batchId } : {}),
       changes
     };
     setAuditLogs(prev => [...prev, newLog]);
   };
 
+  const lockDate = getLockDate(periodCloses);
+
+  const getImpact = (assetId: string, asset: Asset | undefined) => findClosedPeriodImpact(assetId, asset, periodCloses, categories, companySettings);
+
+  const handleClosePeriod = (period: string) => {
+    const latest = getLatestClosedPeriod(periodCloses);
+    if (latest && period <= latest) return;
+    if (latest && period !== getNextOpenPeriod(periodCloses)) {
+      alert(`Periods must be closed in order. The next open period is ${getNextOpenPeriod(periodCloses)}.`);
+      return;
+    }
+    if (!confirm(`Close ${period}? Depreciation for the month will be frozen and changes affecting it will require a prior-period adjustment.`)) return;
+    setPeriodCloses(prev => [...prev, createPeriodClose(period, assets, categories, companySettings, currentUser)]);
+    logAction('SYSTEM', 'PERIOD_CLOSE', [{ field: 'Period', oldValue: 'Open', newValue: period }]);
+  };
+
+  const handleReopenPeriod = (period: string) => {
+    if (period !== getLatestClosedPeriod(periodCloses)) return;
+    if (adjustments.some(a => a.period > period)) {
+      alert(`Prior-period adjustments have been posted after ${period}. Reverse them before reopening.`);
+      return;
+    }
+    // Exported batches for the month or later would no longer match its figures
+    const posted = depreciationRuns.filter(r => r.period >= period && !r.reversalOfId && r.status === 'Posted');
+    if (posted.length > 0) {
+      alert(`${posted.map(formatBatchNumber).join(', ')} ${posted.length > 1 ? 'are' : 'is'} posted for ${period} or later. Reverse ${posted.length > 1 ? 'them' : 'it'} before reopening.`);
+      return;
+    }
+    if (!confirm(`Reopen ${period}? Its frozen snapshot will be discarded.`)) return;
+    setPeriodCloses(prev => prev.filter(c => c.period !== period));
+    logAction('SYSTEM', 'PERIOD_REOPEN', [{ field: 'Period', oldValue: 'Closed', newValue: period }]);
+  };
+
+  // Running a month freezes its journals as a draft batch; drafts can be re-run until one is posted.
+  // A consolidated run and branch runs overlap, so every overlapping batch is checked and replaced.
+  const handleRunDepreciation = (period: string, branchId: string) => {
+    const existing = getActiveRuns(depreciationRuns, period, branchId);
+    const posted = existing.filter(r => r.status === 'Posted');
+    if (posted.length > 0) {
+      alert(`${posted.map(formatBatchNumber).join(', ')} already posted for ${period}. Reverse ${posted.length > 1 ? 'them' : 'it'} before running the month again.`);
+      return;
+    }
+    const batches = existing.map(formatBatchNumber).join(', ');
+    if (existing.length > 0 && !confirm(`Replace draft ${batches} with a fresh run of ${period}?`)) return;
+
+    const entries = generateJournalEntries(period, branchId, assets, categories, locations, companySettings, periodCloses.find(c => c.period === period), adjustments);
+    const run = createDepreciationRun(period, branchId, entries, depreciationRuns, currentUser);
+    setDepreciationRuns(prev => [...prev.filter(r => !existing.some(e => e.id === r.id)), run]);
+    setSelectedRunId(run.id);
+    logAction('SYSTEM', existing.length > 0 ? 'DEPR_RERUN' : 'DEPR_RUN', [
+      { field: 'Period', oldValue: batches || 'Not run', newValue: period },
+      { field: 'Lines', oldValue: existing.reduce((sum, r) => sum + r.entries.length, 0), newValue: entries.length }
+    ], run.id);
+  };
+
+  const handlePostRun = (runId: string) => {
+    const run = depreciationRuns.find(r => r.id === runId);
+    if (!run || run.status !== 'Draft') return;
+    const posted = getActiveRuns(depreciationRuns, run.period, run.branchId).filter(r => r.status === 'Posted');
+    if (posted.length > 0) {
+      alert(`${formatBatchNumber(run)} overlaps ${posted.map(formatBatchNumber).join(', ')}, already posted for ${run.period}. Reverse ${posted.length > 1 ? 'them' : 'it'} first.`);
+      return;
+    }
+    const unknown = findUnknownAccounts(run.entries, chartOfAccounts);
+    if (unknown.length > 0) {
+      alert(`${formatBatchNumber(run)} cannot be posted. These accounts are not in the chart of accounts:\n\n${unknown.join('\n')}`);
+      return;
+    }
+    if (!confirm(`Post ${formatBatchNumber(run)} for ${run.period}? Posted batches can only be undone by reversal.`)) return;
+    setDepreciationRuns(prev => prev.map(r => r.id === runId ? { ...r, status: 'Posted', postedAt: new Date().toISOString(), postedBy: currentUser } : r));
+    logAction('SYSTEM', 'DEPR_POST', [{ field: 'Status', oldValue: 'Draft', newValue: 'Posted' }], runId);
+  };
+
+  const handleReverseRun = (runId: string) => {
+    const run = depreciationRuns.find(r => r.id === runId);
+    if (!run || run.status !== 'Posted' || run.reversalOfId) return;
+    if (!confirm(`Reverse ${formatBatchNumber(run)}? A reversing batch will be posted and the month can then be re-run.`)) return;
+    const { reversed, reversal } = reverseDepreciationRun(run, depreciationRuns, currentUser);
+    setDepreciationRuns(prev => [...prev.map(r => r.id === runId ? reversed : r), reversal]);
+    setSelectedRunId(reversal.id);
+    logAction('SYSTEM', 'DEPR_REVERSE', [{ field: 'Status', oldValue: 'Posted', newValue: `Reversed by ${formatBatchNumber(reversal)}` }], runId);
+  };
+
+  const handleImportTrialBalance = (tb: TrialBalance) => {
+    setTrialBalance(tb);
+    logAction('SYSTEM', 'TB_IMPORT', [
+      { field: 'Trial Balance', oldValue: trialBalance ? `${trialBalance.fileName} (${trialBalance.asAt})` : 'None', newValue: `${tb.fileName} (${tb.asAt})` },
+      { field: 'Balances', oldValue: trialBalance?.lines.length ?? 0, newValue: tb.lines.length }
+    ]);
+  };
+
+  const handleOpenRun = (runId: string) => {
+    setSelectedRunId(runId);
+    setActiveTab('journals');
+  };
+
   const handleSaveAsset = (newAsset: Asset) => {
+    const previous = assets.find(a => a.id === newAsset.id);
+    const impact = getImpact(newAsset.id, newAsset);
+    if (impact.length > 0) {
+      const reason = prompt(`This change alters closed period(s) ${impact.join(', ')}. Closed figures stay as reported and the difference will be posted as a prior-period adjustment in ${getNextOpenPeriod(periodCloses)}.\n\nEnter the reason for the adjustment to continue:`);
+      if (!reason) return;
+      const adjustment = createPriorPeriodAdjustment(previous, newAsset, periodCloses, categories, companySettings, impact, reason, currentUser);
+      setAdjustments(prev => [...prev, adjustment]);
+      logAction(newAsset.id, 'PRIOR_PERIOD_ADJUSTMENT', [
+        { field: 'Affected Periods', oldValue: impact.join(', '), newValue: `Posted in ${adjustment.period}` },
+        { field: 'Reason', oldValue: '', newValue: reason }
+      ]);
+    }
+
     if (editingAsset && editingAsset.id) {
       setAssets(assets.map(a => a.id === newAsset.id ? newAsset : a));
       logAction(newAsset.id, 'UPDATE', [{ field: 'Asset Details', oldValue: 'Modified', newValue: 'Current' }]);
@@ -225,9 +415,79 @@ const App: React.FC = () => {
     setActiveTab('register');
   };
 
+  // Imported inserts and updates go through the same closed-period check as assets saved in the asset form
+  const handleImportAssets = (inserts: Asset[], updates: { asset: Asset, changes: ImportFieldChange[] }[], created: ImportCreatedReferences): boolean => {
+    const importCategories = [...categories, ...created.categories];
+    const impacted = [
+      ...inserts.map(asset => ({ asset, before: undefined as Asset | undefined })),
+      ...updates.map(u => ({ asset: u.asset, before: assets.find(a => a.id === u.asset.id) }))
+    ]
+      .map(u => ({ ...u, impact: findClosedPeriodImpact(u.asset.id, u.asset, periodCloses, importCategories, companySettings) }))
+      .filter(u => u.impact.length > 0);
+    if (impacted.length > 0) {
+      const reason = prompt(`${impacted.length} imported asset(s) alter closed periods. Closed figures stay as reported and the differences will be posted as prior-period adjustments in ${getNextOpenPeriod(periodCloses)}.\n\nEnter the reason for the adjustments to continue:`);
+      if (!reason) return false;
+      impacted.forEach(u => {
+        const adjustment = createPriorPeriodAdjustment(u.before, u.asset, periodCloses, importCategories, companySettings, u.impact, reason, currentUser);
+        setAdjustments(prev => [...prev, adjustment]);
+        logAction(u.asset.id, 'PRIOR_PERIOD_ADJUSTMENT', [
+          { field: 'Affected Periods', oldValue: u.impact.join(', '), newValue: `Posted in ${adjustment.period}` },
+          { field: 'Reason', oldValue: '', newValue: reason }
+        ]);
+      });
+    }
+
+    // Classes and locations the file named are added before the assets that use them
+    if (created.categories.length > 0) setCategories(prev => [...prev, ...created.categories]);
+    if (created.locations.length > 0) setLocations(prev => [...prev, ...created.locations]);
+    [...created.categories.map(c => ({ field: 'Asset Class', oldValue: 'N/A', newValue: c.name })), ...created.locations.map(l => ({ field: l.type, oldValue: 'N/A', newValue: l.name }))]
+      .forEach(change => logAction('IMPORT', 'IMPORT_SETUP_CREATE', [change]));
+
+    const updated = new Map(updates.map(u => [u.asset.id, u.asset]));
+    setAssets([...assets.map(a => updated.get(a.id) || a), ...inserts]);
+    updates.forEach(u => logAction(u.asset.id, 'IMPORT_UPDATE', u.changes));
+    inserts.forEach(a => logAction(a.id, 'IMPORT_CREATE', [{ field: 'Asset', oldValue: 'N/A', newValue: a.name }]));
+    return true;
+  };
+
+  // Class and company-setting changes restate every asset they reach, so they pass the same closed-period check as asset edits
+  const confirmSetupChange = (nextCategories: AssetCategory[], nextSettings: CompanySettings, description: string): boolean => {
+    const impacted = assets
+      .map(asset => ({ asset, impact: findClosedPeriodImpact(asset.id, asset, periodCloses, nextCategories, nextSettings) }))
+      .filter(u => u.impact.length > 0);
+    if (impacted.length === 0) return true;
+    const reason = prompt(`This ${description} change alters closed periods for ${impacted.length} asset(s). Closed figures stay as reported and the differences will be posted as prior-period adjustments in ${getNextOpenPeriod(periodCloses)}.\n\nEnter the reason for the adjustments to continue:`);
+    if (!reason) return false;
+    impacted.forEach(u => {
+      const adjustment = createPriorPeriodAdjustment(u.asset, u.asset, periodCloses, nextCategories, nextSettings, u.impact, reason, currentUser, categories, companySettings);
+      setAdjustments(prev => [...prev, adjustment]);
+      logAction(u.asset.id, 'PRIOR_PERIOD_ADJUSTMENT', [
+        { field: 'Affected Periods', oldValue: u.impact.join(', '), newValue: `Posted in ${adjustment.period}` },
+        { field: 'Reason', oldValue: '', newValue: reason }
+      ]);
+    });
+    return true;
+  };
+
+  const handleUpdateCategories = (next: AssetCategory[]): boolean => {
+    if (!confirmSetupChange(next, companySettings, 'asset class')) return false;
+    setCategories(next);
+    return true;
+  };
+
+  const handleUpdateCompanySettings = (next: CompanySettings): boolean => {
+    if (!confirmSetupChange(categories, next, 'company setting')) return false;
+    setCompanySettings(next);
+    return true;
+  };
+
   const handleDeleteAsset = (id: string) => {
     const asset = assets.find(a => a.id === id);
     if (!asset) return;
+    if (getImpact(id, undefined).length > 0) {
+      alert(`"${asset.name}" is included in closed periods and cannot be deleted. Dispose or scrap it instead.`);
+      return;
+    }
     
     if (confirm(`Are you sure you want to PERMANENTLY delete "${asset.name}"? This action cannot be undone and is only intended for data-entry errors.`)) {
       setAssets(prev => prev.filter(a => a.id !== id));
@@ -238,6 +498,11 @@ const App: React.FC = () => {
 
   const handleBulkDelete = (ids: string[]) => {
     if (ids.length === 0) return;
+    const locked = ids.filter(id => getImpact(id, undefined).length > 0);
+    if (locked.length > 0) {
+      alert(`${locked.length} of the selected records are included in closed periods and cannot be deleted.`);
+      return;
+    }
     if (confirm(`CRITICAL ACTION: Are you sure you want to PERMANENTLY delete ${ids.length} selected records?`)) {
       setAssets(prev => prev.filter(a => !ids.includes(a.id)));
       logAction('BULK', 'DELETE_BATCH', [{ field: 'Count', oldValue: ids.length, newValue: 0 }]);
@@ -245,6 +510,10 @@ const App: React.FC = () => {
   };
 
   const handleBulkScrap = (ids: string[], date: string) => {
+    if (lockDate && parseISO(date) <= lockDate) {
+      alert(`Scrap date ${date} falls in a closed period. Use a date after ${format(lockDate, 'yyyy-MM-dd')}.`);
+      return;
+    }
     setAssets(prev => prev.map(a => {
       if (ids.includes(a.id)) {
         return {
@@ -274,6 +543,10 @@ const App: React.FC = () => {
   };
 
   const handleDeleteAll = () => {
+    if (periodCloses.length > 0) {
+      alert('The registry cannot be purged while closed periods exist.');
+      return;
+    }
     const verification = prompt('WARNING: You are about to wipe the entire Asset Registry. Type "DELETE ALL" to confirm:');
     if (verification === 'DELETE ALL') {
       setAssets([]);
@@ -301,6 +574,8 @@ const App: React.FC = () => {
           <SectionTitle>Compliance</SectionTitle>
           <NavItem active={activeTab === 'reports'} onClick={() => setActiveTab('reports')} icon={FileBarChart} label="IFRS & SARS Reports" />
           <NavItem active={activeTab === 'journals'} onClick={() => setActiveTab('journals')} icon={BookMarked} label="GL Journals" />
+          <NavItem active={activeTab === 'reconciliation'} onClick={() => setActiveTab('reconciliation')} icon={Scale} label="GL Reconciliation" />
+          <NavItem active={activeTab === 'forecast'} onClick={() => setActiveTab('forecast')} icon={TrendingUp} label="Depreciation Forecast" />
           <SectionTitle>System</SectionTitle>
           <NavItem active={activeTab === 'import'} onClick={() => setActiveTab('import')} icon={FileUp} label="Bulk Data Import" />
           <NavItem active={activeTab === 'audit'} onClick={() => setActiveTab('audit')} icon={History} label="Audit Trail" />
@@ -339,6 +614,12 @@ const App: React.FC = () => {
                   <span className="text-slate-300 text-xs">→</span>
                   <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="bg-transparent text-[10px] font-bold text-slate-600 outline-none w-28 uppercase"/>
                 </div>
+                <select value="" onChange={(e) => applyPeriodPreset(e.target.value)} className="bg-transparent text-[9px] font-black text-blue-600 uppercase tracking-widest outline-none cursor-pointer border-l border-slate-200 pl-2">
+                  <option value="" disabled>Presets</option>
+                  <option value="fy-to-date">FY to Date</option>
+                  <option value="current-fy">Current FY</option>
+                  <option value="prior-fy">Prior FY</option>
+                </select>
               </div>
             )}
           </div>
@@ -372,10 +653,10 @@ const App: React.FC = () => {
 
         <div className="flex-grow overflow-auto p-8 custom-scrollbar">
           {editingAsset ? (
-            <AssetForm asset={editingAsset.id ? editingAsset : undefined} onSave={handleSaveAsset} onCancel={() => setEditingAsset(undefined)} onDelete={handleDeleteAsset} existingAssets={assets} categories={categories} locations={locations} />
+            <AssetForm asset={editingAsset.id ? editingAsset : undefined} onSave={handleSaveAsset} onCancel={() => setEditingAsset(undefined)} onDelete={handleDeleteAsset} existingAssets={assets} categories={categories} locations={locations} lockedThrough={lockDate ? format(lockDate, 'yyyy-MM-dd') : undefined} />
           ) : (
             <>
-              {activeTab === 'dashboard' && <AssetDashboard assets={assets} categories={categories} locations={locations} reportDate={endDate} />}
+              {activeTab === 'dashboard' && <AssetDashboard assets={assets} categories={categories} locations={locations} reportDate={endDate} companySettings={companySettings} chartOfAccounts={chartOfAccounts} />}
               {activeTab === 'register' && (
                 <AssetTable 
                   assets={assets} 
@@ -391,11 +672,13 @@ const App: React.FC = () => {
                 />
               )}
               {activeTab === 'locations' && <LocationManager locations={locations} onUpdate={setLocations} assets={assets} />}
-              {activeTab === 'reports' && <ReportingSuite assets={assets} categories={categories} locations={locations} startDate={startDate} endDate={endDate} />}
-              {activeTab === 'journals' && <JournalManager assets={assets} categories={categories} locations={locations} selectedMonth={format(new Date(endDate), 'yyyy-MM')} />}
-              {activeTab === 'import' && <ImportManager categories={categories} locations={locations} onImport={(a) => setAssets([...assets, ...a])} />}
-              {activeTab === 'audit' && <AuditTrailView logs={auditLogs} assets={assets} />}
-              {activeTab === 'settings' && <CategoryManager categories={categories} onUpdate={setCategories} dbConfig={dbConfig} onUpdateDb={setDbConfig} onForcePush={() => pushToPostgres(false)} onForcePull={() => pullFromPostgres(true)} onTestConnection={() => pullFromPostgres(true)} connectionStatus={connectionStatus} syncLoading={syncLoading} />}
+              {activeTab === 'reports' && <ReportingSuite assets={assets} categories={categories} locations={locations} startDate={startDate} endDate={endDate} companySettings={companySettings} />}
+              {activeTab === 'journals' && <JournalManager assets={assets} categories={categories} locations={locations} selectedMonth={format(new Date(endDate), 'yyyy-MM')} companySettings={companySettings} periodCloses={periodCloses} adjustments={adjustments} onClosePeriod={handleClosePeriod} onReopenPeriod={handleReopenPeriod} runs={depreciationRuns} selectedRunId={selectedRunId} onSelectRun={setSelectedRunId} onRunDepreciation={handleRunDepreciation} onPostRun={handlePostRun} onReverseRun={handleReverseRun} exportProfiles={exportProfiles} onUpdateExportProfiles={setExportProfiles} chartOfAccounts={chartOfAccounts} />}
+              {activeTab === 'reconciliation' && <ReconciliationView assets={assets} categories={categories} locations={locations} companySettings={companySettings} trialBalance={trialBalance} onImportTrialBalance={handleImportTrialBalance} currentUser={currentUser} defaultAsAt={endDate} />}
+              {activeTab === 'forecast' && <ForecastView assets={assets} categories={categories} locations={locations} companySettings={companySettings} plannedCapex={plannedCapex} onUpdatePlannedCapex={setPlannedCapex} defaultFrom={endDate} />}
+              {activeTab === 'import' && <ImportManager assets={assets} categories={categories} locations={locations} settings={companySettings} mappingProfiles={importMappingProfiles} onUpdateMappingProfiles={setImportMappingProfiles} onImport={handleImportAssets} />}
+              {activeTab === 'audit' && <AuditTrailView logs={auditLogs} assets={assets} runs={depreciationRuns} onOpenRun={handleOpenRun} />}
+              {activeTab === 'settings' && <CategoryManager categories={categories} onUpdate={handleUpdateCategories} companySettings={companySettings} onUpdateCompanySettings={handleUpdateCompanySettings} chartOfAccounts={chartOfAccounts} onUpdateChartOfAccounts={setChartOfAccounts} locations={locations} dbConfig={dbConfig} onUpdateDb={setDbConfig} onForcePush={() => pushToPostgres(false)} onForcePull={() => pullFromPostgres(true)} onTestConnection={() => pullFromPostgres(true)} connectionStatus={connectionStatus} syncLoading={syncLoading} />}
             </>
           )}
         </div>
@@ -1,24 +1,22 @@
 
 import React, { useMemo, useState } from 'react';
-import { Asset, AssetCategory, AssetLocation } from '../types';
+import { Asset, AssetCategory, AssetLocation, CompanySettings, GLAccount } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { calculateDepreciation } from '../services/assetService';
+import { calculateDepreciation, getFiscalYearBounds } from '../services/assetService';
+import { describeAccountIssue, getCategoryAccountIssues } from '../services/accountService';
 import { isValid } from 'date-fns';
 import { Wallet, Package, Activity, ArrowUpRight, ArrowDownRight, TrendingUp, TrendingDown, ReceiptText, ShieldCheck, CheckSquare, AlertCircle, Filter } from 'lucide-react';
 
-// Custom implementation of startOfYear as it is missing from date-fns export in this environment
-const startOfYear = (date: Date): Date => {
-  return new Date(date.getFullYear(), 0, 1);
-};
-
 interface AssetDashboardProps {
   assets: Asset[];
   categories: AssetCategory[];
   locations: AssetLocation[];
   reportDate: string;
+  companySettings: CompanySettings;
+  chartOfAccounts: GLAccount[];
 }
 
-const AssetDashboard: React.FC<AssetDashboardProps> = ({ assets, categories, locations, reportDate }) => {
+const AssetDashboard: React.FC<AssetDashboardProps> = ({ assets, categories, locations, reportDate, companySettings, chartOfAccounts }) => {
   const [selectedBranch, setSelectedBranch] = useState<string>('all');
   
   const branches = useMemo(() => locations.filter(u => u.type === 'Branch'), [locations]);
@@ -31,9 +29,10 @@ const AssetDashboard: React.FC<AssetDashboardProps> = ({ assets, categories, loc
   const calculations = useMemo(() => {
     let end = new Date(reportDate);
     if (!isValid(end)) end = new Date();
-    const start = startOfYear(end);
-    return filteredAssets.map(a => calculateDepreciation(a, start, end, categories));
-  }, [filteredAssets, reportDate, categories]);
+    // Year to date runs from the start of the fiscal year containing the report date
+    const start = getFiscalYearBounds(end, companySettings).start;
+    return filteredAssets.map(a => calculateDepreciation(a, start, end, categories, companySettings));
+  }, [filteredAssets, reportDate, categories, companySettings]);
 
   const stats = useMemo(() => {
     const totalCost = calculations.reduce((sum, c) => sum + c.closingCost, 0);
@@ -56,15 +55,20 @@ const AssetDashboard: React.FC<AssetDashboardProps> = ({ assets, categories, loc
     }).filter(d => d.value > 0);
   }, [calculations, filteredAssets, categories]);
 
+  // Mappings that are missing, outside the chart of accounts or of the wrong account type
+  const mappingIssues = useMemo(() => {
+    return categories.flatMap(c => getCategoryAccountIssues(c, chartOfAccounts).map(issue => ({ category: c.name, issue })));
+  }, [categories, chartOfAccounts]);
+
   // IFRS Compliance Logic
   const complianceChecklist = useMemo(() => {
     return [
       { label: 'Asset Classes Configured', status: categories.length > 0 },
-      { label: 'GL Account Mapping Complete', status: categories.every(c => c.glCodeCost && c.glCodeAccumDepr) },
+      { label: 'GL Account Mapping Complete', status: mappingIssues.length === 0 },
       { label: 'Physical Locations Mapped', status: assets.some(a => a.locationId) || assets.length === 0 },
       { label: 'IFRS IAS 16 Depreciation Rules Applied', status: true }
     ];
-  }, [categories, assets]);
+  }, [categories, assets, mappingIssues]);
 
   const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#3b82f6'];
   const currencyFormatter = new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR', maximumFractionDigits: 0 });
@@ -174,6 +178,13 @@ const AssetDashboard: React.FC<AssetDashboardProps> = ({ assets, categories, loc
                 </div>
               ))}
             </div>
+            {mappingIssues.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-800 space-y-1.5">
+                {mappingIssues.map(({ category, issue }, idx) => (
+                  <p key={idx} className="text-[9px] font-bold text-amber-400"><span className="text-slate-300">{category}</span> • {describeAccountIssue(issue)}</p>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Asset, AssetStatus, AssetComponent, AssetLocation, AssetCategory, TaxStrategy } from '../types';
-import { Tag, Plus, Trash2, Box, MapPin, XCircle, CheckCircle, AlertTriangle, Hammer, Ban, Truck, Receipt, Phone, ShieldCheck, Calendar, Wallet, FileText, Info, Clock, Percent, Calculator } from 'lucide-react';
+import { Asset, AssetStatus, AssetComponent, AssetLocation, AssetCategory, TaxStrategy, DepreciationMethod, UsageReading, RevaluationEvent, ImpairmentEvent, FundingSource, CgtValuationMethod } from '../types';
+import { CGT_VALUATION_DATE } from '../constants';
+import { getDepreciationPolicy, describeDepreciationPolicy, getFundingPolicy } from '../services/assetService';
+import { Tag, Plus, Trash2, Box, MapPin, XCircle, CheckCircle, AlertTriangle, Hammer, Ban, Truck, Receipt, Phone, ShieldCheck, Calendar, Wallet, FileText, Info, Clock, Percent, Calculator, Gauge, TrendingUp, TrendingDown } from 'lucide-react';
 
 interface AssetFormProps {
   asset?: Asset;
@@ -10,9 +12,10 @@ interface AssetFormProps {
   existingAssets: Asset[];
   categories: AssetCategory[];
   locations: AssetLocation[];
+  lockedThrough?: string; // Last day of the latest closed period (yyyy-MM-dd)
 }
 
-const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete, existingAssets, categories, locations }) => {
+const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete, existingAssets, categories, locations, lockedThrough }) => {
   const [formData, setFormData] = useState<Partial<Asset>>({
     assetNumber: '',
     tagId: '',
@@ -128,6 +131,60 @@ const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete
     }));
   };
 
+  const addUsageReading = (comp: AssetComponent) => {
+    const reading: UsageReading = {
+      id: Math.random().toString(36).substr(2, 9),
+      date: new Date().toISOString().split('T')[0],
+      units: 0,
+      reference: ''
+    };
+    updateComponent(comp.id, { usageLog: [...(comp.usageLog || []), reading] });
+  };
+
+  const updateUsageReading = (comp: AssetComponent, readingId: string, updates: Partial<UsageReading>) => {
+    updateComponent(comp.id, { usageLog: (comp.usageLog || []).map(r => r.id === readingId ? { ...r, ...updates } : r) });
+  };
+
+  const removeUsageReading = (comp: AssetComponent, readingId: string) => {
+    updateComponent(comp.id, { usageLog: (comp.usageLog || []).filter(r => r.id !== readingId) });
+  };
+
+  const addRevaluation = (comp: AssetComponent) => {
+    const revaluation: RevaluationEvent = {
+      id: Math.random().toString(36).substr(2, 9),
+      date: new Date().toISOString().split('T')[0],
+      newFairValue: 0,
+      reason: ''
+    };
+    updateComponent(comp.id, { revaluations: [...(comp.revaluations || []), revaluation] });
+  };
+
+  const updateRevaluation = (comp: AssetComponent, revaluationId: string, updates: Partial<RevaluationEvent>) => {
+    updateComponent(comp.id, { revaluations: (comp.revaluations || []).map(r => r.id === revaluationId ? { ...r, ...updates } : r) });
+  };
+
+  const removeRevaluation = (comp: AssetComponent, revaluationId: string) => {
+    updateComponent(comp.id, { revaluations: (comp.revaluations || []).filter(r => r.id !== revaluationId) });
+  };
+
+  const addImpairment = (comp: AssetComponent) => {
+    const impairment: ImpairmentEvent = {
+      id: Math.random().toString(36).substr(2, 9),
+      date: new Date().toISOString().split('T')[0],
+      recoverableAmount: 0,
+      reason: ''
+    };
+    updateComponent(comp.id, { impairments: [...(comp.impairments || []), impairment] });
+  };
+
+  const updateImpairment = (comp: AssetComponent, impairmentId: string, updates: Partial<ImpairmentEvent>) => {
+    updateComponent(comp.id, { impairments: (comp.impairments || []).map(i => i.id === impairmentId ? { ...i, ...updates } : i) });
+  };
+
+  const removeImpairment = (comp: AssetComponent, impairmentId: string) => {
+    updateComponent(comp.id, { impairments: (comp.impairments || []).filter(i => i.id !== impairmentId) });
+  };
+
   const toggleDisposal = (id: string) => {
     const comp = formData.components?.find(c => c.id === id);
     if (!comp) return;
@@ -169,6 +226,12 @@ const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete
     });
   };
 
+  const category = categories.find(c => c.id === formData.categoryId);
+  const getClassPolicyLabel = (comp: AssetComponent) => {
+    if (!category) return 'N/A';
+    const policy = getDepreciationPolicy({ ...comp, depreciationMethod: undefined }, category);
+    return describeDepreciationPolicy(policy.method, policy.rate);
+  };
   const totalCost = formData.components?.reduce((sum, c) => sum + (c.status === AssetStatus.ACTIVE ? c.cost : 0), 0) || 0;
   const currencyFormatter = new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR' });
 
@@ -270,6 +333,8 @@ const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete
                   <select required className="w-full bg-blue-50 border border-blue-100 text-blue-900 rounded-xl px-4 py-3 text-xs font-black uppercase tracking-tight outline-none shadow-sm" value={formData.categoryId || ''} onChange={e => handleCategoryChange(e.target.value)}>
                     {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
                   </select>
+                  <label className="block text-[9px] font-black text-slate-500 uppercase tracking-tighter mb-1.5 mt-4">Department (GL Segment)</label>
+                  <input className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-mono font-bold text-slate-700 outline-none shadow-sm focus:ring-2 focus:ring-blue-500/10" placeholder="Optional, e.g. ADMIN" value={formData.departmentCode || ''} onChange={e => setFormData(p => ({ ...p, departmentCode: e.target.value.trim() || undefined }))} />
                 </div>
               </div>
            </div>
@@ -292,6 +357,9 @@ const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete
           <div className="space-y-6">
             {formData.components?.map((comp, idx) => {
               const isRetired = comp.status !== AssetStatus.ACTIVE;
+              const usesUnits = !!category && getDepreciationPolicy(comp, category).method === DepreciationMethod.UNITS_OF_PRODUCTION;
+              const unitsLogged = (comp.usageLog || []).reduce((sum, r) => sum + (Number(r.units) || 0), 0);
+              const inClosedPeriod = !!lockedThrough && !!comp.acquisitionDate && comp.acquisitionDate <= lockedThrough;
               return (
                 <div key={comp.id} className={`relative overflow-hidden border-2 rounded-3xl transition-all shadow-sm ${isRetired ? 'bg-orange-50/50 border-orange-100' : 'bg-white border-slate-100 hover:border-blue-200'}`}>
                   <div className="absolute top-0 left-0 w-2 h-full bg-blue-600/10"></div>
@@ -300,7 +368,12 @@ const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete
                       {/* Main Component Details */}
                       <div className="flex-grow space-y-6">
                         <div className="flex items-center justify-between mb-4">
-                           <span className="bg-slate-100 text-slate-500 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest">Component #{idx + 1}</span>
+                           <div className="flex items-center gap-2">
+                             <span className="bg-slate-100 text-slate-500 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest">Component #{idx + 1}</span>
+                             {inClosedPeriod && (
+                               <span title={`Periods up to ${lockedThrough} are closed. Changes to cost, dates or depreciation inputs will be posted as a prior-period adjustment.`} className="bg-amber-50 text-amber-700 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1"><Clock size={10} /> Closed through {lockedThrough}</span>
+                             )}
+                           </div>
                            <div className="flex gap-2">
                              <button type="button" onClick={() => toggleDisposal(comp.id)} className={`flex items-center gap-2 px-4 py-2 rounded-xl font-black text-[9px] uppercase tracking-widest transition-all ${isRetired ? 'bg-emerald-600 text-white shadow-lg' : 'bg-orange-100 text-orange-600 hover:bg-orange-200'}`}>
                                {isRetired ? <><CheckCircle size={14} /> Restore Unit</> : <><Ban size={14} /> Retire Unit</>}
@@ -344,10 +417,175 @@ const AssetForm: React.FC<AssetFormProps> = ({ asset, onSave, onCancel, onDelete
                               <input type="number" disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.taxRate} onChange={e => updateComponent(comp.id, { taxRate: Number(e.target.value) })} />
                             </div>
                           </div>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
+                            <div>
+                              <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><Clock size={12} /> Brought Into Use</label>
+                              <input type="date" disabled={isRetired} min={comp.acquisitionDate} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.broughtIntoUseDate || ''} onChange={e => updateComponent(comp.id, { broughtIntoUseDate: e.target.value || undefined })} />
+                            </div>
+                            <div>
+                              <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><ShieldCheck size={12} /> Condition on Acquisition</label>
+                              <select disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.isSecondHand ? 'used' : 'new'} onChange={e => updateComponent(comp.id, { isSecondHand: e.target.value === 'used' })}>
+                                <option value="new">New / Unused</option>
+                                <option value="used">Second-hand (Used)</option>
+                              </select>
+                            </div>
+                            {comp.isSecondHand && category?.taxStrategy === TaxStrategy.SARS_12C_40_20 && (
+                              <p className="text-[10px] font-bold text-amber-600 self-end pb-2">Second-hand plant: s12C allowance limited to 20% p.a.</p>
+                            )}
+                          </div>
+                          {comp.takeOnDate && (
+                            <p className="mt-4 px-4 py-2.5 bg-slate-100 rounded-xl text-[10px] font-bold text-slate-500">
+                              Taken on from legacy register at {comp.takeOnDate}: accumulated depreciation R {(comp.takeOnAccumulatedDepr || 0).toLocaleString('en-ZA', { minimumFractionDigits: 2 })}
+                              {comp.takeOnRevaluationSurplus ? `, revaluation surplus R ${comp.takeOnRevaluationSurplus.toLocaleString('en-ZA', { minimumFractionDigits: 2 })}` : ''}
+                              {comp.takeOnTaxValue !== undefined ? `, tax value R ${comp.takeOnTaxValue.toLocaleString('en-ZA', { minimumFractionDigits: 2 })}` : ', allowances recalculated from brought into use'}
+                            </p>
+                          )}
+                          {comp.acquisitionDate && comp.acquisitionDate < CGT_VALUATION_DATE && (
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
+                              <div>
+                                <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><Calendar size={12} /> CGT Valuation Date Method</label>
+                                <select disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.valuationDateMethod || CgtValuationMethod.TIME_APPORTIONMENT} onChange={e => updateComponent(comp.id, { valuationDateMethod: e.target.value as CgtValuationMethod })}>
+                                  {Object.values(CgtValuationMethod).map(m => <option key={m} value={m}>{m}</option>)}
+                                </select>
+                              </div>
+                              {comp.valuationDateMethod === CgtValuationMethod.MARKET_VALUE && (
+                                <div>
+                                  <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><Wallet size={12} /> Market Value at {CGT_VALUATION_DATE} (R)</label>
+                                  <input type="number" disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.valuationDateMarketValue ?? ''} onChange={e => updateComponent(comp.id, { valuationDateMarketValue: e.target.value === '' ? undefined : Number(e.target.value) })} />
+                                </div>
+                              )}
+                            </div>
+                          )}
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-4">
+                            <div className="md:col-span-2">
+                              <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><Calculator size={12} /> Depreciation Method</label>
+                              <select disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.depreciationMethod || ''} onChange={e => updateComponent(comp.id, { depreciationMethod: (e.target.value || undefined) as DepreciationMethod | undefined, depreciationRate: undefined })}>
+                                <option value="">Class Default ({getClassPolicyLabel(comp)})</option>
+                                {Object.values(DepreciationMethod).map(m => <option key={m} value={m}>{m}</option>)}
+                              </select>
+                            </div>
+                            {comp.depreciationMethod === DepreciationMethod.REDUCING_BALANCE && (
+                              <div>
+                                <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><Percent size={12} /> Rate p.a. (%)</label>
+                                <input type="number" disabled={isRetired} placeholder={comp.usefulLifeYears > 0 ? (200 / comp.usefulLifeYears).toFixed(1) : ''} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.depreciationRate ?? ''} onChange={e => updateComponent(comp.id, { depreciationRate: e.target.value === '' ? undefined : Number(e.target.value) })} />
+                              </div>
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Units of Production Meter Log */}
+                        {usesUnits && (
+                          <div className="pt-6 mt-6 border-t border-slate-100">
+                            <div className="flex justify-between items-center mb-4">
+                              <h5 className="text-[10px] font-black text-blue-600 uppercase tracking-widest flex items-center gap-2">
+                                <Gauge size={14} /> Production Meter Log
+                              </h5>
+                              {!isRetired && (
+                                <button type="button" onClick={() => addUsageReading(comp)} className="text-[9px] font-black uppercase tracking-widest text-blue-600 bg-blue-50 px-3 py-1.5 rounded-lg hover:bg-blue-100 transition-colors flex items-center gap-1"><Plus size={12} /> Log Reading</button>
+                              )}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4">
+                              <div>
+                                <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5">Estimated Lifetime Units</label>
+                                <input type="number" disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.estimatedLifetimeUnits ?? ''} onChange={e => updateComponent(comp.id, { estimatedLifetimeUnits: e.target.value === '' ? undefined : Number(e.target.value) })} />
+                              </div>
+                              <div className="md:col-span-2 flex items-end">
+                                <p className={`text-[10px] font-bold ${comp.estimatedLifetimeUnits ? 'text-slate-500' : 'text-orange-600'}`}>
+                                  {comp.estimatedLifetimeUnits
+                                    ? `${unitsLogged.toLocaleString('en-ZA')} of ${comp.estimatedLifetimeUnits.toLocaleString('en-ZA')} units logged (${((unitsLogged / comp.estimatedLifetimeUnits) * 100).toFixed(1)}% consumed)`
+                                    : 'Enter the lifetime unit estimate — no depreciation is charged without it.'}
+                                </p>
+                              </div>
+                            </div>
+                            {(comp.usageLog || []).length > 0 && (
+                              <div className="space-y-2">
+                                {[...(comp.usageLog || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).map(reading => (
+                                  <div key={reading.id} className="grid grid-cols-12 gap-3 items-center">
+                                    <input type="date" disabled={isRetired} className="col-span-3 text-xs font-bold bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={reading.date} onChange={e => updateUsageReading(comp, reading.id, { date: e.target.value })} />
+                                    <input type="number" disabled={isRetired} placeholder="Units" className="col-span-3 text-xs font-mono font-bold bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={reading.units} onChange={e => updateUsageReading(comp, reading.id, { units: Number(e.target.value) })} />
+                                    <input type="text" disabled={isRetired} placeholder="Meter ref / batch note" className="col-span-5 text-xs font-medium bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={reading.reference || ''} onChange={e => updateUsageReading(comp, reading.id, { reference: e.target.value })} />
+                                    {!isRetired && <button type="button" onClick={() => removeUsageReading(comp, reading.id)} className="col-span-1 p-2 text-slate-300 hover:text-red-500 transition-colors"><Trash2 size={14} /></button>}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {/* IAS 16 Revaluation History */}
+                        <div className="pt-6 mt-6 border-t border-slate-100">
+                          <div className="flex justify-between items-center mb-4">
+                            <h5 className="text-[10px] font-black text-violet-600 uppercase tracking-widest flex items-center gap-2">
+                              <TrendingUp size={14} /> Revaluation History
+                            </h5>
+                            {!isRetired && (
+                              <button type="button" onClick={() => addRevaluation(comp)} className="text-[9px] font-black uppercase tracking-widest text-violet-600 bg-violet-50 px-3 py-1.5 rounded-lg hover:bg-violet-100 transition-colors flex items-center gap-1"><Plus size={12} /> Record Revaluation</button>
+                            )}
+                          </div>
+                          {(comp.revaluations || []).length > 0 ? (
+                            <div className="space-y-2">
+                              {[...(comp.revaluations || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).map(revaluation => (
+                                <div key={revaluation.id} className="grid grid-cols-12 gap-3 items-center">
+                                  <input type="date" disabled={isRetired} className="col-span-3 text-xs font-bold bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={revaluation.date} onChange={e => updateRevaluation(comp, revaluation.id, { date: e.target.value })} />
+                                  <input type="number" disabled={isRetired} placeholder="Fair value" className="col-span-3 text-xs font-mono font-bold bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={revaluation.newFairValue} onChange={e => updateRevaluation(comp, revaluation.id, { newFairValue: Number(e.target.value) })} />
+                                  <input type="text" disabled={isRetired} placeholder="Valuer / basis of valuation" className="col-span-5 text-xs font-medium bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={revaluation.reason} onChange={e => updateRevaluation(comp, revaluation.id, { reason: e.target.value })} />
+                                  {!isRetired && <button type="button" onClick={() => removeRevaluation(comp, revaluation.id)} className="col-span-1 p-2 text-slate-300 hover:text-red-500 transition-colors"><Trash2 size={14} /></button>}
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-[10px] font-bold text-slate-400">Carried under the cost model. Record a fair value to move this component to the revaluation model.</p>
+                          )}
+                        </div>
+
+                        {/* IAS 36 Impairment Register */}
+                        <div className="pt-6 mt-6 border-t border-slate-100">
+                          <div className="flex justify-between items-center mb-4">
+                            <h5 className="text-[10px] font-black text-red-600 uppercase tracking-widest flex items-center gap-2">
+                              <TrendingDown size={14} /> Impairment Register
+                            </h5>
+                            {!isRetired && (
+                              <button type="button" onClick={() => addImpairment(comp)} className="text-[9px] font-black uppercase tracking-widest text-red-600 bg-red-50 px-3 py-1.5 rounded-lg hover:bg-red-100 transition-colors flex items-center gap-1"><Plus size={12} /> Record Impairment</button>
+                            )}
+                          </div>
+                          {(comp.impairments || []).length > 0 ? (
+                            <div className="space-y-3">
+                              {[...(comp.impairments || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()).map(impairment => (
+                                <div key={impairment.id} className="space-y-2">
+                                  <div className="grid grid-cols-12 gap-3 items-center">
+                                    <input type="date" disabled={isRetired} className="col-span-3 text-xs font-bold bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={impairment.date} onChange={e => updateImpairment(comp, impairment.id, { date: e.target.value })} />
+                                    <input type="number" disabled={isRetired} placeholder="Recoverable amount" className="col-span-3 text-xs font-mono font-bold bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={impairment.recoverableAmount} onChange={e => updateImpairment(comp, impairment.id, { recoverableAmount: Number(e.target.value) })} />
+                                    <input type="text" disabled={isRetired} placeholder="Indicator / circumstances" className="col-span-4 text-xs font-medium bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={impairment.reason} onChange={e => updateImpairment(comp, impairment.id, { reason: e.target.value })} />
+                                    {!isRetired && (
+                                      <button type="button" onClick={() => updateImpairment(comp, impairment.id, { reversal: impairment.reversal ? undefined : { date: new Date().toISOString().split('T')[0], recoverableAmount: 0, reason: '' } })} className={`col-span-1 text-[8px] font-black uppercase px-1 py-2 rounded-lg transition-colors ${impairment.reversal ? 'bg-emerald-600 text-white' : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'}`}>Reverse</button>
+                                    )}
+                                    {!isRetired && <button type="button" onClick={() => removeImpairment(comp, impairment.id)} className="col-span-1 p-2 text-slate-300 hover:text-red-500 transition-colors"><Trash2 size={14} /></button>}
+                                  </div>
+                                  {impairment.reversal && (
+                                    <div className="grid grid-cols-12 gap-3 items-center pl-6 border-l-2 border-emerald-200">
+                                      <input type="date" disabled={isRetired} className="col-span-3 text-xs font-bold bg-emerald-50/50 border border-emerald-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={impairment.reversal.date} onChange={e => updateImpairment(comp, impairment.id, { reversal: { ...impairment.reversal!, date: e.target.value } })} />
+                                      <input type="number" disabled={isRetired} placeholder="Revised recoverable amount" className="col-span-3 text-xs font-mono font-bold bg-emerald-50/50 border border-emerald-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={impairment.reversal.recoverableAmount} onChange={e => updateImpairment(comp, impairment.id, { reversal: { ...impairment.reversal!, recoverableAmount: Number(e.target.value) } })} />
+                                      <input type="text" disabled={isRetired} placeholder="Reason for reversal" className="col-span-6 text-xs font-medium bg-emerald-50/50 border border-emerald-100 rounded-xl px-3 py-2 outline-none disabled:opacity-50" value={impairment.reversal.reason} onChange={e => updateImpairment(comp, impairment.id, { reversal: { ...impairment.reversal!, reason: e.target.value } })} />
+                                    </div>
+                                  )}
+                                </div>
+                              ))}
+                              <p className="text-[9px] font-bold text-slate-400">Reversals are capped at the carrying amount the component would have had without the impairment.</p>
+                            </div>
+                          ) : (
+                            <p className="text-[10px] font-bold text-slate-400">No impairment indicators recorded.</p>
+                          )}
                         </div>
 
                         {/* Supplier Section */}
-                        <div className="pt-6 mt-6 border-t border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="pt-6 mt-6 border-t border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-6">
+                          <div>
+                            <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><Wallet size={12} /> Funding Source</label>
+                            <select disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.fundingSource || ''} onChange={e => updateComponent(comp.id, { fundingSource: (e.target.value || undefined) as FundingSource | undefined })}>
+                              <option value="">Class Default{category ? ` (${getFundingPolicy(undefined, category).source})` : ''}</option>
+                              {Object.values(FundingSource).map(f => <option key={f} value={f}>{f}</option>)}
+                            </select>
+                          </div>
                           <div>
                             <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1.5"><Truck size={12} /> Supplier Name</label>
                             <input type="text" placeholder="Bakery Solutions ZAR" disabled={isRetired} className="w-full text-xs font-bold bg-white border border-slate-100 rounded-xl px-4 py-2.5 outline-none focus:border-blue-200 transition-all disabled:opacity-50" value={comp.supplierName || ''} onChange={e => updateComponent(comp.id, { supplierName: e.target.value })} />
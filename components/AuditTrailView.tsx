@@ -1,15 +1,18 @@
 
 import React from 'react';
-import { AuditLog, Asset } from '../types';
+import { AuditLog, Asset, DepreciationRun } from '../types';
 import { format } from 'date-fns';
-import { History, User } from 'lucide-react';
+import { formatBatchNumber } from '../services/journalService';
+import { History, User, Link2 } from 'lucide-react';
 
 interface AuditTrailViewProps {
   logs: AuditLog[];
   assets: Asset[];
+  runs: DepreciationRun[];
+  onOpenRun: (runId: string) => void;
 }
 
-const AuditTrailView: React.FC<AuditTrailViewProps> = ({ logs, assets }) => {
+const AuditTrailView: React.FC<AuditTrailViewProps> = ({ logs, assets, runs, onOpenRun }) => {
   return (
     <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
       <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
@@ -33,6 +36,7 @@ const AuditTrailView: React.FC<AuditTrailViewProps> = ({ logs, assets }) => {
           <tbody className="divide-y divide-slate-100">
             {logs.slice().reverse().map(log => {
               const asset = assets.find(a => a.id === log.assetId);
+              const run = log.batchId ? runs.find(r => r.id === log.batchId) : undefined;
               return (
                 <tr key={log.id} className="hover:bg-slate-50 transition">
                   <td className="px-6 py-4 whitespace-nowrap text-slate-500 font-medium">
@@ -46,12 +50,22 @@ const AuditTrailView: React.FC<AuditTrailViewProps> = ({ logs, assets }) => {
                     <span className="font-medium text-slate-700">{log.userId}</span>
                   </td>
                   <td className="px-6 py-4">
-                    <span className="font-semibold text-blue-600">{asset?.name || 'Deleted Asset'}</span>
-                    <span className="block text-[10px] text-slate-400">{asset?.assetNumber}</span>
+                    {log.batchId ? (
+                      run ? (
+                        <button onClick={() => onOpenRun(run.id)} className="font-semibold text-blue-600 hover:underline flex items-center gap-1"><Link2 size={12} /> Batch {formatBatchNumber(run)}</button>
+                      ) : (
+                        <span className="font-semibold text-slate-400">Deleted Batch</span>
+                      )
+                    ) : (
+                      <>
+                        <span className="font-semibold text-blue-600">{asset?.name || 'Deleted Asset'}</span>
+                        <span className="block text-[10px] text-slate-400">{asset?.assetNumber}</span>
+                      </>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                     <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${
-                      log.action === 'CREATE' ? 'bg-emerald-100 text-emerald-700' :
+                      log.action === 'CREATE' || log.action === 'IMPORT_CREATE' || log.action === 'IMPORT_SETUP_CREATE' ? 'bg-emerald-100 text-emerald-700' :
                       log.action === 'DISPOSE' ? 'bg-red-100 text-red-700' :
                       'bg-blue-100 text-blue-700'
                     }`}>
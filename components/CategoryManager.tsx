@@ -1,15 +1,25 @@
 
 import React, { useState } from 'react';
-import { AssetCategory, TaxStrategy, DatabaseConfig } from '../types';
+import { DEFAULT_GL_CODES, DEFAULT_FUNDING_ACCOUNTS, IN47_ASSET_CLASSES, CATEGORY_GL_FIELDS, FUNDING_ACCOUNT_TYPES, NEW_CATEGORY_DEFAULTS } from '../constants';
+import { AssetCategory, TaxStrategy, DatabaseConfig, DepreciationMethod, CompanySettings, CompanyTaxRate, FiscalYearEndChange, FundingSource, AccountSegment, AssetLocation, GLAccount, GLAccountType } from '../types';
+import { getFiscalYearBounds, getIN47RateWarning } from '../services/assetService';
+import { ACCOUNT_SEGMENT_LABELS, composeAccountCode, describeAccountIssue, getCategoryAccountIssues, parseChartOfAccounts } from '../services/accountService';
+import * as XLSX from 'xlsx';
+import { differenceInDays, format } from 'date-fns';
 import { 
   Settings, Plus, Trash2, Save, Apple, Copy, Check, Zap, 
   ArrowUpCircle, ArrowDownCircle, RefreshCw, DatabaseBackup,
-  LayoutGrid, Calculator, BookOpen, ShieldCheck, Percent, Clock
+  LayoutGrid, Calculator, BookOpen, ShieldCheck, Percent, Clock, CalendarRange, AlertTriangle, ArrowUp, ArrowDown, ListTree, FileUp
 } from 'lucide-react';
 
 interface CategoryManagerProps {
   categories: AssetCategory[];
-  onUpdate: (categories: AssetCategory[]) => void;
+  onUpdate: (categories: AssetCategory[]) => boolean; // False when the change was not applied
+  companySettings: CompanySettings;
+  onUpdateCompanySettings: (settings: CompanySettings) => boolean; // False when the change was not applied
+  chartOfAccounts: GLAccount[];
+  onUpdateChartOfAccounts: (accounts: GLAccount[]) => void;
+  locations: AssetLocation[];
   dbConfig: DatabaseConfig;
   onUpdateDb: (config: DatabaseConfig) => void;
   onForcePush?: () => void;
@@ -20,16 +30,22 @@ interface CategoryManagerProps {
 }
 
 const CategoryManager: React.FC<CategoryManagerProps> = ({ 
-  categories, onUpdate, dbConfig, onUpdateDb, onForcePush, onForcePull, onTestConnection, connectionStatus, syncLoading 
+  categories, onUpdate, companySettings, onUpdateCompanySettings, chartOfAccounts, onUpdateChartOfAccounts, locations, dbConfig, onUpdateDb, onForcePush, onForcePull, onTestConnection, connectionStatus, syncLoading 
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [localCategories, setLocalCategories] = useState<AssetCategory[]>(categories);
+  // Company settings are staged like classes so closed-period checks run once per save, not per keystroke
+  const [localSettings, setLocalSettings] = useState<CompanySettings>(companySettings);
+  const settingsChanged = JSON.stringify(localSettings) !== JSON.stringify(companySettings);
   const [copied, setCopied] = useState(false);
 
   const sqlSchema = `-- DATABASE SETUP
-CREATE TABLE IF NOT EXISTS categories (id TEXT PRIMARY KEY, name TEXT, "defaultUsefulLife" NUMERIC, "defaultTaxRate" NUMERIC, "residualPercentage" NUMERIC, "taxStrategy" TEXT, "glCodeCost" TEXT, "glCodeAccumDepr" TEXT, "glCodeDeprExpense" TEXT);
+CREATE TABLE IF NOT EXISTS categories (id TEXT PRIMARY KEY, name TEXT, "defaultUsefulLife" NUMERIC, "defaultTaxRate" NUMERIC, "residualPercentage" NUMERIC, "taxStrategy" TEXT, "glCodeCost" TEXT, "glCodeAccumDepr" TEXT, "glCodeDeprExpense" TEXT, "glCodeRevaluationSurplus" TEXT, "glCodeRevaluationPL" TEXT, "glCodeRetainedEarnings" TEXT, "glCodeImpairmentLoss" TEXT, "glCodeImpairmentReversal" TEXT, "glCodeDisposalProceeds" TEXT, "glCodeDisposalProfit" TEXT, "glCodeDisposalLoss" TEXT, "defaultFundingSource" TEXT, "fundingAccounts" JSONB, "depreciationMethod" TEXT, "depreciationRate" NUMERIC, "in47ClassId" TEXT);
 CREATE TABLE IF NOT EXISTS locations (id TEXT PRIMARY KEY, name TEXT, code TEXT, type TEXT, "parentId" TEXT);
-CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tagId" TEXT, name TEXT, description TEXT, "categoryId" TEXT, "branchId" TEXT, "locationId" TEXT, "subLocationId" TEXT, status TEXT, components JSONB);`;
+CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tagId" TEXT, name TEXT, description TEXT, "categoryId" TEXT, "branchId" TEXT, "locationId" TEXT, "subLocationId" TEXT, "departmentCode" TEXT, status TEXT, components JSONB);
+-- UPGRADE EXISTING TABLES
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS "glCodeRevaluationSurplus" TEXT, ADD COLUMN IF NOT EXISTS "glCodeRevaluationPL" TEXT, ADD COLUMN IF NOT EXISTS "glCodeRetainedEarnings" TEXT, ADD COLUMN IF NOT EXISTS "glCodeImpairmentLoss" TEXT, ADD COLUMN IF NOT EXISTS "glCodeImpairmentReversal" TEXT, ADD COLUMN IF NOT EXISTS "glCodeDisposalProceeds" TEXT, ADD COLUMN IF NOT EXISTS "glCodeDisposalProfit" TEXT, ADD COLUMN IF NOT EXISTS "glCodeDisposalLoss" TEXT, ADD COLUMN IF NOT EXISTS "defaultFundingSource" TEXT, ADD COLUMN IF NOT EXISTS "fundingAccounts" JSONB, ADD COLUMN IF NOT EXISTS "depreciationMethod" TEXT, ADD COLUMN IF NOT EXISTS "depreciationRate" NUMERIC, ADD COLUMN IF NOT EXISTS "in47ClassId" TEXT;
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS "departmentCode" TEXT;`;
 
   const copyToClipboard = () => {
     navigator.clipboard.writeText(sqlSchema);
@@ -41,13 +57,7 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
     const newCat: AssetCategory = {
       id: Math.random().toString(36).substr(2, 9),
       name: 'New Class',
-      defaultUsefulLife: 5,
-      defaultTaxRate: 20,
-      residualPercentage: 0,
-      taxStrategy: TaxStrategy.STANDARD_FLAT,
-      glCodeCost: '1000/000',
-      glCodeAccumDepr: '1000/001',
-      glCodeDeprExpense: '5000/000'
+      ...NEW_CATEGORY_DEFAULTS
     };
     setLocalCategories([...localCategories, newCat]);
     setEditingId(newCat.id);
@@ -57,16 +67,122 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
     setLocalCategories(localCategories.map(c => c.id === id ? { ...c, ...updates } : c));
   };
 
+  // Codes outside the chart of accounts, or of the wrong account type, cannot be saved
   const handleSave = (id: string) => {
-    onUpdate(localCategories);
+    const category = localCategories.find(c => c.id === id);
+    const issues = category ? getCategoryAccountIssues(category, chartOfAccounts) : [];
+    if (issues.length > 0) {
+      alert(`${category?.name} has invalid GL mappings:\n\n${issues.map(describeAccountIssue).join('\n')}`);
+      return;
+    }
+    if (!onUpdate(localCategories)) return;
     setEditingId(null);
   };
 
+  // Kept staged when the save is cancelled at the closed-period prompt
+  const saveSettings = () => onUpdateCompanySettings(localSettings);
+
+  const addYearEndChange = () => {
+    const change: FiscalYearEndChange = {
+      id: Math.random().toString(36).substr(2, 9),
+      effectiveFrom: format(getFiscalYearBounds(new Date(), localSettings).end.getTime() + 86400000, 'yyyy-MM-dd'),
+      month: localSettings.fiscalYearEndMonth,
+      day: localSettings.fiscalYearEndDay
+    };
+    setLocalSettings({ ...localSettings, fiscalYearEndChanges: [...localSettings.fiscalYearEndChanges, change] });
+  };
+
+  const updateYearEndChange = (id: string, updates: Partial<FiscalYearEndChange>) => {
+    setLocalSettings({ ...localSettings, fiscalYearEndChanges: localSettings.fiscalYearEndChanges.map(c => c.id === id ? { ...c, ...updates } : c) });
+  };
+
+  const removeYearEndChange = (id: string) => {
+    setLocalSettings({ ...localSettings, fiscalYearEndChanges: localSettings.fiscalYearEndChanges.filter(c => c.id !== id) });
+  };
+
+  const addTaxRate = () => {
+    const rate: CompanyTaxRate = {
+      id: Math.random().toString(36).substr(2, 9),
+      effectiveFrom: format(getFiscalYearBounds(new Date(), localSettings).end.getTime() + 86400000, 'yyyy-MM-dd'),
+      rate: [...localSettings.taxRates].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)).pop()?.rate || 27
+    };
+    setLocalSettings({ ...localSettings, taxRates: [...localSettings.taxRates, rate] });
+  };
+
+  const updateTaxRate = (id: string, updates: Partial<CompanyTaxRate>) => {
+    setLocalSettings({ ...localSettings, taxRates: localSettings.taxRates.map(r => r.id === id ? { ...r, ...updates } : r) });
+  };
+
+  // At least one rate must remain for the deferred tax calculation
+  const removeTaxRate = (id: string) => {
+    if (localSettings.taxRates.length <= 1) return;
+    setLocalSettings({ ...localSettings, taxRates: localSettings.taxRates.filter(r => r.id !== id) });
+  };
+
+  // Describes the transitional year a change produces, e.g. "2024-07-01 → 2025-02-28 (8 months)"
+  const describeTransition = (change: FiscalYearEndChange) => {
+    const from = new Date(change.effectiveFrom);
+    if (isNaN(from.getTime())) return 'Enter a valid effective date';
+    const { start, end } = getFiscalYearBounds(from, localSettings);
+    const months = Math.round((differenceInDays(end, start) + 1) / 30.44);
+    return `${format(start, 'yyyy-MM-dd')} → ${format(end, 'yyyy-MM-dd')} (${months} months${months < 12 ? ', short year' : months > 12 ? ', long year' : ''})`;
+  };
+
+  const segmentConfig = localSettings.accountSegments || { segments: ['account'], separator: '/' };
+
+  const updateSegments = (segments: AccountSegment[]) => {
+    setLocalSettings({ ...localSettings, accountSegments: { ...segmentConfig, segments } });
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= segmentConfig.segments.length) return;
+    const segments = [...segmentConfig.segments];
+    [segments[index], segments[target]] = [segments[target], segments[index]];
+    updateSegments(segments);
+  };
+
+  const segmentPreview = composeAccountCode(
+    categories[0]?.glCodeDeprExpense || '5000/001',
+    locations.find(l => l.type === 'Branch'),
+    'ADMIN',
+    localSettings
+  );
+
+  const updateAccount = (index: number, updates: Partial<GLAccount>) => {
+    onUpdateChartOfAccounts(chartOfAccounts.map((a, i) => i === index ? { ...a, ...updates } : a));
+  };
+
+  const handleChartImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const wb = XLSX.read(evt.target?.result, { type: 'binary' });
+        const { accounts, skipped } = parseChartOfAccounts(XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { raw: false }));
+        if (accounts.length === 0) {
+          alert('No accounts found. The file needs Code, Name and Type columns.');
+          return;
+        }
+        const note = skipped > 0 ? `\n${skipped} row(s) without a code or recognisable type will be skipped.` : '';
+        if (!confirm(`Replace the chart of accounts with ${accounts.length} imported account(s)?${note}`)) return;
+        onUpdateChartOfAccounts(accounts);
+      } catch (err) {
+        console.error("Chart Import Error:", err);
+        alert('Could not read the chart of accounts file.');
+      }
+    };
+    reader.readAsBinaryString(file);
+  };
+
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
   const handleDelete = (id: string) => {
     if (confirm("Delete this asset class? This will affect all future registrations in this category.")) {
       const updated = localCategories.filter(c => c.id !== id);
-      setLocalCategories(updated);
-      onUpdate(updated);
+      if (onUpdate(updated)) setLocalCategories(updated);
     }
   };
 
@@ -119,6 +235,151 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
         </div>
       </section>
 
+      <section className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-6">
+        <div className="flex justify-between items-center">
+          <div><h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><CalendarRange className="text-blue-600" /> Financial Year</h2><p className="text-sm text-slate-500">Drives SARS tax years, dashboard year-to-date figures and report period presets.</p></div>
+          <div className="flex items-center gap-2">
+            <button onClick={addYearEndChange} className="bg-slate-100 text-slate-700 px-4 py-2 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-slate-200 transition-all"><Plus size={14} /> Change Year End</button>
+            <button onClick={saveSettings} disabled={!settingsChanged} className="bg-blue-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-blue-700 transition-all disabled:opacity-40"><Save size={14} /> Save Settings</button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Original Year End Month</label>
+            <select className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-bold shadow-sm" value={localSettings.fiscalYearEndMonth} onChange={e => setLocalSettings({ ...localSettings, fiscalYearEndMonth: Number(e.target.value) })}>
+              {monthNames.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Day (31 = Month End)</label>
+            <input type="number" min={1} max={31} className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-bold shadow-sm" value={localSettings.fiscalYearEndDay} onChange={e => setLocalSettings({ ...localSettings, fiscalYearEndDay: Number(e.target.value) })} />
+          </div>
+        </div>
+        {localSettings.fiscalYearEndChanges.length > 0 && (
+          <div className="space-y-3 pt-4 border-t border-slate-100">
+            <h4 className="text-[10px] font-black uppercase text-blue-600">Year End Changes</h4>
+            {[...localSettings.fiscalYearEndChanges].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)).map(change => (
+              <div key={change.id} className="grid grid-cols-12 gap-3 items-end">
+                <div className="col-span-3">
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Transitional Year Starts</label>
+                  <input type="date" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={change.effectiveFrom} onChange={e => updateYearEndChange(change.id, { effectiveFrom: e.target.value })} />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">New Month</label>
+                  <select className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={change.month} onChange={e => updateYearEndChange(change.id, { month: Number(e.target.value) })}>
+                    {monthNames.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-1">
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Day</label>
+                  <input type="number" min={1} max={31} className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={change.day} onChange={e => updateYearEndChange(change.id, { day: Number(e.target.value) })} />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Transition</label>
+                  <select className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={change.longTransition ? 'long' : 'short'} onChange={e => updateYearEndChange(change.id, { longTransition: e.target.value === 'long' })}>
+                    <option value="short">First Year End</option>
+                    <option value="long">Second Year End</option>
+                  </select>
+                </div>
+                <p className="col-span-3 text-[10px] font-bold text-slate-500 pb-2">{describeTransition(change)}</p>
+                <button onClick={() => removeYearEndChange(change.id)} className="col-span-1 p-2 text-slate-300 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="space-y-3 pt-4 border-t border-slate-100">
+          <div className="flex justify-between items-center">
+            <h4 className="text-[10px] font-black uppercase text-blue-600">Company Tax Rate &amp; Deferred Tax (IAS 12)</h4>
+            <button onClick={addTaxRate} className="bg-slate-100 text-slate-700 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase flex items-center gap-2 hover:bg-slate-200 transition-all"><Plus size={12} /> Rate Change</button>
+          </div>
+          {[...localSettings.taxRates].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)).map(rate => (
+            <div key={rate.id} className="grid grid-cols-12 gap-3 items-end">
+              <div className="col-span-3">
+                <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Effective From</label>
+                <input type="date" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={rate.effectiveFrom} onChange={e => updateTaxRate(rate.id, { effectiveFrom: e.target.value })} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Rate %</label>
+                <input type="number" step="0.01" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={rate.rate} onChange={e => updateTaxRate(rate.id, { rate: Number(e.target.value) })} />
+              </div>
+              <button onClick={() => removeTaxRate(rate.id)} disabled={localSettings.taxRates.length <= 1} className="col-span-1 p-2 text-slate-300 hover:text-red-500 transition-colors disabled:opacity-30"><Trash2 size={16} /></button>
+            </div>
+          ))}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-2">
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Deferred Tax Liability GL</label>
+              <GLAccountPicker chart={chartOfAccounts} types={[GLAccountType.LIABILITY, GLAccountType.ASSET]} placeholder={DEFAULT_GL_CODES.deferredTax} value={localSettings.glCodeDeferredTax || ''} onChange={code => setLocalSettings({ ...localSettings, glCodeDeferredTax: code })} />
+            </div>
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Deferred Tax Expense GL</label>
+              <GLAccountPicker chart={chartOfAccounts} types={[GLAccountType.EXPENSE]} placeholder={DEFAULT_GL_CODES.deferredTaxExpense} value={localSettings.glCodeDeferredTaxExpense || ''} onChange={code => setLocalSettings({ ...localSettings, glCodeDeferredTaxExpense: code })} />
+            </div>
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Deferred Tax in OCI GL</label>
+              <GLAccountPicker chart={chartOfAccounts} types={[GLAccountType.EQUITY]} placeholder={DEFAULT_GL_CODES.deferredTaxOCI} value={localSettings.glCodeDeferredTaxOCI || ''} onChange={code => setLocalSettings({ ...localSettings, glCodeDeferredTaxOCI: code })} />
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm space-y-6">
+        <div className="flex justify-between items-center">
+          <div><h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><ListTree className="text-blue-600" /> GL Account Segments</h2><p className="text-sm text-slate-500">Composes the ledger account on every journal line from the class GL code, branch code and asset department.</p></div>
+          <button onClick={saveSettings} disabled={!settingsChanged} className="bg-blue-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 hover:bg-blue-700 transition-all disabled:opacity-40"><Save size={14} /> Save Settings</button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-3">
+            <h4 className="text-[10px] font-black uppercase text-blue-600">Segment Order</h4>
+            {segmentConfig.segments.map((segment, i) => (
+              <div key={segment} className="flex items-center gap-2">
+                <span className="w-6 text-[10px] font-mono text-slate-400 text-right">{i + 1}</span>
+                <span className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold text-slate-700">{ACCOUNT_SEGMENT_LABELS[segment]}</span>
+                <button onClick={() => moveSegment(i, -1)} className="p-1 text-slate-400 hover:text-slate-700"><ArrowUp size={14} /></button>
+                <button onClick={() => moveSegment(i, 1)} className="p-1 text-slate-400 hover:text-slate-700"><ArrowDown size={14} /></button>
+                <button onClick={() => updateSegments(segmentConfig.segments.filter(s => s !== segment))} disabled={segment === 'account'} className="p-1 text-slate-300 hover:text-red-500 disabled:opacity-30"><Trash2 size={14} /></button>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              {(Object.keys(ACCOUNT_SEGMENT_LABELS) as AccountSegment[]).filter(s => !segmentConfig.segments.includes(s)).map(s => (
+                <button key={s} onClick={() => updateSegments([...segmentConfig.segments, s])} className="bg-slate-100 text-slate-700 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase flex items-center gap-2 hover:bg-slate-200 transition-all"><Plus size={12} /> {ACCOUNT_SEGMENT_LABELS[s]}</button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4 pt-2">
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Separator</label>
+                <input className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono font-bold shadow-sm" value={segmentConfig.separator} onChange={e => setLocalSettings({ ...localSettings, accountSegments: { ...segmentConfig, separator: e.target.value } })} />
+              </div>
+              <div>
+                <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">Example</label>
+                <p className="px-3 py-2 text-xs font-mono font-bold text-blue-700">{segmentPreview}</p>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <h4 className="text-[10px] font-black uppercase text-blue-600">Chart of Accounts</h4>
+              <div className="flex items-center gap-2">
+                <label className="bg-slate-100 text-slate-700 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase flex items-center gap-2 hover:bg-slate-200 transition-all cursor-pointer"><FileUp size={12} /> Import XLSX / CSV<input type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleChartImport} /></label>
+                <button onClick={() => onUpdateChartOfAccounts([...chartOfAccounts, { code: '', name: '', type: GLAccountType.ASSET }])} className="bg-slate-100 text-slate-700 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase flex items-center gap-2 hover:bg-slate-200 transition-all"><Plus size={12} /> Account</button>
+              </div>
+            </div>
+            {chartOfAccounts.length === 0 && <p className="text-[10px] text-slate-400">No accounts loaded. Class mappings and journal accounts are not validated until the chart is populated. Include main accounts for class mappings and, when segments are used, the composed accounts journals post to.</p>}
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {chartOfAccounts.map((account, i) => (
+                <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                  <input className="col-span-4 bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-xs font-mono font-bold shadow-sm" placeholder={segmentPreview} value={account.code} onChange={e => updateAccount(i, { code: e.target.value.trim() })} />
+                  <input className="col-span-4 bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-xs shadow-sm" placeholder="Account name" value={account.name} onChange={e => updateAccount(i, { name: e.target.value })} />
+                  <select className="col-span-3 bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold shadow-sm" value={account.type} onChange={e => updateAccount(i, { type: e.target.value as GLAccountType })}>
+                    {Object.values(GLAccountType).map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                  <button onClick={() => onUpdateChartOfAccounts(chartOfAccounts.filter((_, idx) => idx !== i))} className="col-span-1 p-1 text-slate-300 hover:text-red-500 transition-colors"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </section>
+
       <div className="space-y-6">
         <div className="flex justify-between items-center bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
           <div><h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Settings className="text-blue-600" /> Asset Classes</h2><p className="text-sm text-slate-500">Configure global depreciation rules and GL account mappings.</p></div>
@@ -128,6 +389,8 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
         <div className="grid grid-cols-1 gap-6">
           {localCategories.map(cat => {
             const isEditing = editingId === cat.id;
+            const in47Warning = getIN47RateWarning(cat);
+            const accountIssues = getCategoryAccountIssues(cat, chartOfAccounts);
             return (
               <div key={cat.id} className={`bg-white border rounded-3xl p-8 transition-all duration-300 ${isEditing ? 'ring-4 ring-blue-50 border-blue-200 shadow-2xl' : 'border-slate-200 hover:border-slate-300'}`}>
                 <div className="flex flex-col lg:flex-row justify-between items-start gap-8">
@@ -143,6 +406,8 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
                         <select className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-blue-100" value={cat.taxStrategy} onChange={e => updateCategory(cat.id, { taxStrategy: e.target.value as TaxStrategy })}>
                           {Object.values(TaxStrategy).map(s => <option key={s} value={s}>{s}</option>)}
                         </select>
+                        {in47Warning && <p className="mt-2 text-[10px] font-bold text-amber-600 flex items-center gap-1"><AlertTriangle size={12} /> {in47Warning}</p>}
+                        {accountIssues.map(issue => <p key={issue.field} className="mt-2 text-[10px] font-bold text-red-600 flex items-center gap-1"><AlertTriangle size={12} /> {describeAccountIssue(issue)}</p>)}
                       </div>
                     </div>
 
@@ -162,6 +427,33 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
                               <input type="number" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-bold shadow-sm" value={cat.residualPercentage} onChange={e => updateCategory(cat.id, { residualPercentage: Number(e.target.value) })} />
                             </div>
                           </div>
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className={(cat.depreciationMethod || DepreciationMethod.STRAIGHT_LINE) === DepreciationMethod.REDUCING_BALANCE ? '' : 'col-span-2'}>
+                              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">IFRS Method</label>
+                              <select className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={cat.depreciationMethod || DepreciationMethod.STRAIGHT_LINE} onChange={e => updateCategory(cat.id, { depreciationMethod: e.target.value as DepreciationMethod })}>
+                                {Object.values(DepreciationMethod).map(m => <option key={m} value={m}>{m}</option>)}
+                              </select>
+                            </div>
+                            {cat.depreciationMethod === DepreciationMethod.REDUCING_BALANCE && (
+                              <div>
+                                <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 flex items-center gap-1"><Percent size={10} /> Rate p.a.</label>
+                                <input type="number" placeholder={cat.defaultUsefulLife > 0 ? (200 / cat.defaultUsefulLife).toFixed(1) : ''} className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-bold shadow-sm" value={cat.depreciationRate ?? ''} onChange={e => updateCategory(cat.id, { depreciationRate: e.target.value === '' ? undefined : Number(e.target.value) })} />
+                              </div>
+                            )}
+                          </div>
+                          <div>
+                            <label className="block text-[9px] font-black text-slate-400 uppercase mb-1">IN47 Asset Class</label>
+                            <select className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold shadow-sm" value={cat.in47ClassId || ''} onChange={e => {
+                              const in47Class = IN47_ASSET_CLASSES.find(c => c.id === e.target.value);
+                              // Picking a class fills in its write-off rate; the rate stays editable
+                              updateCategory(cat.id, in47Class
+                                ? { in47ClassId: in47Class.id, defaultTaxRate: Number((100 / in47Class.writeOffYears).toFixed(2)) }
+                                : { in47ClassId: undefined });
+                            }}>
+                              <option value="">Not mapped</option>
+                              {IN47_ASSET_CLASSES.map(c => <option key={c.id} value={c.id}>{c.description} ({c.writeOffYears} yrs)</option>)}
+                            </select>
+                          </div>
                           <div>
                             <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 flex items-center gap-1"><ShieldCheck size={10} /> SARS Wear & Tear %</label>
                             <input type="number" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-bold shadow-sm" value={cat.defaultTaxRate} onChange={e => updateCategory(cat.id, { defaultTaxRate: Number(e.target.value) })} />
@@ -172,17 +464,27 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
                         <div className="lg:col-span-2 space-y-4">
                           <h4 className="text-[10px] font-black uppercase text-emerald-600 flex items-center gap-2"><BookOpen size={14} /> Ledger Integration</h4>
                           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <div>
-                              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-tight">Cost A/C (Debit)</label>
-                              <input type="text" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono font-bold text-slate-700 shadow-sm" value={cat.glCodeCost} onChange={e => updateCategory(cat.id, { glCodeCost: e.target.value })} />
-                            </div>
-                            <div>
-                              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-tight">Accum Depr A/C (Credit)</label>
-                              <input type="text" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono font-bold text-slate-700 shadow-sm" value={cat.glCodeAccumDepr} onChange={e => updateCategory(cat.id, { glCodeAccumDepr: e.target.value })} />
+                            {CATEGORY_GL_FIELDS.map(({ field, label, types, fallback }) => (
+                              <div key={field}>
+                                <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-tight">{label}</label>
+                                <GLAccountPicker chart={chartOfAccounts} types={types} placeholder={fallback} value={cat[field] || ''} onChange={code => updateCategory(cat.id, { [field]: fallback ? code || undefined : code })} />
+                              </div>
+                            ))}
+                          </div>
+                          <div className="pt-4 border-t border-slate-200/60 space-y-3">
+                            <div className="flex items-center justify-between gap-4">
+                              <h5 className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Additions Funding (Credit A/C)</h5>
+                              <select className="bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-[10px] font-bold shadow-sm" value={cat.defaultFundingSource || FundingSource.SUPPLIER_CREDITOR} onChange={e => updateCategory(cat.id, { defaultFundingSource: e.target.value as FundingSource })}>
+                                {Object.values(FundingSource).map(f => <option key={f} value={f}>Default: {f}</option>)}
+                              </select>
                             </div>
-                            <div>
-                              <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-tight">Depr Expense A/C</label>
-                              <input type="text" className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono font-bold text-slate-700 shadow-sm" value={cat.glCodeDeprExpense} onChange={e => updateCategory(cat.id, { glCodeDeprExpense: e.target.value })} />
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                              {Object.values(FundingSource).map(source => (
+                                <div key={source}>
+                                  <label className="block text-[9px] font-black text-slate-400 uppercase mb-1 tracking-tight">{source}</label>
+                                  <GLAccountPicker chart={chartOfAccounts} types={FUNDING_ACCOUNT_TYPES} placeholder={DEFAULT_FUNDING_ACCOUNTS[source]} value={cat.fundingAccounts?.[source] || ''} onChange={code => updateCategory(cat.id, { fundingAccounts: { ...cat.fundingAccounts, [source]: code || undefined } })} />
+                                </div>
+                              ))}
                             </div>
                           </div>
                           <p className="text-[9px] text-slate-400 font-medium italic">Note: These GL codes will be used to generate automated Journal Entries for monthly closures.</p>
@@ -224,4 +526,30 @@ CREATE TABLE IF NOT EXISTS assets (id TEXT PRIMARY KEY, "assetNumber" TEXT, "tag
   );
 };
 
+interface GLAccountPickerProps {
+  chart: GLAccount[];
+  types: GLAccountType[];
+  value: string;
+  onChange: (code: string) => void;
+  placeholder?: string; // Default account used when nothing is mapped
+}
+
+// Free text until a chart of accounts is loaded, then a list of accounts of the allowed types
+const GLAccountPicker: React.FC<GLAccountPickerProps> = ({ chart, types, value, onChange, placeholder }) => {
+  const baseClass = 'w-full bg-white border rounded-lg px-3 py-2 text-xs font-mono font-bold text-slate-700 shadow-sm';
+  if (chart.length === 0) {
+    return <input type="text" placeholder={placeholder} className={`${baseClass} border-slate-200`} value={value} onChange={e => onChange(e.target.value)} />;
+  }
+  const account = chart.find(a => a.code === value);
+  const isInvalid = !!value && (!account || !types.includes(account.type));
+  const options = chart.filter(a => types.includes(a.type)).sort((a, b) => a.code.localeCompare(b.code));
+  return (
+    <select className={`${baseClass} ${isInvalid ? 'border-red-300 bg-red-50 text-red-700' : 'border-slate-200'}`} value={value} onChange={e => onChange(e.target.value)}>
+      <option value="">{placeholder ? `Default (${placeholder})` : '-- Select Account --'}</option>
+      {isInvalid && <option value={value}>{value} ({account ? `${account.type}, expected ${types.join(' / ')}` : 'not in chart'})</option>}
+      {options.map(a => <option key={a.code} value={a.code}>{a.code} {a.name}</option>)}
+    </select>
+  );
+};
+
 export default CategoryManager;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { AssetLocation, JournalExportColumn, JournalExportField, JournalExportProfile } from '../types';
+import { JOURNAL_EXPORT_FIELD_LABELS } from '../services/journalExportService';
+import { Settings2, Plus, Trash2, Copy, ArrowUp, ArrowDown, X } from 'lucide-react';
+
+interface ExportProfileManagerProps {
+  profiles: JournalExportProfile[];
+  branches: AssetLocation[];
+  selectedProfileId: string;
+  onSelectProfile: (profileId: string) => void;
+  onUpdate: (profiles: JournalExportProfile[]) => void;
+  onClose: () => void;
+}
+
+const ExportProfileManager: React.FC<ExportProfileManagerProps> = ({ profiles, branches, selectedProfileId, onSelectProfile, onUpdate, onClose }) => {
+  const profile = profiles.find(p => p.id === selectedProfileId) || profiles[0];
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  if (!profile) return null;
+
+  const updateProfile = (updates: Partial<JournalExportProfile>) => {
+    onUpdate(profiles.map(p => p.id === profile.id ? { ...p, ...updates } : p));
+  };
+
+  const updateColumn = (index: number, updates: Partial<JournalExportColumn>) => {
+    updateProfile({ columns: profile.columns.map((c, i) => i === index ? { ...c, ...updates } : c) });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= profile.columns.length) return;
+    const columns = [...profile.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateProfile({ columns });
+  };
+
+  const updateBranchMapping = (branchId: string, code: string) => {
+    const branchMappings = { ...profile.branchMappings };
+    if (code) branchMappings[branchId] = code; else delete branchMappings[branchId];
+    updateProfile({ branchMappings });
+  };
+
+  const duplicateProfile = () => {
+    const copy: JournalExportProfile = {
+      ...profile,
+      id: Math.random().toString(36).substr(2, 9),
+      name: `${profile.name} (Copy)`,
+      columns: profile.columns.map(c => ({ ...c })),
+      branchMappings: { ...profile.branchMappings },
+      builtIn: false
+    };
+    onUpdate([...profiles, copy]);
+    onSelectProfile(copy.id);
+  };
+
+  const deleteProfile = () => {
+    const remaining = profiles.filter(p => p.id !== profile.id);
+    onUpdate(remaining);
+    onSelectProfile(remaining[0]?.id || '');
+    setIsConfirmingDelete(false);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden no-print">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2"><Settings2 size={14} /> Journal Export Profiles</h3>
+        <div className="flex items-center gap-2">
+          <select
+            className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 text-[10px] font-black uppercase tracking-widest outline-none"
+            value={profile.id}
+            onChange={(e) => { onSelectProfile(e.target.value); setIsConfirmingDelete(false); }}
+          >
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <button onClick={duplicateProfile} className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 text-[9px] font-black uppercase flex items-center gap-1 hover:bg-slate-200"><Copy size={12} /> Duplicate</button>
+          {!profile.builtIn && (
+            isConfirmingDelete ? (
+              <button onClick={deleteProfile} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-[9px] font-black uppercase flex items-center gap-1 hover:bg-red-700"><Trash2 size={12} /> Confirm Delete</button>
+            ) : (
+              <button onClick={() => setIsConfirmingDelete(true)} className="px-3 py-1.5 rounded-lg bg-red-50 text-red-600 text-[9px] font-black uppercase flex items-center gap-1 hover:bg-red-100"><Trash2 size={12} /> Delete</button>
+            )
+          )}
+          <button onClick={onClose} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100"><X size={14} /></button>
+        </div>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Profile Name</label>
+            <input className="w-full border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold" value={profile.name} onChange={(e) => updateProfile({ name: e.target.value })} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">File Format</label>
+              <select className="w-full border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold" value={profile.fileFormat} onChange={(e) => updateProfile({ fileFormat: e.target.value as JournalExportProfile['fileFormat'] })}>
+                <option value="csv">CSV</option>
+                <option value="xlsx">Excel (XLSX)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Date Format</label>
+              <input className="w-full border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono" value={profile.dateFormat} onChange={(e) => updateProfile({ dateFormat: e.target.value })} placeholder="dd/MM/yyyy" />
+            </div>
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Signed Amount</label>
+              <select className="w-full border border-slate-200 rounded-lg px-3 py-2 text-xs font-bold" value={profile.signConvention} onChange={(e) => updateProfile({ signConvention: e.target.value as JournalExportProfile['signConvention'] })}>
+                <option value="DebitPositive">Debits positive</option>
+                <option value="CreditPositive">Credits positive</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Reference Prefix</label>
+              <input className="w-full border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono" value={profile.referencePrefix} onChange={(e) => updateProfile({ referencePrefix: e.target.value })} />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-600">
+            <input type="checkbox" checked={profile.includeHeader} onChange={(e) => updateProfile({ includeHeader: e.target.checked })} />
+            Include header row
+          </label>
+          <p className="text-[10px] text-slate-400">Depreciation batches export with their batch number as the reference; live previews use the prefix and period.</p>
+        </div>
+
+        <div className="xl:col-span-2 space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Columns (in file order)</p>
+              <button onClick={() => updateProfile({ columns: [...profile.columns, { header: 'New Column', field: 'fixed', value: '' }] })} className="text-[9px] font-black uppercase text-blue-600 flex items-center gap-1 hover:text-blue-800"><Plus size={12} /> Add Column</button>
+            </div>
+            <div className="space-y-2">
+              {profile.columns.map((col, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="w-6 text-[10px] font-mono text-slate-400 text-right">{i + 1}</span>
+                  <input className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5 text-xs font-bold" value={col.header} onChange={(e) => updateColumn(i, { header: e.target.value })} />
+                  <select className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5 text-xs" value={col.field} onChange={(e) => updateColumn(i, { field: e.target.value as JournalExportField })}>
+                    {(Object.keys(JOURNAL_EXPORT_FIELD_LABELS) as JournalExportField[]).map(f => <option key={f} value={f}>{JOURNAL_EXPORT_FIELD_LABELS[f]}</option>)}
+                  </select>
+                  <input
+                    className="w-32 border border-slate-200 rounded-lg px-3 py-1.5 text-xs font-mono disabled:bg-slate-50 disabled:text-slate-300"
+                    value={col.field === 'fixed' ? col.value || '' : ''}
+                    disabled={col.field !== 'fixed'}
+                    onChange={(e) => updateColumn(i, { value: e.target.value })}
+                    placeholder={col.field === 'fixed' ? 'Text' : '—'}
+                  />
+                  <button onClick={() => moveColumn(i, -1)} className="p-1 text-slate-400 hover:text-slate-700"><ArrowUp size={14} /></button>
+                  <button onClick={() => moveColumn(i, 1)} className="p-1 text-slate-400 hover:text-slate-700"><ArrowDown size={14} /></button>
+                  <button onClick={() => updateProfile({ columns: profile.columns.filter((_, idx) => idx !== i) })} className="p-1 text-slate-300 hover:text-red-600"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">Branch Tracking / Cost Centre Mapping</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {branches.map(b => (
+                <div key={b.id} className="flex items-center gap-2">
+                  <span className="flex-1 text-[10px] font-bold text-slate-600 uppercase truncate">{b.name}</span>
+                  <input className="w-40 border border-slate-200 rounded-lg px-3 py-1.5 text-xs font-mono" value={profile.branchMappings[b.id] || ''} onChange={(e) => updateBranchMapping(b.id, e.target.value)} placeholder={b.code} />
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-2">Unmapped branches export their location code.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportProfileManager;
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { Asset, AssetCategory, AssetLocation, CompanySettings, ForecastLine, PlannedCapex } from '../types';
+import { buildDepreciationForecast, FORECAST_HORIZONS } from '../services/forecastService';
+import { format } from 'date-fns';
+import { TrendingUp, Plus, Trash2, FileSpreadsheet } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import * as XLSX from 'xlsx';
+
+interface ForecastViewProps {
+  assets: Asset[];
+  categories: AssetCategory[];
+  locations: AssetLocation[];
+  companySettings: CompanySettings;
+  plannedCapex: PlannedCapex[];
+  onUpdatePlannedCapex: (items: PlannedCapex[]) => void;
+  defaultFrom: string;
+}
+
+const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#3b82f6'];
+
+const ForecastView: React.FC<ForecastViewProps> = ({ assets, categories, locations, companySettings, plannedCapex, onUpdatePlannedCapex, defaultFrom }) => {
+  // Forecast starts the month after the reporting date
+  const [fromMonth, setFromMonth] = useState(() => {
+    const [y, m] = defaultFrom.split('-').map(Number);
+    return format(new Date(y, m, 1), 'yyyy-MM');
+  });
+  const [months, setMonths] = useState(12);
+  const [groupBy, setGroupBy] = useState<'category' | 'branch'>('category');
+  const [includePlanned, setIncludePlanned] = useState(true);
+
+  const branches = useMemo(() => locations.filter(l => l.type === 'Branch'), [locations]);
+
+  const lines = useMemo(() => {
+    const [y, m] = fromMonth.split('-').map(Number);
+    if (!y || !m) return [];
+    return buildDepreciationForecast(assets, includePlanned ? plannedCapex : [], categories, new Date(y, m - 1, 1), months, companySettings);
+  }, [assets, plannedCapex, includePlanned, categories, fromMonth, months, companySettings]);
+
+  const periods = useMemo(() => {
+    const [y, m] = fromMonth.split('-').map(Number);
+    if (!y || !m) return [];
+    return Array.from({ length: months }, (_, i) => format(new Date(y, m - 1 + i, 1), 'yyyy-MM'));
+  }, [fromMonth, months]);
+
+  const groupKey = (line: ForecastLine) => groupBy === 'category' ? line.categoryId : line.branchId;
+  const groupName = (id: string) => groupBy === 'category'
+    ? categories.find(c => c.id === id)?.name || 'Unassigned'
+    : locations.find(l => l.id === id)?.name || 'Unknown Branch';
+
+  const groups = useMemo(() => {
+    const ids = Array.from(new Set<string>(lines.map(groupKey)));
+    return ids.map(id => ({ id, name: groupName(id) })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [lines, groupBy, categories, locations]);
+
+  // Sums one measure per group and period, e.g. depreciation for a class in 2026-07
+  const pivot = (field: 'depreciation' | 'taxAllowance') => {
+    const table: Record<string, Record<string, number>> = {};
+    lines.forEach(l => {
+      const key = groupKey(l);
+      if (!table[key]) table[key] = {};
+      table[key][l.period] = (table[key][l.period] || 0) + l[field];
+    });
+    return table;
+  };
+
+  const deprTable = useMemo(() => pivot('depreciation'), [lines, groupBy]);
+  const taxTable = useMemo(() => pivot('taxAllowance'), [lines, groupBy]);
+
+  const periodTotals = useMemo(() => periods.map(period => {
+    const inPeriod = lines.filter(l => l.period === period);
+    return {
+      period,
+      depreciation: inPeriod.reduce((sum, l) => sum + l.depreciation, 0),
+      taxAllowance: inPeriod.reduce((sum, l) => sum + l.taxAllowance, 0),
+      plannedDepreciation: inPeriod.reduce((sum, l) => sum + l.plannedDepreciation, 0),
+      plannedTaxAllowance: inPeriod.reduce((sum, l) => sum + l.plannedTaxAllowance, 0)
+    };
+  }), [lines, periods]);
+
+  const grandTotals = useMemo(() => periodTotals.reduce((acc, t) => ({
+    depreciation: acc.depreciation + t.depreciation,
+    taxAllowance: acc.taxAllowance + t.taxAllowance,
+    plannedDepreciation: acc.plannedDepreciation + t.plannedDepreciation,
+    plannedTaxAllowance: acc.plannedTaxAllowance + t.plannedTaxAllowance
+  }), { depreciation: 0, taxAllowance: 0, plannedDepreciation: 0, plannedTaxAllowance: 0 }), [periodTotals]);
+
+  const chartData = useMemo(() => periodTotals.map(t => {
+    const point: Record<string, string | number> = { period: t.period, 'Tax Allowance': Number(t.taxAllowance.toFixed(2)) };
+    groups.forEach(g => { point[g.name] = Number((deprTable[g.id]?.[t.period] || 0).toFixed(2)); });
+    return point;
+  }), [periodTotals, groups, deprTable]);
+
+  const addPlannedItem = () => {
+    const category = categories[0];
+    onUpdatePlannedCapex([...plannedCapex, {
+      id: Math.random().toString(36).substr(2, 9),
+      description: 'New planned asset',
+      categoryId: category?.id || '',
+      branchId: branches[0]?.id || '',
+      plannedDate: `${fromMonth}-01`,
+      cost: 0,
+      usefulLifeYears: category?.defaultUsefulLife || 5
+    }]);
+  };
+
+  const updatePlannedItem = (id: string, updates: Partial<PlannedCapex>) => {
+    onUpdatePlannedCapex(plannedCapex.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  const exportToExcel = () => {
+    const round = (value: number) => Number(value.toFixed(2));
+    const pivotSheet = (table: Record<string, Record<string, number>>, totals: number[]) => [
+      [groupBy === 'category' ? 'Asset Class' : 'Branch', ...periods, 'Total'],
+      ...groups.map(g => {
+        const values = periods.map(p => table[g.id]?.[p] || 0);
+        return [g.name, ...values.map(round), round(values.reduce((a, b) => a + b, 0))];
+      }),
+      ['Total', ...totals.map(round), round(totals.reduce((a, b) => a + b, 0))]
+    ];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(pivotSheet(deprTable, periodTotals.map(t => t.depreciation))), "Depreciation");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(pivotSheet(taxTable, periodTotals.map(t => t.taxAllowance))), "Tax Allowances");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(lines.map(l => ({
+      'Period': l.period,
+      'Asset Class': categories.find(c => c.id === l.categoryId)?.name || 'Unassigned',
+      'Branch': locations.find(b => b.id === l.branchId)?.name || 'Unknown',
+      'Depreciation': round(l.depreciation),
+      'Of Which Planned Capex': round(l.plannedDepreciation),
+      'Tax Allowance': round(l.taxAllowance),
+      'Tax Allowance on Planned Capex': round(l.plannedTaxAllowance)
+    }))), "Detail");
+    if (includePlanned && plannedCapex.length > 0) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(plannedCapex.map(p => ({
+        'Description': p.description,
+        'Asset Class': categories.find(c => c.id === p.categoryId)?.name || 'Unassigned',
+        'Branch': locations.find(b => b.id === p.branchId)?.name || 'Unknown',
+        'Planned Date': p.plannedDate,
+        'Cost': p.cost,
+        'Useful Life (Years)': p.usefulLifeYears
+      }))), "Planned Capex");
+    }
+    XLSX.writeFile(wb, `Lupo_Depreciation_Forecast_${fromMonth}_${months}m.xlsx`);
+  };
+
+  const currencyFormatter = new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const amount = (value: number) => Math.abs(value) < 0.005 ? '-' : currencyFormatter.format(value);
+
+  const renderBlock = (title: string, table: Record<string, Record<string, number>>, totals: number[], planned: number[]) => (
+    <>
+      <tr className="bg-slate-50 border-y border-slate-200">
+        <td colSpan={periods.length + 2} className="px-4 py-2 font-black text-[9px] text-slate-400 uppercase tracking-widest sticky left-0">{title}</td>
+      </tr>
+      {groups.map(g => {
+        const values = periods.map(p => table[g.id]?.[p] || 0);
+        return (
+          <tr key={`${title}-${g.id}`} className="divide-x divide-slate-100 hover:bg-slate-50">
+            <td className="px-4 py-2 sticky left-0 z-10 bg-white font-bold text-slate-700 whitespace-nowrap">{g.name}</td>
+            {values.map((v, i) => <td key={periods[i]} className="px-2 py-2 text-right font-mono whitespace-nowrap">{amount(v)}</td>)}
+            <td className="px-4 py-2 text-right font-mono font-black bg-slate-50 whitespace-nowrap">{amount(values.reduce((a, b) => a + b, 0))}</td>
+          </tr>
+        );
+      })}
+      {includePlanned && plannedCapex.length > 0 && (
+        <tr className="divide-x divide-slate-100 text-indigo-600 italic">
+          <td className="px-4 py-2 sticky left-0 z-10 bg-white whitespace-nowrap">Of which planned capex</td>
+          {planned.map((v, i) => <td key={periods[i]} className="px-2 py-2 text-right font-mono whitespace-nowrap">{amount(v)}</td>)}
+          <td className="px-4 py-2 text-right font-mono bg-slate-50 whitespace-nowrap">{amount(planned.reduce((a, b) => a + b, 0))}</td>
+        </tr>
+      )}
+      <tr className="divide-x divide-slate-200 font-black bg-slate-100 border-t border-slate-300">
+        <td className="px-4 py-2 sticky left-0 z-10 bg-slate-100 uppercase text-[9px] tracking-widest">Total</td>
+        {totals.map((v, i) => <td key={periods[i]} className="px-2 py-2 text-right font-mono whitespace-nowrap">{amount(v)}</td>)}
+        <td className="px-4 py-2 text-right font-mono whitespace-nowrap">{amount(totals.reduce((a, b) => a + b, 0))}</td>
+      </tr>
+    </>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm flex flex-col xl:flex-row justify-between items-start xl:items-center gap-6">
+        <div className="flex items-center gap-6">
+          <div className="bg-indigo-50 p-3 rounded-xl text-indigo-600">
+            <TrendingUp size={24} />
+          </div>
+          <div>
+            <h2 className="text-xl font-black text-slate-800 uppercase tracking-tighter">Depreciation Forecast</h2>
+            <p className="text-xs text-slate-500 font-medium">Projected IFRS depreciation and SARS allowances for the budget, including planned capex</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200">
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">From</span>
+            <input type="month" value={fromMonth} onChange={(e) => setFromMonth(e.target.value)} className="bg-transparent text-[10px] font-bold text-slate-600 outline-none uppercase" />
+          </div>
+          <select value={months} onChange={(e) => setMonths(Number(e.target.value))} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold text-slate-700 outline-none">
+            {FORECAST_HORIZONS.map(h => <option key={h} value={h}>{h} MONTHS</option>)}
+          </select>
+          <div className="flex bg-slate-100 p-1 rounded-xl shadow-inner">
+            <button onClick={() => setGroupBy('category')} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${groupBy === 'category' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500'}`}>By Class</button>
+            <button onClick={() => setGroupBy('branch')} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${groupBy === 'branch' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500'}`}>By Branch</button>
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={includePlanned} onChange={(e) => setIncludePlanned(e.target.checked)} />
+            Planned Capex
+          </label>
+          <button onClick={exportToExcel} className="px-5 py-2.5 bg-slate-100 text-slate-700 rounded-xl text-xs font-black uppercase tracking-widest hover:bg-slate-200 transition flex items-center gap-2 border border-slate-200"><FileSpreadsheet size={16} className="text-emerald-600" /> Budget Pack</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Forecast Depreciation', value: grandTotals.depreciation },
+          { label: 'Of Which Planned Capex', value: grandTotals.plannedDepreciation },
+          { label: 'Forecast Tax Allowances', value: grandTotals.taxAllowance },
+          { label: 'Of Which Planned Capex', value: grandTotals.plannedTaxAllowance }
+        ].map((tile, i) => (
+          <div key={i} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{tile.label}</p>
+            <p className="text-lg font-black font-mono mt-1 text-slate-800">{currencyFormatter.format(tile.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+        <h3 className="text-slate-800 font-black uppercase tracking-widest text-xs mb-6">Monthly Depreciation by {groupBy === 'category' ? 'Asset Class' : 'Branch'} &amp; Tax Allowances</h3>
+        <div className="h-[320px] w-full">
+          {lines.length > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="period" tick={{ fontSize: 9 }} />
+                <YAxis tick={{ fontSize: 9 }} tickFormatter={(value: any) => `${Math.round(Number(value) / 1000)}k`} />
+                <Tooltip
+                  formatter={(value: any) => currencyFormatter.format(value)}
+                  contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)', fontSize: '12px', fontWeight: 'bold' }}
+                />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: '9px', fontWeight: 'bold', paddingTop: '20px' }} />
+                {groups.map((g, i) => <Bar key={g.id} dataKey={g.name} stackId="depr" fill={COLORS[i % COLORS.length]} />)}
+                <Line type="monotone" dataKey="Tax Allowance" stroke="#0f172a" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-slate-300 font-black uppercase text-[10px] tracking-widest">No Depreciation in the Forecast Period</div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-xl overflow-hidden">
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-[10px] text-left border-collapse">
+            <thead className="bg-slate-50 text-slate-500 font-black text-[8px] uppercase border-b border-slate-200">
+              <tr className="divide-x divide-slate-200">
+                <th className="px-4 py-4 sticky left-0 z-10 bg-white min-w-[160px]">{groupBy === 'category' ? 'Asset Class' : 'Branch'}</th>
+                {periods.map(p => <th key={p} className="px-2 py-4 text-right whitespace-nowrap">{p}</th>)}
+                <th className="px-4 py-4 text-right bg-slate-900 text-white min-w-[120px]">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {renderBlock('IFRS Depreciation', deprTable, periodTotals.map(t => t.depreciation), periodTotals.map(t => t.plannedDepreciation))}
+              {renderBlock('SARS Tax Allowances', taxTable, periodTotals.map(t => t.taxAllowance), periodTotals.map(t => t.plannedTaxAllowance))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Planned Capex</h3>
+            <p className="text-[9px] font-bold text-slate-400 uppercase mt-1">Hypothetical assets for the forecast only — never added to the register or posted</p>
+          </div>
+          <button onClick={addPlannedItem} disabled={categories.length === 0} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 hover:bg-indigo-700 transition-all disabled:opacity-50"><Plus size={14} /> Add Item</button>
+        </div>
+        <table className="w-full text-left text-[10px]">
+          <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest text-[9px]">
+            <tr>
+              <th className="px-4 py-3">Description</th>
+              <th className="px-2 py-3">Asset Class</th>
+              <th className="px-2 py-3">Branch</th>
+              <th className="px-2 py-3">Planned Date</th>
+              <th className="px-2 py-3 text-right">Cost</th>
+              <th className="px-2 py-3 text-right">Useful Life (Yrs)</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {plannedCapex.length === 0 ? (
+              <tr><td colSpan={7} className="px-4 py-8 text-center text-slate-300 font-black uppercase tracking-widest">No planned acquisitions</td></tr>
+            ) : plannedCapex.map(p => (
+              <tr key={p.id}>
+                <td className="px-4 py-2"><input className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 font-bold outline-none" value={p.description} onChange={e => updatePlannedItem(p.id, { description: e.target.value })} /></td>
+                <td className="px-2 py-2">
+                  <select className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 font-bold outline-none" value={p.categoryId} onChange={e => updatePlannedItem(p.id, { categoryId: e.target.value, usefulLifeYears: categories.find(c => c.id === e.target.value)?.defaultUsefulLife || p.usefulLifeYears })}>
+                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <select className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 font-bold outline-none" value={p.branchId} onChange={e => updatePlannedItem(p.id, { branchId: e.target.value })}>
+                    {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-2"><input type="date" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 font-bold outline-none" value={p.plannedDate} onChange={e => updatePlannedItem(p.id, { plannedDate: e.target.value })} /></td>
+                <td className="px-2 py-2"><input type="number" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 font-bold outline-none text-right" value={p.cost} onChange={e => updatePlannedItem(p.id, { cost: Number(e.target.value) })} /></td>
+                <td className="px-2 py-2"><input type="number" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 font-bold outline-none text-right" value={p.usefulLifeYears} onChange={e => updatePlannedItem(p.id, { usefulLifeYears: Number(e.target.value) })} /></td>
+                <td className="px-4 py-2 text-right"><button onClick={() => onUpdatePlannedCapex(plannedCapex.filter(x => x.id !== p.id))} className="text-slate-300 hover:text-red-600 transition-colors"><Trash2 size={14} /></button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastView;
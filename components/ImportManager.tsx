@@ -1,36 +1,94 @@
-import React, { useState } from 'react';
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2, Download, Table } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2, Download, Table, AlertTriangle, X, History, Plus } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { Asset, AssetStatus, AssetCategory, AssetLocation } from '../types';
+import { format } from 'date-fns';
+import { Asset, AssetCategory, AssetLocation, CompanySettings, ImportColumnMapping, ImportCreatedReferences, ImportFieldChange, ImportMappingProfile, ImportMatchKey, ImportMode, ImportPlanRow, SheetRow, StagedImportRow } from '../types';
+import { applyColumnMapping, detectHeaderRow, findMatchingProfile, findMissingImportColumns, findMissingReferences, IMPORT_FIELDS, MIGRATION_EVENT_TYPES, MIGRATION_SHEETS, noteCreatedReferences, planImport, pruneCreatedReferences, readSheetWithHeaders, REQUIRED_MIGRATION_COLUMNS, stageImportRows, stageMigrationWorkbook, suggestColumnMapping } from '../services/importService';
+import { getFiscalYearBounds } from '../services/assetService';
+import ImportMappingWizard from './ImportMappingWizard';
 
 interface ImportManagerProps {
-  onImport: (assets: Asset[]) => void;
+  // Returns false when the commit was cancelled, leaving the staged file in place
+  onImport: (inserts: Asset[], updates: { asset: Asset, changes: ImportFieldChange[] }[], created: ImportCreatedReferences) => boolean;
+  assets: Asset[];
   categories: AssetCategory[];
   locations: AssetLocation[];
+  settings: CompanySettings;
+  mappingProfiles: ImportMappingProfile[];
+  onUpdateMappingProfiles: (profiles: ImportMappingProfile[]) => void;
 }
 
-const ImportManager: React.FC<ImportManagerProps> = ({ onImport, categories, locations }) => {
+type StagingFilter = 'all' | 'errors' | 'warnings' | 'valid';
+
+const IMPORT_MODES: { mode: ImportMode, label: string }[] = [
+  { mode: 'insert', label: 'Insert Only' },
+  { mode: 'update', label: 'Update Only' },
+  { mode: 'upsert', label: 'Upsert' }
+];
+
+const ACTION_TONES: Record<ImportPlanRow['action'], string> = {
+  insert: 'bg-emerald-100 text-emerald-700',
+  update: 'bg-blue-100 text-blue-700',
+  skip: 'bg-slate-100 text-slate-500',
+  reject: 'bg-red-100 text-red-700'
+};
+
+// Template columns shown in the review, each with the value it resolved to
+const REVIEW_COLUMNS = ['AssetNumber', 'Name', 'Category', 'Branch', 'Location', 'SubLocation', 'AcquisitionDate', 'Cost', 'UsefulLife', 'TaxRate', 'ResidualValue'];
+
+// Migration rows fold in their components, so the review shows totals and take-on balances instead
+const MIGRATION_REVIEW_COLUMNS = ['AssetNumber', 'Name', 'Category', 'Branch', 'Location', 'SubLocation', 'Components', 'Cost', 'AccumulatedDepreciation', 'TaxValue', 'Events'];
+
+const ImportManager: React.FC<ImportManagerProps> = ({ onImport, assets, categories, locations, settings, mappingProfiles, onUpdateMappingProfiles }) => {
   const [status, setStatus] = useState<{ type: 'idle' | 'success' | 'error', message?: string }>({ type: 'idle' });
+  const [loaded, setLoaded] = useState<{ fileName: string, isMigration: boolean, assetRows: Record<string, any>[], componentRows: Record<string, any>[], eventRows: Record<string, any>[], sourceRows?: SheetRow[] } | null>(null);
+  const [filter, setFilter] = useState<StagingFilter>('all');
+  const [mode, setMode] = useState<ImportMode>('insert');
+  const [matchKey, setMatchKey] = useState<ImportMatchKey>('assetNumber');
+  const [isMigration, setIsMigration] = useState(false);
+  const [cutOverDate, setCutOverDate] = useState(() => format(getFiscalYearBounds(new Date(), settings).start, 'yyyy-MM-dd'));
+  const [createLocations, setCreateLocations] = useState(false);
+  const [createCategories, setCreateCategories] = useState(false);
+  const [mappingSheet, setMappingSheet] = useState<{ fileName: string, headerRow: number, headers: string[], rows: SheetRow[] } | null>(null);
+  const [mappings, setMappings] = useState<ImportColumnMapping[]>([]);
 
-  // Helper to convert Excel Serial Dates to ISO strings
-  const parseExcelDate = (val: any) => {
-    if (!val) return new Date().toISOString().split('T')[0];
-    
-    // If it's already a string in YYYY-MM-DD format
-    if (typeof val === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(val)) return val;
+  // Staging re-runs when the cut-over or the create options change, against the register plus anything the file would create
+  const staged = useMemo(() => {
+    if (!loaded) return null;
+    const created = findMissingReferences(loaded.assetRows, categories, locations, { locations: createLocations, categories: createCategories });
+    const stagingCategories = [...categories, ...created.categories];
+    const stagingLocations = [...locations, ...created.locations];
+    const { rows, unlinked } = loaded.isMigration
+      ? stageMigrationWorkbook(loaded.assetRows, loaded.componentRows, loaded.eventRows, cutOverDate, stagingCategories, stagingLocations)
+      : { rows: stageImportRows(loaded.assetRows, stagingCategories, stagingLocations, loaded.sourceRows), unlinked: [] };
+    return { fileName: loaded.fileName, isMigration: loaded.isMigration, rows: noteCreatedReferences(rows, created), unlinked, created, categories: stagingCategories, locations: stagingLocations };
+  }, [loaded, categories, locations, cutOverDate, createLocations, createCategories]);
 
-    // Handle Excel Serial Number
-    if (typeof val === 'number') {
-      const date = new Date((val - (25567 + 1)) * 86400 * 1000);
-      return date.toISOString().split('T')[0];
-    }
+  // A migration takes assets on for the first time, so it never updates the register
+  const plan = useMemo(() => staged ? planImport(staged.rows, assets, staged.isMigration ? 'insert' : mode, matchKey, staged.categories, staged.locations) : [], [staged, assets, mode, matchKey]);
+  const committedAssets = useMemo(() => plan.filter(p => p.action === 'insert' || p.action === 'update').map(p => p.asset), [plan]);
+  const toCreate = useMemo(() => staged ? pruneCreatedReferences(staged.created, committedAssets) : { locations: [], categories: [] }, [staged, committedAssets]);
+  const reviewColumns = staged?.isMigration ? MIGRATION_REVIEW_COLUMNS : REVIEW_COLUMNS;
 
-    // Try normal JS Date parsing
-    const d = new Date(val);
-    if (!isNaN(d.getTime())) return d.toISOString().split('T')[0];
+  const counts = useMemo(() => {
+    const rows = staged?.rows || [];
+    return {
+      total: rows.length,
+      valid: rows.filter(r => r.isValid).length,
+      errors: rows.filter(r => !r.isValid).length,
+      warnings: rows.filter(r => r.isValid && r.issues.length > 0).length,
+      inserts: plan.filter(p => p.action === 'insert').length,
+      updates: plan.filter(p => p.action === 'update').length,
+      skips: plan.filter(p => p.action === 'skip').length
+    };
+  }, [staged, plan]);
 
-    return new Date().toISOString().split('T')[0];
-  };
+  const visibleRows = useMemo(() => plan.filter(({ row: r }) => {
+    if (filter === 'errors') return !r.isValid;
+    if (filter === 'warnings') return r.isValid && r.issues.length > 0;
+    if (filter === 'valid') return r.isValid;
+    return true;
+  }), [plan, filter]);
 
   const downloadTemplate = () => {
     const data = [
@@ -57,8 +115,32 @@ const ImportManager: React.FC<ImportManagerProps> = ({ onImport, categories, loc
     XLSX.writeFile(wb, "Shuku_Asset_Import_Template.xlsx");
   };
 
+  const downloadMigrationTemplate = () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([{
+      AssetNumber: 'LUP-VEH-014',
+      Name: 'Delivery Truck',
+      TagId: 'RFID-1120-KD',
+      Category: categories[0]?.name || 'General Equipment',
+      Branch: locations.find(l => l.type === 'Branch')?.name || 'Lupo Head Office',
+      Location: 'Yard',
+      SubLocation: '',
+      Description: 'Taken on from legacy register'
+    }]), MIGRATION_SHEETS.assets);
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([
+      { AssetNumber: 'LUP-VEH-014', Component: 'Chassis', AcquisitionDate: '2019-03-01', BroughtIntoUseDate: '2019-03-10', Cost: 480000, ResidualValue: 40000, UsefulLife: 8, TaxRate: 25, SecondHand: 'No', AccumulatedDepreciation: 275000, RevaluationSurplus: 0, TaxValue: 0, SupplierName: 'Truck Co', InvoiceNumber: 'INV-2231' },
+      { AssetNumber: 'LUP-VEH-014', Component: 'Refrigeration Unit', AcquisitionDate: '2021-07-01', Cost: 95000, ResidualValue: 0, UsefulLife: 5, TaxRate: 20, AccumulatedDepreciation: 47500, TaxValue: 19000 }
+    ]), MIGRATION_SHEETS.components);
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([
+      { AssetNumber: 'LUP-VEH-014', Component: 'Refrigeration Unit', Type: 'Impairment', Date: '2022-11-30', Amount: 52000, Reason: 'Compressor failure' },
+      { AssetNumber: 'LUP-VEH-014', Component: 'Chassis', Type: 'Disposal', Date: '2025-09-30', Amount: 150000, Reason: 'Fleet replacement' }
+    ]), MIGRATION_SHEETS.events);
+    XLSX.writeFile(wb, "Shuku_Migration_Template.xlsx");
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
     const reader = new FileReader();
@@ -66,64 +148,46 @@ const ImportManager: React.FC<ImportManagerProps> = ({ onImport, categories, loc
       try {
         const bstr = evt.target?.result;
         const wb = XLSX.read(bstr, { type: 'binary', cellDates: true });
+        if (isMigration) {
+          const sheetRows = (name: string) => wb.Sheets[name] ? XLSX.utils.sheet_to_json(wb.Sheets[name]) as Record<string, any>[] : [];
+          const assetRows = sheetRows(MIGRATION_SHEETS.assets);
+          if (!wb.Sheets[MIGRATION_SHEETS.assets] || !wb.Sheets[MIGRATION_SHEETS.components] || assetRows.length === 0) {
+            setLoaded(null);
+            setStatus({ type: 'error', message: `Migration blocked: the workbook needs "${MIGRATION_SHEETS.assets}" and "${MIGRATION_SHEETS.components}" sheets with data. Use the migration template.` });
+            return;
+          }
+          const sheets = { [MIGRATION_SHEETS.assets]: assetRows, [MIGRATION_SHEETS.components]: sheetRows(MIGRATION_SHEETS.components), [MIGRATION_SHEETS.events]: sheetRows(MIGRATION_SHEETS.events) };
+          const missing = Object.entries(sheets).flatMap(([name, rows]) => rows.length > 0 ? findMissingImportColumns(rows, REQUIRED_MIGRATION_COLUMNS[name]).map(c => `${name}.${c}`) : []);
+          if (missing.length > 0) {
+            setLoaded(null);
+            setStatus({ type: 'error', message: `Migration blocked: required column(s) ${missing.join(', ')} not found. Use the migration template headers.` });
+            return;
+          }
+          setLoaded({ fileName: file.name, isMigration: true, assetRows, componentRows: sheets[MIGRATION_SHEETS.components], eventRows: sheets[MIGRATION_SHEETS.events] });
+          setFilter('all');
+          setStatus({ type: 'idle' });
+          return;
+        }
         const wsname = wb.SheetNames[0];
         const ws = wb.Sheets[wsname];
-        const data = XLSX.utils.sheet_to_json(ws);
+        const grid = XLSX.utils.sheet_to_json<any[]>(ws, { header: 1 });
+        const headerRow = detectHeaderRow(grid);
+        // The grid starts at the first row of the used range, not necessarily at sheet row 1
+        const firstRow = ws['!ref'] ? XLSX.utils.decode_range(ws['!ref']).s.r : 0;
+        const { headers, rows } = readSheetWithHeaders(grid, headerRow, firstRow);
 
-        const newAssets: Asset[] = data.map((row: any) => {
-          // 1. SMART MATCHING: CATEGORY
-          const rowCategoryName = String(row.Category || '').trim().toLowerCase();
-          const category = categories.find(c => c.name.trim().toLowerCase() === rowCategoryName) || categories[0];
-          
-          // 2. SMART MATCHING: BRANCH
-          const rowBranchName = String(row.Branch || '').trim().toLowerCase();
-          const branch = locations.find(l => l.type === 'Branch' && l.name.trim().toLowerCase() === rowBranchName) || locations.find(l => l.type === 'Branch') || locations[0];
-          
-          // 3. SMART MATCHING: FUNCTIONAL LOCATION (Parent = Branch)
-          const rowLocationName = String(row.Location || '').trim().toLowerCase();
-          const functionalLocation = locations.find(l => 
-            l.type === 'Location' && 
-            l.parentId === branch.id && 
-            l.name.trim().toLowerCase() === rowLocationName
-          );
-
-          // 4. SMART MATCHING: SUB-LOCATION (Parent = Functional Location)
-          const rowSubLocationName = String(row.SubLocation || '').trim().toLowerCase();
-          const subLocation = functionalLocation ? locations.find(l => 
-            l.type === 'Sublocation' && 
-            l.parentId === functionalLocation.id && 
-            l.name.trim().toLowerCase() === rowSubLocationName
-          ) : undefined;
-          
-          return {
-            id: Math.random().toString(36).substr(2, 9),
-            assetNumber: String(row.AssetNumber || row['Asset No'] || '').toUpperCase(),
-            tagId: String(row.TagId || row['Tag ID'] || row['Electronic Tag'] || row['RFID'] || ''),
-            name: String(row.Name || 'Imported Asset'),
-            description: String(row.Description || ''),
-            categoryId: category.id,
-            branchId: branch.id,
-            locationId: functionalLocation?.id || '',
-            subLocationId: subLocation?.id || '',
-            status: AssetStatus.ACTIVE,
-            components: [{
-              id: 'primary',
-              name: 'Primary Unit',
-              acquisitionDate: parseExcelDate(row.AcquisitionDate),
-              cost: Number(row.Cost || 0),
-              residualValue: Number(row.ResidualValue || (Number(row.Cost || 0) * (category.residualPercentage / 100))),
-              usefulLifeYears: Number(row.UsefulLife || category.defaultUsefulLife),
-              taxRate: Number(row.TaxRate || category.defaultTaxRate),
-              status: AssetStatus.ACTIVE,
-              supplierName: row.SupplierName || row.Supplier || '',
-              supplierContact: row.SupplierContact || '',
-              invoiceNumber: row.InvoiceNumber || row.Invoice || ''
-            }]
-          };
-        });
-
-        onImport(newAssets);
-        setStatus({ type: 'success', message: `Batch Process Complete: ${newAssets.length} records verified and ingested.` });
+        setLoaded(null);
+        if (rows.length === 0) {
+          setMappingSheet(null);
+          setStatus({ type: 'error', message: 'The first sheet has no data rows.' });
+          return;
+        }
+
+        // Any layout goes through the mapping step, starting from a saved profile that fits or suggested matches
+        const profile = findMatchingProfile(mappingProfiles, headers);
+        setMappings(profile ? IMPORT_FIELDS.map(f => profile.mappings.find(m => m.column === f.column) || { column: f.column }) : suggestColumnMapping(headers));
+        setMappingSheet({ fileName: file.name, headerRow: firstRow + headerRow, headers, rows });
+        setStatus({ type: 'idle' });
       } catch (err) {
         console.error("Import Error:", err);
         setStatus({ type: 'error', message: 'Engine Fault: Could not parse binary data. Ensure you use the provided template.' });
@@ -132,64 +196,323 @@ const ImportManager: React.FC<ImportManagerProps> = ({ onImport, categories, loc
     reader.readAsBinaryString(file);
   };
 
-  return (
-    <div className="bg-white p-12 rounded-3xl border-2 border-dashed border-slate-200 text-center space-y-8 shadow-inner animate-in zoom-in-95 duration-300">
-      <div className="mx-auto w-24 h-24 bg-blue-50 text-blue-600 rounded-3xl flex items-center justify-center shadow-xl rotate-3">
-        <Upload size={48} />
-      </div>
-      
-      <div>
-        <h3 className="text-2xl font-black text-slate-800 uppercase tracking-tighter">Bulk Asset Ingestion</h3>
-        <p className="text-sm text-slate-500 max-w-md mx-auto mt-2 leading-relaxed font-medium">
-          Load thousands of assets in seconds. Our engine maps Excel rows to your configured <span className="text-blue-600 font-bold">Asset Classes</span> and <span className="text-blue-600 font-bold">Locations</span> automatically.
-        </p>
-      </div>
+  const applyMapping = () => {
+    if (!mappingSheet) return;
+    setLoaded({ fileName: mappingSheet.fileName, isMigration: false, assetRows: applyColumnMapping(mappingSheet.rows.map(r => r.values), mappings), componentRows: [], eventRows: [], sourceRows: mappingSheet.rows });
+    setMappingSheet(null);
+    setFilter('all');
+  };
 
-      <div className="pt-4 flex flex-col items-center gap-6">
-        <label className="bg-slate-900 text-white px-10 py-5 rounded-2xl cursor-pointer hover:bg-black transition-all font-black uppercase tracking-widest text-xs flex items-center gap-3 shadow-2xl shadow-slate-200 active:scale-95 group">
-          <FileSpreadsheet size={20} className="group-hover:text-blue-400 transition-colors" />
-          Select Spreadsheet File
-          <input type="file" className="hidden" accept=".xlsx, .xls, .csv" onChange={handleFileUpload} />
-        </label>
-        
-        <button onClick={downloadTemplate} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600 flex items-center gap-1.5 transition-all">
-          <Download size={14} /> Download System Template
-        </button>
-      </div>
+  const commitPlan = () => {
+    if (!staged || counts.inserts + counts.updates === 0) return;
+    const inserts = plan.filter(p => p.action === 'insert').map(p => p.asset);
+    const updates = plan.filter(p => p.action === 'update').map(p => ({ asset: p.asset, changes: p.changes }));
+    const createdCount = toCreate.locations.length + toCreate.categories.length;
+    if (createdCount > 0 && !confirm(`This import creates ${createdCount} new record(s):\n\n${[
+      ...toCreate.categories.map(c => `Asset class: ${c.name}`),
+      ...toCreate.locations.map(l => `${l.type}: ${locationPath(l)}`)
+    ].join('\n')}\n\nContinue?`)) return;
+    if (!onImport(inserts, updates, toCreate)) return;
+    setStatus({ type: 'success', message: `Batch Process Complete: ${inserts.length} inserted, ${updates.length} updated${counts.skips > 0 ? `, ${counts.skips} skipped` : ''}${counts.errors > 0 ? `, ${counts.errors} rejected` : ''}${createdCount > 0 ? `, ${createdCount} classes/locations created` : ''}.` });
+    setLoaded(null);
+  };
+
+  const downloadErrorReport = () => {
+    if (!staged) return;
+    const issues = staged.rows.flatMap(r => r.issues.map(i => ({
+      'Row': r.rowNumber,
+      'Asset Number': r.asset.assetNumber,
+      'Column': i.field,
+      'Severity': i.severity === 'error' ? 'Error' : 'Warning',
+      'Message': i.message,
+      'Value': r.raw[i.field] ?? ''
+    }))).concat(staged.unlinked.map(i => ({ 'Row': 0, 'Asset Number': '', 'Column': i.field, 'Severity': 'Error', 'Message': i.message, 'Value': '' })));
+    // Rejected rows keep their original columns so they can be corrected and re-imported
+    const rejected = staged.rows.filter(r => !r.isValid).map(r => ({
+      ...(r.source || r.raw),
+      'Import Errors': r.issues.filter(i => i.severity === 'error').map(i => `${i.field}: ${i.message}`).join('; ')
+    }));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(issues), "Import Issues");
+    if (rejected.length > 0) XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rejected), "Rejected Rows");
+    XLSX.writeFile(wb, `Import_Errors_${staged.fileName.replace(/\.[^.]+$/, '')}.xlsx`);
+  };
 
-      {status.type === 'success' && (
-        <div className="mt-4 p-5 bg-emerald-50 text-emerald-700 rounded-2xl flex items-center justify-center gap-4 border border-emerald-100 animate-in slide-in-from-top-4 shadow-sm">
-          <CheckCircle2 size={24} />
-          <span className="text-xs font-black uppercase tracking-widest">{status.message}</span>
+  // Branch > Location > Sublocation path of a unit, for listing what will be created
+  const locationPath = (unit: AssetLocation): string => {
+    const all = staged?.locations || locations;
+    const parent = unit.parentId ? all.find(l => l.id === unit.parentId) : undefined;
+    return parent ? `${locationPath(parent)} > ${unit.name}` : unit.name;
+  };
+
+  const resolvedLabel = (row: StagedImportRow, column: string): string => {
+    const a = row.asset;
+    const comp = a.components[0];
+    const total = (value: (c: Asset['components'][number]) => number) => a.components.reduce((sum, c) => sum + value(c), 0);
+    const locationName = (id: string) => (staged?.locations || locations).find(l => l.id === id)?.name || '';
+    switch (column) {
+      case 'AssetNumber': return a.assetNumber;
+      case 'Name': return a.name;
+      case 'Category': return (staged?.categories || categories).find(c => c.id === a.categoryId)?.name || '';
+      case 'Branch': return locationName(a.branchId);
+      case 'Location': return locationName(a.locationId);
+      case 'SubLocation': return locationName(a.subLocationId);
+      case 'AcquisitionDate': return comp?.acquisitionDate || '';
+      case 'Cost': return total(c => c.cost).toFixed(2);
+      case 'UsefulLife': return `${comp.usefulLifeYears} yrs`;
+      case 'TaxRate': return `${comp.taxRate}%`;
+      case 'ResidualValue': return comp.residualValue.toFixed(2);
+      case 'Components': return a.components.map(c => c.name).join(', ');
+      case 'AccumulatedDepreciation': return total(c => c.takeOnAccumulatedDepr || 0).toFixed(2);
+      case 'TaxValue': return a.components.some(c => c.takeOnTaxValue !== undefined) ? total(c => c.takeOnTaxValue ?? 0).toFixed(2) : '';
+      case 'Events': {
+        const count = total(c => (c.revaluations || []).length + (c.impairments || []).reduce((n, i) => n + 1 + (i.reversal ? 1 : 0), 0) + (c.disposalDate ? 1 : 0));
+        return count > 0 ? String(count) : '';
+      }
+      default: return '';
+    }
+  };
+
+  const cellTone = (row: StagedImportRow, column: string) => {
+    const issues = row.issues.filter(i => i.field === column || (column === 'Components' && i.field === MIGRATION_SHEETS.components) || (column === 'Events' && i.field === MIGRATION_SHEETS.events));
+    if (issues.some(i => i.severity === 'error')) return 'bg-red-50 text-red-700';
+    if (issues.length > 0) return 'bg-amber-50 text-amber-700';
+    return 'text-slate-700';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-12 rounded-3xl border-2 border-dashed border-slate-200 text-center space-y-8 shadow-inner animate-in zoom-in-95 duration-300">
+        <div className="mx-auto w-24 h-24 bg-blue-50 text-blue-600 rounded-3xl flex items-center justify-center shadow-xl rotate-3">
+          <Upload size={48} />
+        </div>
+        
+        <div>
+          <h3 className="text-2xl font-black text-slate-800 uppercase tracking-tighter">Bulk Asset Ingestion</h3>
+          <p className="text-sm text-slate-500 max-w-md mx-auto mt-2 leading-relaxed font-medium">
+            Load thousands of assets in seconds. Our engine maps Excel rows to your configured <span className="text-blue-600 font-bold">Asset Classes</span> and <span className="text-blue-600 font-bold">Locations</span> automatically.
+          </p>
         </div>
-      )}
 
-      {status.type === 'error' && (
-        <div className="mt-4 p-5 bg-red-50 text-red-700 rounded-2xl flex items-center justify-center gap-4 border border-red-100 animate-in slide-in-from-top-4 shadow-sm">
-          <AlertCircle size={24} />
-          <span className="text-xs font-black uppercase tracking-widest">{status.message}</span>
+        <div className="flex flex-col items-center gap-4">
+          <div className="flex bg-slate-100 p-1 rounded-xl shadow-inner">
+            <button onClick={() => { setIsMigration(false); setLoaded(null); setMappingSheet(null); }} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${!isMigration ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-500'}`}><FileSpreadsheet size={14} /> Single Sheet</button>
+            <button onClick={() => { setIsMigration(true); setLoaded(null); setMappingSheet(null); }} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${isMigration ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-500'}`}><History size={14} /> Legacy Register Migration</button>
+          </div>
+          {isMigration && (
+            <div className="flex flex-col items-center gap-2">
+              <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                Cut-over Date
+                <input type="date" value={cutOverDate} onChange={e => e.target.value && setCutOverDate(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 outline-none" />
+              </label>
+              <p className="text-[10px] text-slate-400 font-medium max-w-md">
+                Opening accumulated depreciation, revaluation surplus and tax values are balances at the end of the day before the cut-over. Depreciation and allowances run from the cut-over on those balances.
+              </p>
+            </div>
+          )}
+          <div className="flex flex-wrap justify-center gap-6 text-[10px] font-black uppercase tracking-widest text-slate-500">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={createLocations} onChange={e => setCreateLocations(e.target.checked)} className="rounded" />
+              Create missing branches, locations &amp; sub-locations
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={createCategories} onChange={e => setCreateCategories(e.target.checked)} className="rounded" />
+              Create missing asset classes with default settings
+            </label>
+          </div>
         </div>
-      )}
 
-      <div className="pt-10 text-left border-t border-slate-100">
-        <div className="flex items-center gap-2 mb-6">
-           <Table size={16} className="text-slate-400" />
-           <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Required Schema Mapping</h4>
+        <div className="pt-4 flex flex-col items-center gap-6">
+          <label className="bg-slate-900 text-white px-10 py-5 rounded-2xl cursor-pointer hover:bg-black transition-all font-black uppercase tracking-widest text-xs flex items-center gap-3 shadow-2xl shadow-slate-200 active:scale-95 group">
+            <FileSpreadsheet size={20} className="group-hover:text-blue-400 transition-colors" />
+            Select Spreadsheet File
+            <input type="file" className="hidden" accept=".xlsx, .xls, .csv" onChange={handleFileUpload} />
+          </label>
+          
+          <button onClick={isMigration ? downloadMigrationTemplate : downloadTemplate} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600 flex items-center gap-1.5 transition-all">
+            <Download size={14} /> {isMigration ? 'Download Migration Template' : 'Download System Template'}
+          </button>
         </div>
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 text-[9px] font-black uppercase tracking-tighter">
-          {[
-            'AssetNumber', 'Name', 'TagId', 'Category', 'Branch', 'Location', 'SubLocation',
-            'Cost', 'AcquisitionDate', 'UsefulLife', 'TaxRate', 'SupplierName', 'InvoiceNumber'
-          ].map(col => (
-            <div key={col} className="bg-slate-50 p-2.5 rounded-xl border border-slate-100 text-slate-500 flex items-center gap-2">
-              <div className="w-1 h-1 bg-slate-300 rounded-full"></div> {col}
+
+        {status.type === 'success' && (
+          <div className="mt-4 p-5 bg-emerald-50 text-emerald-700 rounded-2xl flex items-center justify-center gap-4 border border-emerald-100 animate-in slide-in-from-top-4 shadow-sm">
+            <CheckCircle2 size={24} />
+            <span className="text-xs font-black uppercase tracking-widest">{status.message}</span>
+          </div>
+        )}
+
+        {status.type === 'error' && (
+          <div className="mt-4 p-5 bg-red-50 text-red-700 rounded-2xl flex items-center justify-center gap-4 border border-red-100 animate-in slide-in-from-top-4 shadow-sm">
+            <AlertCircle size={24} />
+            <span className="text-xs font-black uppercase tracking-widest">{status.message}</span>
+          </div>
+        )}
+
+        <div className="pt-10 text-left border-t border-slate-100">
+          <div className="flex items-center gap-2 mb-6">
+             <Table size={16} className="text-slate-400" />
+             <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Required Schema Mapping</h4>
+          </div>
+          {isMigration ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-[9px] font-black uppercase tracking-tighter">
+              {[
+                { sheet: MIGRATION_SHEETS.assets, columns: ['AssetNumber', 'Name', 'TagId', 'Category', 'Branch', 'Location', 'SubLocation', 'Description'] },
+                { sheet: MIGRATION_SHEETS.components, columns: ['AssetNumber', 'Component', 'AcquisitionDate', 'BroughtIntoUseDate', 'Cost', 'ResidualValue', 'UsefulLife', 'TaxRate', 'SecondHand', 'AccumulatedDepreciation', 'RevaluationSurplus', 'TaxValue'] },
+                { sheet: MIGRATION_SHEETS.events, columns: ['AssetNumber', 'Component', 'Type', 'Date', 'Amount', 'Reason'] }
+              ].map(({ sheet, columns }) => (
+                <div key={sheet} className="bg-slate-50 p-4 rounded-xl border border-slate-100 space-y-2">
+                  <p className="text-slate-700">Sheet: {sheet}</p>
+                  <p className="text-slate-400 normal-case font-bold tracking-normal">{columns.join(', ')}</p>
+                </div>
+              ))}
             </div>
-          ))}
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 text-[9px] font-black uppercase tracking-tighter">
+              {[
+                'AssetNumber', 'Name', 'TagId', 'Category', 'Branch', 'Location', 'SubLocation',
+                'Cost', 'AcquisitionDate', 'UsefulLife', 'TaxRate', 'SupplierName', 'InvoiceNumber'
+              ].map(col => (
+                <div key={col} className="bg-slate-50 p-2.5 rounded-xl border border-slate-100 text-slate-500 flex items-center gap-2">
+                  <div className="w-1 h-1 bg-slate-300 rounded-full"></div> {col}
+                </div>
+              ))}
+            </div>
+          )}
+          {isMigration && (
+            <p className="mt-6 text-[9px] text-slate-400 font-medium italic">
+              * Event types: {MIGRATION_EVENT_TYPES.join(', ')}. Amount is the proceeds, fair value or recoverable amount. Events before the cut-over are kept as history.
+            </p>
+          )}
+          <p className="mt-2 text-[9px] text-slate-400 font-medium italic">
+            * Ensure names in 'Category', 'Branch', and 'Location' columns exactly match your current system settings to avoid unmapped assets.
+          </p>
         </div>
-        <p className="mt-6 text-[9px] text-slate-400 font-medium italic">
-          * Ensure names in 'Category', 'Branch', and 'Location' columns exactly match your current system settings to avoid unmapped assets.
-        </p>
       </div>
+
+      {mappingSheet && (
+        <ImportMappingWizard
+          fileName={mappingSheet.fileName}
+          headerRow={mappingSheet.headerRow}
+          headers={mappingSheet.headers}
+          rows={mappingSheet.rows.map(r => r.values)}
+          mappings={mappings}
+          onChange={setMappings}
+          profiles={mappingProfiles}
+          onUpdateProfiles={onUpdateMappingProfiles}
+          onApply={applyMapping}
+          onCancel={() => setMappingSheet(null)}
+        />
+      )}
+
+      {staged && (
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-xl overflow-hidden animate-in fade-in duration-300">
+          <div className="p-6 border-b border-slate-100 flex flex-col xl:flex-row justify-between items-start xl:items-center gap-4">
+            <div>
+              <h3 className="text-lg font-black text-slate-800 uppercase tracking-tighter">{staged.isMigration ? `Migration Review • Cut-over ${cutOverDate}` : 'Import Review'}</h3>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+                {staged.fileName} • {counts.total} rows • <span className="text-emerald-600">{counts.valid} valid</span> • <span className="text-amber-600">{counts.warnings} with warnings</span> • <span className="text-red-600">{counts.errors} rejected</span>
+              </p>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+                <span className="text-emerald-600">{counts.inserts} to insert</span> • <span className="text-blue-600">{counts.updates} to update</span> • {counts.skips} skipped
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              {staged.isMigration ? (
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Insert only • assets already in the register are skipped</span>
+              ) : (
+                <>
+                  <div className="flex bg-slate-100 p-1 rounded-xl shadow-inner">
+                    {IMPORT_MODES.map(m => (
+                      <button key={m.mode} onClick={() => setMode(m.mode)} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === m.mode ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500'}`}>{m.label}</button>
+                    ))}
+                  </div>
+                  <select value={matchKey} onChange={e => setMatchKey(e.target.value as ImportMatchKey)} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-[10px] font-black uppercase text-slate-600 outline-none">
+                    <option value="assetNumber">Match on Asset Number</option>
+                    <option value="tagId">Match on Tag ID</option>
+                  </select>
+                </>
+              )}
+              <div className="flex bg-slate-100 p-1 rounded-xl shadow-inner">
+                {(['all', 'errors', 'warnings', 'valid'] as StagingFilter[]).map(f => (
+                  <button key={f} onClick={() => setFilter(f)} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${filter === f ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-500'}`}>{f}</button>
+                ))}
+              </div>
+              <button onClick={downloadErrorReport} disabled={counts.errors + counts.warnings + staged.unlinked.length === 0} className="px-4 py-2.5 bg-slate-100 text-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition flex items-center gap-2 border border-slate-200 disabled:opacity-50"><Download size={14} /> Error Report</button>
+              <button onClick={() => setLoaded(null)} className="px-4 py-2.5 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition flex items-center gap-2"><X size={14} /> Discard</button>
+              <button onClick={commitPlan} disabled={counts.inserts + counts.updates === 0} className="px-5 py-2.5 bg-emerald-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 transition flex items-center gap-2 shadow-lg disabled:opacity-50"><CheckCircle2 size={14} /> Commit {counts.inserts} New / {counts.updates} Updated</button>
+            </div>
+          </div>
+
+          {counts.valid === 0 && (
+            <div className="px-6 py-3 bg-red-50 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> No row can be imported until its errors are corrected in the file</div>
+          )}
+
+          {toCreate.locations.length + toCreate.categories.length > 0 && (
+            <div className="px-6 py-3 bg-blue-50 text-blue-700 text-[10px] font-bold space-y-0.5">
+              <p className="font-black uppercase tracking-widest flex items-center gap-2"><Plus size={14} /> Created on commit</p>
+              {toCreate.categories.map(c => <span key={c.id} className="block">Asset class: {c.name} ({c.defaultUsefulLife} yrs, {c.defaultTaxRate}% tax, GL {c.glCodeCost})</span>)}
+              {toCreate.locations.map(l => <span key={l.id} className="block">{l.type}: {locationPath(l)}</span>)}
+            </div>
+          )}
+
+          {staged.unlinked.length > 0 && (
+            <div className="px-6 py-3 bg-amber-50 text-amber-700 text-[10px] font-bold space-y-0.5">
+              <p className="font-black uppercase tracking-widest flex items-center gap-2"><AlertTriangle size={14} /> {staged.unlinked.length} row(s) not linked to an asset and left out</p>
+              {staged.unlinked.map((i, idx) => <span key={idx} className="block">{i.message}</span>)}
+            </div>
+          )}
+
+          <div className="overflow-x-auto custom-scrollbar max-h-[600px]">
+            <table className="w-full text-[10px] text-left">
+              <thead className="bg-slate-50 text-slate-500 font-black text-[8px] uppercase tracking-widest sticky top-0">
+                <tr>
+                  <th className="px-4 py-3">Row</th>
+                  <th className="px-3 py-3">Action</th>
+                  {reviewColumns.map(c => <th key={c} className="px-3 py-3 whitespace-nowrap">{c}</th>)}
+                  <th className="px-4 py-3 min-w-[260px]">Issues</th>
+                  <th className="px-4 py-3 min-w-[260px]">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleRows.map(({ row: r, action, changes, note }) => (
+                  <tr key={r.rowNumber} className={r.isValid ? '' : 'bg-red-50/30'}>
+                    <td className="px-4 py-2 font-mono text-slate-400">
+                      <span className="flex items-center gap-1.5">
+                        {!r.isValid ? <AlertCircle size={12} className="text-red-600" /> : r.issues.length > 0 ? <AlertTriangle size={12} className="text-amber-500" /> : <CheckCircle2 size={12} className="text-emerald-600" />}
+                        {r.rowNumber}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2"><span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase ${ACTION_TONES[action]}`}>{action}</span></td>
+                    {reviewColumns.map(c => {
+                      const resolved = resolvedLabel(r, c);
+                      const raw = String(r.raw[c] ?? '').trim();
+                      return (
+                        <td key={c} className={`px-3 py-2 whitespace-nowrap ${cellTone(r, c)}`}>
+                          <span className="block font-bold">{resolved || raw || '-'}</span>
+                          {raw && resolved && raw.toLowerCase() !== resolved.toLowerCase() && <span className="block text-[8px] text-slate-400">from "{raw}"</span>}
+                        </td>
+                      );
+                    })}
+                    <td className="px-4 py-2 space-y-0.5">
+                      {r.issues.map((i, idx) => (
+                        <span key={idx} className={`block text-[9px] font-bold ${i.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>{i.field}: {i.message}</span>
+                      ))}
+                    </td>
+                    <td className="px-4 py-2 space-y-0.5">
+                      {note && <span className="block text-[9px] font-bold text-slate-400">{note}</span>}
+                      {changes.map((c, idx) => (
+                        <span key={idx} className="block text-[9px] text-slate-600">
+                          <span className="font-bold text-slate-400">{c.field}:</span> <span className="text-red-500 line-through">{String(c.oldValue ?? '') || '(blank)'}</span> → <span className="text-emerald-600 font-bold">{String(c.newValue ?? '') || '(blank)'}</span>
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
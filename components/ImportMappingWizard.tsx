@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { Columns, Save, Trash2, X, ArrowRight, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { ImportColumnMapping, ImportMappingProfile } from '../types';
+import { applyColumnMapping, findUnmappedRequiredColumns, IMPORT_FIELDS, REQUIRED_IMPORT_COLUMNS } from '../services/importService';
+
+interface ImportMappingWizardProps {
+  fileName: string;
+  headerRow: number; // Zero-based sheet row of the detected header
+  headers: string[];
+  rows: Record<string, any>[];
+  mappings: ImportColumnMapping[];
+  onChange: (mappings: ImportColumnMapping[]) => void;
+  profiles: ImportMappingProfile[];
+  onUpdateProfiles: (profiles: ImportMappingProfile[]) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy/MM/dd', 'dd-MM-yyyy', 'dd.MM.yyyy', 'd MMM yyyy'];
+
+const ImportMappingWizard: React.FC<ImportMappingWizardProps> = ({ fileName, headerRow, headers, rows, mappings, onChange, profiles, onUpdateProfiles, onApply, onCancel }) => {
+  const [profileName, setProfileName] = useState('');
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+
+  const unmappedRequired = useMemo(() => findUnmappedRequiredColumns(mappings), [mappings]);
+  const ignoredHeaders = useMemo(() => headers.filter(h => !mappings.some(m => m.source === h)), [headers, mappings]);
+  // Values the first rows resolve to under the current mapping, transformations included
+  const preview = useMemo(() => applyColumnMapping(rows.slice(0, 3), mappings), [rows, mappings]);
+
+  const updateMapping = (column: string, updates: Partial<ImportColumnMapping>) => {
+    onChange(mappings.map(m => m.column === column ? { ...m, ...updates } : m));
+  };
+
+  const loadProfile = (id: string) => {
+    setSelectedProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setProfileName(profile.name);
+    onChange(IMPORT_FIELDS.map(f => {
+      const saved = profile.mappings.find(m => m.column === f.column);
+      // A saved header this sheet does not have is dropped rather than left pointing nowhere
+      return saved ? { ...saved, source: saved.source && headers.includes(saved.source) ? saved.source : undefined } : { column: f.column };
+    }));
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    const existing = profiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      onUpdateProfiles(profiles.map(p => p.id === existing.id ? { ...p, name, mappings } : p));
+      setSelectedProfileId(existing.id);
+    } else {
+      const profile: ImportMappingProfile = { id: Math.random().toString(36).substr(2, 9), name, mappings };
+      onUpdateProfiles([...profiles, profile]);
+      setSelectedProfileId(profile.id);
+    }
+  };
+
+  const deleteProfile = () => {
+    onUpdateProfiles(profiles.filter(p => p.id !== selectedProfileId));
+    setSelectedProfileId('');
+  };
+
+  const previewText = (value: any) => value instanceof Date ? format(value, 'yyyy-MM-dd') : String(value ?? '');
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-xl overflow-hidden animate-in fade-in duration-300">
+      <div className="p-6 border-b border-slate-100 flex flex-col xl:flex-row justify-between items-start xl:items-center gap-4">
+        <div>
+          <h3 className="text-lg font-black text-slate-800 uppercase tracking-tighter flex items-center gap-2"><Columns size={18} /> Map Columns</h3>
+          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">
+            {fileName} • headers found on row {headerRow + 1} • {headers.length} columns • {rows.length} rows
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={selectedProfileId} onChange={e => loadProfile(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-[10px] font-black uppercase text-slate-600 outline-none">
+            <option value="">Load mapping profile…</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <input type="text" value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="Profile name" className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 outline-none w-44" />
+          <button onClick={saveProfile} disabled={!profileName.trim()} className="px-4 py-2.5 bg-slate-100 text-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition flex items-center gap-2 border border-slate-200 disabled:opacity-50"><Save size={14} /> Save Profile</button>
+          {selectedProfileId && (
+            <button onClick={deleteProfile} className="px-3 py-2.5 bg-red-50 text-red-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-red-100 transition flex items-center gap-2"><Trash2 size={14} /> Delete</button>
+          )}
+          <button onClick={onCancel} className="px-4 py-2.5 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition flex items-center gap-2"><X size={14} /> Cancel</button>
+          <button onClick={onApply} disabled={unmappedRequired.length > 0} className="px-5 py-2.5 bg-blue-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition flex items-center gap-2 shadow-lg disabled:opacity-50"><ArrowRight size={14} /> Review Import</button>
+        </div>
+      </div>
+
+      {unmappedRequired.length > 0 && (
+        <div className="px-6 py-3 bg-red-50 text-red-700 text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><AlertCircle size={14} /> Map a column or give a default for: {unmappedRequired.join(', ')}</div>
+      )}
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-[10px] text-left">
+          <thead className="bg-slate-50 text-slate-500 font-black text-[8px] uppercase tracking-widest">
+            <tr>
+              <th className="px-4 py-3">Field</th>
+              <th className="px-3 py-3">Spreadsheet Column</th>
+              <th className="px-3 py-3">Transformation</th>
+              <th className="px-3 py-3">Default Value</th>
+              <th className="px-4 py-3">Preview</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {IMPORT_FIELDS.map(f => {
+              const mapping = mappings.find(m => m.column === f.column) || { column: f.column };
+              return (
+                <tr key={f.column}>
+                  <td className="px-4 py-2">
+                    <span className="block font-black text-slate-700">{f.label}{REQUIRED_IMPORT_COLUMNS.includes(f.column) && <span className="text-red-500"> *</span>}</span>
+                    <span className="block text-[8px] font-bold uppercase tracking-widest text-slate-400">{f.target} • {f.column}</span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <select value={mapping.source || ''} onChange={e => updateMapping(f.column, { source: e.target.value || undefined })} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-700 outline-none">
+                      <option value="">— Not in this sheet —</option>
+                      {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    {f.kind === 'date' && (
+                      <select value={mapping.dateFormat || ''} onChange={e => updateMapping(f.column, { dateFormat: e.target.value || undefined })} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-700 outline-none">
+                        <option value="">Excel / ISO dates</option>
+                        {DATE_FORMATS.map(d => <option key={d} value={d}>{d}</option>)}
+                      </select>
+                    )}
+                    {f.kind === 'number' && (
+                      <label className="flex items-center gap-2 font-bold text-slate-600 cursor-pointer">
+                        <input type="checkbox" checked={!!mapping.decimalComma} onChange={e => updateMapping(f.column, { decimalComma: e.target.checked || undefined })} className="rounded" />
+                        Comma decimals (1.234,56)
+                      </label>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input type="text" value={mapping.defaultValue || ''} onChange={e => updateMapping(f.column, { defaultValue: e.target.value || undefined })} placeholder={mapping.source ? 'When blank' : 'For every row'} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-700 outline-none" />
+                  </td>
+                  <td className="px-4 py-2 text-slate-500 font-mono">
+                    {preview.map((row, i) => <span key={i} className="block truncate max-w-[220px]">{previewText(row[f.column]) || '-'}</span>)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {ignoredHeaders.length > 0 && (
+        <div className="px-6 py-3 border-t border-slate-100 text-[10px] text-slate-400 font-bold">
+          <span className="uppercase tracking-widest font-black">Not imported:</span> {ignoredHeaders.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportMappingWizard;
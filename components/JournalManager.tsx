@@ -1,136 +1,83 @@
 import React, { useMemo, useState } from 'react';
-import { Asset, JournalEntry, AssetCategory, AssetLocation } from '../types';
-import { calculateDepreciation } from '../services/assetService';
-import { format, endOfMonth } from 'date-fns';
-import { BookText, Download, Calculator, Filter, Tag } from 'lucide-react';
+import { Asset, JournalType, AssetCategory, AssetLocation, CompanySettings, PeriodClose, PriorPeriodAdjustment, DepreciationRun, JournalExportProfile, GLAccount } from '../types';
+import { format } from 'date-fns';
+import { isPeriodClosed, getLatestClosedPeriod } from '../services/periodService';
+import { generateJournalEntries, formatBatchNumber, getActiveRuns } from '../services/journalService';
+import { buildJournalExportRows, getJournalExportReference } from '../services/journalExportService';
+import { findUnknownAccounts, getSegmentedAccount } from '../services/accountService';
+import ExportProfileManager from './ExportProfileManager';
+import { BookText, Download, Calculator, Filter, Tag, Lock, Unlock, Play, Send, Undo2, History, X, Settings2, AlertTriangle } from 'lucide-react';
 import * as XLSX from 'xlsx';
 
-// Custom implementation of startOfMonth as it is missing from date-fns export in this environment
-const startOfMonth = (date: Date): Date => {
-  return new Date(date.getFullYear(), date.getMonth(), 1);
-};
-
 interface JournalManagerProps {
   assets: Asset[];
   categories: AssetCategory[];
   locations: AssetLocation[];
   selectedMonth: string; // YYYY-MM
+  companySettings: CompanySettings;
+  periodCloses: PeriodClose[];
+  adjustments: PriorPeriodAdjustment[];
+  onClosePeriod: (period: string) => void;
+  onReopenPeriod: (period: string) => void;
+  runs: DepreciationRun[];
+  selectedRunId?: string;
+  onSelectRun: (runId: string | undefined) => void;
+  onRunDepreciation: (period: string, branchId: string) => void;
+  onPostRun: (runId: string) => void;
+  onReverseRun: (runId: string) => void;
+  exportProfiles: JournalExportProfile[];
+  onUpdateExportProfiles: (profiles: JournalExportProfile[]) => void;
+  chartOfAccounts: GLAccount[];
 }
 
-const JournalManager: React.FC<JournalManagerProps> = ({ assets, categories, locations, selectedMonth }) => {
+const RUN_STATUS_STYLES: Record<DepreciationRun['status'], string> = {
+  Draft: 'bg-amber-50 text-amber-700',
+  Posted: 'bg-emerald-50 text-emerald-700',
+  Reversed: 'bg-slate-100 text-slate-500 line-through'
+};
+
+const JournalManager: React.FC<JournalManagerProps> = ({ assets, categories, locations, selectedMonth, companySettings, periodCloses, adjustments, onClosePeriod, onReopenPeriod, runs, selectedRunId, onSelectRun, onRunDepreciation, onPostRun, onReverseRun, exportProfiles, onUpdateExportProfiles, chartOfAccounts }) => {
   const [selectedBranch, setSelectedBranch] = useState<string>('all');
-  const [selectedType, setSelectedType] = useState<'all' | 'Depreciation' | 'Addition'>('all');
+  const [selectedType, setSelectedType] = useState<'all' | JournalType>('all');
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(exportProfiles[0]?.id || '');
+  const [showProfiles, setShowProfiles] = useState(false);
   
   const branches = useMemo(() => locations.filter(u => u.type === 'Branch'), [locations]);
 
-  const filteredAssets = useMemo(() => {
-    if (selectedBranch === 'all') return assets;
-    return assets.filter(a => a.branchId === selectedBranch);
-  }, [assets, selectedBranch]);
-
-  const journals = useMemo(() => {
-    const [year, month] = selectedMonth.split('-').map(Number);
-    if (!year || !month) return [];
-    
-    const start = startOfMonth(new Date(year, month - 1));
-    const end = endOfMonth(new Date(year, month - 1));
-    const entries: JournalEntry[] = [];
+  const periodClose = periodCloses.find(c => c.period === selectedMonth);
+  const isClosed = isPeriodClosed(selectedMonth, periodCloses);
+  const canReopen = !!periodClose && getLatestClosedPeriod(periodCloses) === selectedMonth;
 
-    // Consolidation map: categoryId-branchId -> aggregated movements
-    const consolidatedMovements: Record<string, { periodicDepr: number, additions: number, categoryId: string, branchId: string }> = {};
+  const selectedRun = runs.find(r => r.id === selectedRunId);
+  const activeRuns = getActiveRuns(runs, selectedMonth, selectedBranch);
+  const activeRun = activeRuns.find(r => r.status === 'Posted') || activeRuns[0];
+  const monthRuns = useMemo(() => {
+    return runs.filter(r => r.period === selectedMonth).sort((a, b) => b.batchNumber - a.batchNumber);
+  }, [runs, selectedMonth]);
 
-    filteredAssets.forEach(asset => {
-      const calc = calculateDepreciation(asset, start, end, categories);
-      const key = `${asset.categoryId}-${asset.branchId}`;
-      
-      if (!consolidatedMovements[key]) {
-        consolidatedMovements[key] = { 
-          periodicDepr: 0, 
-          additions: 0, 
-          categoryId: asset.categoryId, 
-          branchId: asset.branchId 
-        };
-      }
-      
-      consolidatedMovements[key].periodicDepr += calc.periodicDepr;
-      consolidatedMovements[key].additions += calc.additions;
-    });
-
-    // Create journal entries from consolidated movements
-    Object.values(consolidatedMovements).forEach(movement => {
-      const category = categories.find(c => c.id === movement.categoryId);
-      if (!category) return;
-
-      if (movement.periodicDepr > 0) {
-        entries.push({
-          id: `depr-${movement.categoryId}-${movement.branchId}`,
-          date: format(end, 'yyyy-MM-dd'),
-          accountName: `Depr Expense: ${category.name}`,
-          accountCode: category.glCodeDeprExpense,
-          description: `Consolidated Monthly Depr - ${category.name}`,
-          debit: movement.periodicDepr,
-          credit: 0,
-          branchId: movement.branchId,
-          type: 'Depreciation'
-        });
-        entries.push({
-          id: `accum-${movement.categoryId}-${movement.branchId}`,
-          date: format(end, 'yyyy-MM-dd'),
-          accountName: `Accum Depr: ${category.name}`,
-          accountCode: category.glCodeAccumDepr,
-          description: `Consolidated Monthly Depr - ${category.name}`,
-          debit: 0,
-          credit: movement.periodicDepr,
-          branchId: movement.branchId,
-          type: 'Depreciation'
-        });
-      }
-
-      if (movement.additions > 0) {
-        entries.push({
-          id: `add-${movement.categoryId}-${movement.branchId}`,
-          date: format(end, 'yyyy-MM-dd'),
-          accountName: `Asset Cost: ${category.name}`,
-          accountCode: category.glCodeCost,
-          description: `Consolidated Monthly Additions - ${category.name}`,
-          debit: movement.additions,
-          credit: 0,
-          branchId: movement.branchId,
-          type: 'Addition'
-        });
-        entries.push({
-          id: `pay-${movement.categoryId}-${movement.branchId}`,
-          date: format(end, 'yyyy-MM-dd'),
-          accountName: `Accounts Payable / Bank`,
-          accountCode: '2000/001',
-          description: `Consolidated Monthly Additions - ${category.name}`,
-          debit: 0,
-          credit: movement.additions,
-          branchId: movement.branchId,
-          type: 'Addition'
-        });
-      }
-    });
-
-    // Apply type filter
+  // A selected batch shows exactly what was run; otherwise the month is previewed live
+  const journals = useMemo(() => {
+    const entries = selectedRun
+      ? selectedRun.entries
+      : generateJournalEntries(selectedMonth, selectedBranch, assets, categories, locations, companySettings, periodClose, adjustments);
     if (selectedType === 'all') return entries;
     return entries.filter(e => e.type === selectedType);
-  }, [filteredAssets, categories, selectedMonth, selectedType]);
+  }, [assets, categories, selectedMonth, selectedType, selectedBranch, companySettings, periodClose, adjustments, selectedRun]);
+
+  const unknownAccounts = useMemo(() => findUnknownAccounts(journals, chartOfAccounts), [journals, chartOfAccounts]);
+
+  const exportProfile = exportProfiles.find(p => p.id === selectedProfileId) || exportProfiles[0];
 
   const exportJournals = () => {
-    const ws = XLSX.utils.json_to_sheet(journals.map(j => ({
-      Date: j.date,
-      Type: j.type,
-      'Account Code': j.accountCode,
-      'Account Name': j.accountName,
-      Description: j.description,
-      Branch: locations.find(o => o.id === j.branchId)?.name || 'Unknown',
-      Debit: j.debit.toFixed(2),
-      Credit: j.credit.toFixed(2)
-    })));
+    if (!exportProfile) return;
+    const period = selectedRun?.period || selectedMonth;
+    const reference = getJournalExportReference(exportProfile, period, selectedRun);
+    const ws = XLSX.utils.aoa_to_sheet(buildJournalExportRows(journals, exportProfile, locations, reference, companySettings));
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Consolidated GL Journals");
-    XLSX.writeFile(wb, `Consolidated_Journals_${selectedMonth}_${selectedType.toUpperCase()}_${selectedBranch === 'all' ? 'FULL' : 'BRANCH'}.xlsx`);
+    const scope = selectedRun ? formatBatchNumber(selectedRun) : (selectedBranch === 'all' ? 'FULL' : 'BRANCH');
+    const target = exportProfile.name.replace(/[^A-Za-z0-9]+/g, '_');
+    XLSX.writeFile(wb, `Journals_${target}_${period}_${selectedType.toUpperCase()}_${scope}.${exportProfile.fileFormat}`, { bookType: exportProfile.fileFormat });
   };
 
   const currencyFormatter = new Intl.NumberFormat('en-ZA', { 
@@ -150,6 +97,9 @@ const JournalManager: React.FC<JournalManagerProps> = ({ assets, categories, loc
           <div>
             <h2 className="text-xl font-black text-slate-800 uppercase tracking-tighter">Consolidated GL Journals</h2>
             <p className="text-xs text-slate-500 font-medium">Aggregated movements by Asset Class for: {selectedMonth}</p>
+            {periodClose && (
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1 flex items-center gap-1"><Lock size={10} /> Closed by {periodClose.closedBy} on {format(new Date(periodClose.closedAt), 'yyyy-MM-dd HH:mm')}</p>
+            )}
           </div>
         </div>
         
@@ -164,6 +114,11 @@ const JournalManager: React.FC<JournalManagerProps> = ({ assets, categories, loc
               <option value="all">ALL JOURNAL TYPES</option>
               <option value="Depreciation">DEPRECIATION ONLY</option>
               <option value="Addition">ADDITIONS ONLY</option>
+              <option value="Disposal">DISPOSALS ONLY</option>
+              <option value="Revaluation">REVALUATIONS ONLY</option>
+              <option value="Impairment">IMPAIRMENTS ONLY</option>
+              <option value="Deferred Tax">DEFERRED TAX ONLY</option>
+              <option value="Adjustment">PRIOR PERIOD ADJUSTMENTS</option>
             </select>
           </div>
 
@@ -180,16 +135,140 @@ const JournalManager: React.FC<JournalManagerProps> = ({ assets, categories, loc
               ))}
             </select>
           </div>
+          {activeRun ? (
+            <button 
+              onClick={() => onSelectRun(activeRun.id)}
+              className="bg-slate-100 text-slate-700 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-slate-200 transition-all"
+            >
+              <History size={16} /> {formatBatchNumber(activeRun)} ({activeRun.status})
+            </button>
+          ) : (
+            <button 
+              onClick={() => onRunDepreciation(selectedMonth, selectedBranch)}
+              className="bg-orange-600 text-white px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-orange-700 transition-all"
+            >
+              <Play size={16} /> Run Depreciation
+            </button>
+          )}
+          {canReopen ? (
+            <button 
+              onClick={() => onReopenPeriod(selectedMonth)}
+              className="bg-slate-100 text-slate-700 px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-slate-200 transition-all"
+            >
+              <Unlock size={16} /> Reopen Period
+            </button>
+          ) : !isClosed && (
+            <button 
+              onClick={() => onClosePeriod(selectedMonth)}
+              className="bg-slate-900 text-white px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-black transition-all"
+            >
+              <Lock size={16} /> Close Period
+            </button>
+          )}
+          <div className="flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200">
+            <select 
+              className="bg-transparent text-[10px] font-black uppercase tracking-widest outline-none cursor-pointer pr-4"
+              value={exportProfile?.id || ''}
+              onChange={(e) => setSelectedProfileId(e.target.value)}
+            >
+              {exportProfiles.map(p => (
+                <option key={p.id} value={p.id}>{p.name.toUpperCase()}</option>
+              ))}
+            </select>
+            <button onClick={() => setShowProfiles(!showProfiles)} className="text-slate-400 hover:text-slate-700" title="Export profiles"><Settings2 size={14} /></button>
+          </div>
           <button 
             onClick={exportJournals}
-            className="bg-[#1e3a5f] text-white px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-blue-900 transition-all shadow-lg shadow-blue-100"
+            disabled={!exportProfile}
+            className="bg-[#1e3a5f] text-white px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-blue-900 transition-all shadow-lg shadow-blue-100 disabled:opacity-50"
           >
-            <Download size={16} /> Export Consolidated
+            <Download size={16} /> Export {exportProfile?.fileFormat.toUpperCase()}
           </button>
         </div>
       </div>
 
+      {showProfiles && (
+        <ExportProfileManager
+          profiles={exportProfiles}
+          branches={branches}
+          selectedProfileId={exportProfile?.id || ''}
+          onSelectProfile={setSelectedProfileId}
+          onUpdate={onUpdateExportProfiles}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+
+      {monthRuns.length > 0 && (
+        <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden no-print">
+          <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2"><History size={14} /> Depreciation Runs: {selectedMonth}</h3>
+          </div>
+          <table className="w-full text-[11px]">
+            <thead className="bg-slate-50 text-slate-500 font-black uppercase text-[9px] tracking-widest">
+              <tr>
+                <th className="px-6 py-3 text-left">Batch</th>
+                <th className="px-6 py-3 text-left">Scope</th>
+                <th className="px-6 py-3 text-left">Status</th>
+                <th className="px-6 py-3 text-left">Run By</th>
+                <th className="px-6 py-3 text-left">Posted / Reversed</th>
+                <th className="px-6 py-3 text-right">Lines</th>
+                <th className="px-6 py-3 text-right"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {monthRuns.map(run => {
+                const reversalOf = runs.find(r => r.id === run.reversalOfId);
+                return (
+                  <tr key={run.id} className={`hover:bg-blue-50/30 transition-colors ${run.id === selectedRunId ? 'bg-blue-50/50' : ''}`}>
+                    <td className="px-6 py-3">
+                      <button onClick={() => onSelectRun(run.id)} className="font-mono font-black text-blue-600 hover:underline">{formatBatchNumber(run)}</button>
+                      {reversalOf && <span className="block text-[9px] text-slate-400 font-bold uppercase">Reverses {formatBatchNumber(reversalOf)}</span>}
+                    </td>
+                    <td className="px-6 py-3 text-slate-600 font-bold uppercase text-[10px]">{run.branchId === 'all' ? 'Consolidated' : locations.find(o => o.id === run.branchId)?.name || 'Unknown'}</td>
+                    <td className="px-6 py-3"><span className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest ${RUN_STATUS_STYLES[run.status]}`}>{run.status}</span></td>
+                    <td className="px-6 py-3 text-slate-500">{run.createdBy} • {format(new Date(run.createdAt), 'yyyy-MM-dd HH:mm')}</td>
+                    <td className="px-6 py-3 text-slate-500">
+                      {run.postedAt && <span className="block">Posted by {run.postedBy} • {format(new Date(run.postedAt), 'yyyy-MM-dd HH:mm')}</span>}
+                      {run.reversedAt && <span className="block">Reversed by {run.reversedBy} • {format(new Date(run.reversedAt), 'yyyy-MM-dd HH:mm')}</span>}
+                    </td>
+                    <td className="px-6 py-3 text-right font-mono text-slate-500">{run.entries.length}</td>
+                    <td className="px-6 py-3 text-right">
+                      <div className="flex justify-end gap-2">
+                        {run.status === 'Draft' && (
+                          <>
+                            <button onClick={() => onPostRun(run.id)} className="px-3 py-1.5 rounded-lg bg-emerald-600 text-white text-[9px] font-black uppercase flex items-center gap-1 hover:bg-emerald-700"><Send size={12} /> Post</button>
+                            <button onClick={() => onRunDepreciation(run.period, run.branchId)} className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 text-[9px] font-black uppercase flex items-center gap-1 hover:bg-slate-200"><Play size={12} /> Re-run</button>
+                          </>
+                        )}
+                        {run.status === 'Posted' && !run.reversalOfId && (
+                          <button onClick={() => onReverseRun(run.id)} className="px-3 py-1.5 rounded-lg bg-red-50 text-red-600 text-[9px] font-black uppercase flex items-center gap-1 hover:bg-red-100"><Undo2 size={12} /> Reverse</button>
+                        )}
+                        {run.status === 'Reversed' && getActiveRuns(runs, run.period, run.branchId).length === 0 && (
+                          <button onClick={() => onRunDepreciation(run.period, run.branchId)} className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 text-[9px] font-black uppercase flex items-center gap-1 hover:bg-slate-200"><Play size={12} /> Re-run</button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="bg-white rounded-2xl border border-slate-200 shadow-xl overflow-hidden">
+        {selectedRun && (
+          <div className="px-6 py-3 bg-blue-50 border-b border-blue-100 flex items-center justify-between">
+            <p className="text-[10px] font-black text-blue-700 uppercase tracking-widest">Viewing batch {formatBatchNumber(selectedRun)} • {selectedRun.period} • {selectedRun.status}</p>
+            <button onClick={() => onSelectRun(undefined)} className="text-[9px] font-black uppercase text-blue-600 flex items-center gap-1 hover:text-blue-800"><X size={12} /> Live Preview</button>
+          </div>
+        )}
+        {unknownAccounts.length > 0 && (
+          <div className="px-6 py-3 bg-red-50 border-b border-red-100">
+            <p className="text-[10px] font-black text-red-700 uppercase tracking-widest flex items-center gap-2"><AlertTriangle size={12} /> {unknownAccounts.length} account(s) not in the chart of accounts</p>
+            <p className="text-[10px] font-mono text-red-600 mt-1">{unknownAccounts.join(', ')}</p>
+          </div>
+        )}
         <div className="overflow-x-auto custom-scrollbar">
           <table className="w-full text-sm">
             <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 font-black uppercase text-[9px] tracking-widest">
@@ -219,13 +298,13 @@ const JournalManager: React.FC<JournalManagerProps> = ({ assets, categories, loc
                     <td className="px-6 py-4 font-mono text-slate-500 text-[11px]">{j.date}</td>
                     <td className="px-6 py-4">
                       <span className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest ${
-                        j.type === 'Depreciation' ? 'bg-orange-50 text-orange-600' : 'bg-emerald-50 text-emerald-600'
+                        j.type === 'Depreciation' ? 'bg-orange-50 text-orange-600' : j.type === 'Revaluation' ? 'bg-violet-50 text-violet-600' : j.type === 'Impairment' ? 'bg-red-50 text-red-600' : j.type === 'Deferred Tax' ? 'bg-yellow-50 text-yellow-700' : j.type === 'Adjustment' ? 'bg-slate-100 text-slate-600' : j.type === 'Disposal' ? 'bg-amber-50 text-amber-700' : 'bg-emerald-50 text-emerald-600'
                       }`}>
                         {j.type}
                       </span>
                     </td>
                     <td className="px-6 py-4">
-                      <span className="font-black text-slate-800 block text-[12px]">{j.accountCode}</span>
+                      <span className={`font-black block text-[12px] ${unknownAccounts.includes(getSegmentedAccount(j)) ? 'text-red-600' : 'text-slate-800'}`}>{getSegmentedAccount(j)}</span>
                       <span className="text-[9px] text-slate-400 font-bold uppercase tracking-tight">{j.accountName}</span>
                     </td>
                     <td className="px-6 py-4">
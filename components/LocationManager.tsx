@@ -2,6 +2,7 @@
 import React, { useState, useMemo } from 'react';
 import { AssetLocation, Asset } from '../types';
 import { Map, Plus, Trash2, Landmark, Building2, Box, ChevronRight, AlertCircle, Save } from 'lucide-react';
+import { createLocationUnit } from '../services/locationService';
 
 interface LocationManagerProps {
   locations: AssetLocation[];
@@ -17,13 +18,7 @@ const LocationManager: React.FC<LocationManagerProps> = ({ locations, onUpdate,
   const branches = useMemo(() => locations.filter(l => l.type === 'Branch'), [locations]);
 
   const addUnit = (type: 'Branch' | 'Location' | 'Sublocation', parentId?: string) => {
-    const newUnit: AssetLocation = {
-      id: Math.random().toString(36).substr(2, 9),
-      name: `New ${type}`,
-      code: `CODE-${Math.floor(Math.random() * 999)}`,
-      type,
-      parentId
-    };
+    const newUnit = createLocationUnit(type, parentId);
     onUpdate([...locations, newUnit]);
     setEditingId(newUnit.id);
     setNewName(newUnit.name);
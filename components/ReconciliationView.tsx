@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { Asset, AssetCategory, AssetLocation, CompanySettings, TrialBalance } from '../types';
+import { parseTrialBalance, reconcileTrialBalance } from '../services/reconciliationService';
+import { format } from 'date-fns';
+import { Scale, FileUp, Download, ChevronRight, ChevronDown, CheckCircle, AlertTriangle } from 'lucide-react';
+import * as XLSX from 'xlsx';
+
+interface ReconciliationViewProps {
+  assets: Asset[];
+  categories: AssetCategory[];
+  locations: AssetLocation[];
+  companySettings: CompanySettings;
+  trialBalance?: TrialBalance;
+  onImportTrialBalance: (trialBalance: TrialBalance) => void;
+  currentUser: string;
+  defaultAsAt: string;
+}
+
+const ReconciliationView: React.FC<ReconciliationViewProps> = ({ assets, categories, locations, companySettings, trialBalance, onImportTrialBalance, currentUser, defaultAsAt }) => {
+  const [asAt, setAsAt] = useState(trialBalance?.asAt || defaultAsAt);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+  const rows = useMemo(() => {
+    return trialBalance ? reconcileTrialBalance(assets, categories, locations, trialBalance, companySettings) : [];
+  }, [assets, categories, locations, trialBalance, companySettings]);
+
+  const totals = useMemo(() => rows.reduce((acc, r) => ({
+    register: acc.register + r.registerBalance,
+    gl: acc.gl + r.glBalance,
+    agreed: acc.agreed + (Math.abs(r.variance) < 0.005 ? 1 : 0)
+  }), { register: 0, gl: 0, agreed: 0 }), [rows]);
+
+  const branchName = (branchId?: string) => branchId ? locations.find(l => l.id === branchId)?.name || 'Unknown' : 'All Branches';
+  const classNames = (categoryIds: string[]) => categoryIds.map(id => categories.find(c => c.id === id)?.name || 'Unknown').join(', ') || '—';
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const wb = XLSX.read(evt.target?.result, { type: 'binary' });
+        const { lines, skipped } = parseTrialBalance(XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]]), locations);
+        if (lines.length === 0) {
+          setStatus({ type: 'error', message: 'No balances found. The file needs an Account column and a Balance (or Debit / Credit) column.' });
+          return;
+        }
+        onImportTrialBalance({ asAt, fileName: file.name, importedAt: new Date().toISOString(), importedBy: currentUser, lines });
+        setStatus({ type: 'success', message: `${lines.length} balance(s) imported as at ${asAt}.${skipped > 0 ? ` ${skipped} row(s) without an account or with an unknown branch were skipped.` : ''}` });
+      } catch (err) {
+        console.error("TB Import Error:", err);
+        setStatus({ type: 'error', message: 'Could not read the trial balance file.' });
+      }
+    };
+    reader.readAsBinaryString(file);
+  };
+
+  const exportWorkingPaper = () => {
+    if (!trialBalance) return;
+    const summary: (string | number)[][] = [
+      ['Fixed Asset Register to General Ledger Reconciliation'],
+      ['As at', trialBalance.asAt],
+      ['Trial balance', trialBalance.fileName, 'Imported by', trialBalance.importedBy, format(new Date(trialBalance.importedAt), 'yyyy-MM-dd HH:mm')],
+      ['Prepared by', currentUser, format(new Date(), 'yyyy-MM-dd HH:mm')],
+      [],
+      ['Account', 'Balance', 'Branch', 'Asset Classes', 'Register', 'General Ledger', 'Variance', 'Status'],
+      ...rows.map(r => [
+        r.accountCode,
+        r.balanceType,
+        branchName(r.branchId),
+        classNames(r.categoryIds),
+        Number(r.registerBalance.toFixed(2)),
+        Number(r.glBalance.toFixed(2)),
+        Number(r.variance.toFixed(2)),
+        Math.abs(r.variance) < 0.005 ? 'Agreed' : 'Variance'
+      ]),
+      ['Total', '', '', '', Number(totals.register.toFixed(2)), Number(totals.gl.toFixed(2)), Number((totals.gl - totals.register).toFixed(2)), '']
+    ];
+    const detail: (string | number)[][] = [
+      ['Account', 'Balance', 'Branch', 'Asset Number', 'Asset Name', 'Asset Class', 'Register Amount'],
+      ...rows.flatMap(r => r.assets.map(line => {
+        const asset = assets.find(a => a.id === line.assetId);
+        return [
+          r.accountCode,
+          r.balanceType,
+          branchName(r.branchId),
+          asset?.assetNumber || '',
+          asset?.name || 'Deleted Asset',
+          categories.find(c => c.id === asset?.categoryId)?.name || '',
+          Number(line.amount.toFixed(2))
+        ];
+      }))
+    ];
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summary), "Reconciliation");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(detail), "Asset Detail");
+    XLSX.writeFile(wb, `GL_Reconciliation_${trialBalance.asAt}.xlsx`);
+  };
+
+  const currencyFormatter = new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm flex flex-col xl:flex-row justify-between items-start xl:items-center gap-6">
+        <div className="flex items-center gap-6">
+          <div className="bg-blue-50 p-3 rounded-xl text-blue-600">
+            <Scale size={24} />
+          </div>
+          <div>
+            <h2 className="text-xl font-black text-slate-800 uppercase tracking-tighter">GL Reconciliation</h2>
+            <p className="text-xs text-slate-500 font-medium">Register closing cost and accumulated depreciation against trial balance accounts</p>
+            {trialBalance && (
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-1">{trialBalance.fileName} • As at {trialBalance.asAt} • Imported by {trialBalance.importedBy} on {format(new Date(trialBalance.importedAt), 'yyyy-MM-dd HH:mm')}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200">
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">TB As At</span>
+            <input type="date" value={asAt} onChange={(e) => setAsAt(e.target.value)} className="bg-transparent text-[10px] font-bold text-slate-600 outline-none uppercase" />
+          </div>
+          <label className="bg-slate-900 text-white px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-black transition-all cursor-pointer">
+            <FileUp size={16} /> Import TB
+            <input type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleFileUpload} />
+          </label>
+          <button
+            onClick={exportWorkingPaper}
+            disabled={!trialBalance}
+            className="bg-[#1e3a5f] text-white px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 hover:bg-blue-900 transition-all shadow-lg shadow-blue-100 disabled:opacity-50"
+          >
+            <Download size={16} /> Working Paper
+          </button>
+        </div>
+      </div>
+
+      {status && (
+        <div className={`p-4 rounded-xl text-xs font-bold flex items-center gap-2 ${status.type === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+          {status.type === 'success' ? <CheckCircle size={16} /> : <AlertTriangle size={16} />} {status.message}
+        </div>
+      )}
+
+      {trialBalance && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Register', value: currencyFormatter.format(totals.register), tone: 'text-slate-800' },
+            { label: 'General Ledger', value: currencyFormatter.format(totals.gl), tone: 'text-slate-800' },
+            { label: 'Net Variance', value: currencyFormatter.format(totals.gl - totals.register), tone: Math.abs(totals.gl - totals.register) < 0.005 ? 'text-emerald-600' : 'text-red-600' },
+            { label: 'Accounts Agreed', value: `${totals.agreed} / ${rows.length}`, tone: totals.agreed === rows.length ? 'text-emerald-600' : 'text-amber-600' }
+          ].map(tile => (
+            <div key={tile.label} className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm">
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{tile.label}</p>
+              <p className={`text-lg font-black font-mono mt-1 ${tile.tone}`}>{tile.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-xl overflow-hidden">
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200 text-slate-500 font-black uppercase text-[9px] tracking-widest">
+              <tr>
+                <th className="px-6 py-5 text-left">Account</th>
+                <th className="px-6 py-5 text-left">Branch</th>
+                <th className="px-6 py-5 text-left">Asset Classes</th>
+                <th className="px-6 py-5 text-right">Register</th>
+                <th className="px-6 py-5 text-right">General Ledger</th>
+                <th className="px-6 py-5 text-right">Variance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-24 text-center">
+                    <div className="flex flex-col items-center gap-4 text-slate-300">
+                      <Scale size={64} strokeWidth={1} />
+                      <p className="font-black uppercase tracking-widest text-[10px]">{trialBalance ? 'No register accounts found in this trial balance' : 'Import a trial balance to reconcile'}</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : rows.map(r => {
+                const key = `${r.accountCode}|${r.branchId || ''}`;
+                const isExpanded = expandedKey === key;
+                const isAgreed = Math.abs(r.variance) < 0.005;
+                return (
+                  <React.Fragment key={key}>
+                    <tr onClick={() => setExpandedKey(isExpanded ? null : key)} className="hover:bg-blue-50/30 transition-colors cursor-pointer">
+                      <td className="px-6 py-4">
+                        <span className="font-black text-slate-800 text-[12px] flex items-center gap-1">{isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />} {r.accountCode}</span>
+                        <span className="text-[9px] text-slate-400 font-bold uppercase tracking-tight ml-4">{r.balanceType}</span>
+                      </td>
+                      <td className="px-6 py-4 text-[10px] font-black text-slate-500 uppercase">{branchName(r.branchId)}</td>
+                      <td className="px-6 py-4 text-[11px] text-slate-600">{classNames(r.categoryIds)}</td>
+                      <td className="px-6 py-4 text-right font-mono text-slate-700">{currencyFormatter.format(r.registerBalance)}</td>
+                      <td className="px-6 py-4 text-right font-mono text-slate-700">{currencyFormatter.format(r.glBalance)}</td>
+                      <td className={`px-6 py-4 text-right font-mono font-black ${isAgreed ? 'text-emerald-600' : 'text-red-600'}`}>{isAgreed ? 'Agreed' : currencyFormatter.format(r.variance)}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-slate-50/60">
+                        <td colSpan={6} className="px-12 py-4">
+                          {r.assets.length === 0 ? (
+                            <p className="text-[10px] text-slate-400 font-bold uppercase">No register assets post to this account{r.branchId ? ' for this branch' : ''}.</p>
+                          ) : (
+                            <table className="w-full text-[11px]">
+                              <thead className="text-slate-400 font-black uppercase text-[9px] tracking-widest">
+                                <tr>
+                                  <th className="py-2 text-left">Asset No.</th>
+                                  <th className="py-2 text-left">Name</th>
+                                  <th className="py-2 text-left">Branch</th>
+                                  <th className="py-2 text-right">Register Amount</th>
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y divide-slate-100">
+                                {r.assets.map(line => {
+                                  const asset = assets.find(a => a.id === line.assetId);
+                                  return (
+                                    <tr key={line.assetId}>
+                                      <td className="py-2 font-mono text-blue-600 font-bold">{asset?.assetNumber}</td>
+                                      <td className="py-2 text-slate-600">{asset?.name || 'Deleted Asset'}</td>
+                                      <td className="py-2 text-slate-500">{branchName(asset?.branchId)}</td>
+                                      <td className="py-2 text-right font-mono text-slate-700">{currencyFormatter.format(line.amount)}</td>
+                                    </tr>
+                                  );
+                                })}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+            {rows.length > 0 && (
+              <tfoot className="bg-slate-900 text-white font-black text-[11px] uppercase tracking-widest">
+                <tr>
+                  <td colSpan={3} className="px-6 py-4 text-right">Totals</td>
+                  <td className="px-6 py-4 text-right font-mono">{currencyFormatter.format(totals.register)}</td>
+                  <td className="px-6 py-4 text-right font-mono">{currencyFormatter.format(totals.gl)}</td>
+                  <td className="px-6 py-4 text-right font-mono">{currencyFormatter.format(totals.gl - totals.register)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReconciliationView;
@@ -1,23 +1,56 @@
 import React, { useMemo, useState } from 'react';
-import { Asset, AssetCategory, AssetLocation, DepreciationCalculation } from '../types';
-import { calculateDepreciation } from '../services/assetService';
+import { Asset, AssetCategory, AssetLocation, CgtValuationMethod, CompanySettings, DeferredTaxLine, DepreciationCalculation, DepreciationMethod, PPENoteYear } from '../types';
+import { calculateDepreciation, describeDepreciationPolicy } from '../services/assetService';
+import { calculateDeferredTax } from '../services/deferredTaxService';
+import { buildPPENote, PPE_NOTE_LINES } from '../services/ppeNoteService';
+import { CGT_VALUATION_DATE } from '../constants';
 import { isValid, format } from 'date-fns';
 import { Printer, FileSpreadsheet, FileBarChart, ReceiptText, FileDown, CheckSquare, Square, LayoutList, ListTree, Filter } from 'lucide-react';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
 
+interface MovementTotals {
+  openingCost: number;
+  additions: number;
+  revalImp: number;
+  disposals: number;
+  closingCost: number;
+  openingDepr: number;
+  periodicDepr: number;
+  disposalDepr: number;
+  revalDepr: number;
+  closingDepr: number;
+  carryingValue: number;
+  unitsConsumed: number;
+}
+
+interface DeferredTaxTotals {
+  openingDeferredTax: number;
+  closingCarryingAmount: number;
+  closingTaxBase: number;
+  closingTemporaryDifference: number;
+  movementPL: number;
+  movementOCI: number;
+  closingDeferredTax: number;
+}
+
+const EMPTY_DEFERRED_TOTALS: DeferredTaxTotals = {
+  openingDeferredTax: 0, closingCarryingAmount: 0, closingTaxBase: 0, closingTemporaryDifference: 0, movementPL: 0, movementOCI: 0, closingDeferredTax: 0
+};
+
 interface ReportingSuiteProps {
   assets: Asset[];
   categories: AssetCategory[];
   locations: AssetLocation[];
   startDate: string;
   endDate: string;
+  companySettings: CompanySettings;
 }
 
-const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, locations, startDate, endDate }) => {
+const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, locations, startDate, endDate, companySettings }) => {
   const [selectedBranch, setSelectedBranch] = useState<string>('all');
-  const [activeView, setActiveView] = useState<'ifrs' | 'sars'>('ifrs');
+  const [activeView, setActiveView] = useState<'ifrs' | 'sars' | 'deferred' | 'ppe'>('ifrs');
   const [reportMode, setReportMode] = useState<'detailed' | 'summary'>('detailed');
   const [visibleCategoryIds, setVisibleCategoryIds] = useState<string[]>(categories.map(c => c.id));
   
@@ -36,25 +69,70 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
     return sorted[0].acquisitionDate;
   };
 
+  // SARS allowances start when the first component is brought into use
+  const getInUseDate = (asset: Asset) => {
+    const dates = (asset.components || []).map(c => c.broughtIntoUseDate || c.acquisitionDate).sort();
+    return dates.length > 0 ? dates[0] : 'N/A';
+  };
+
+  const getConditionLabel = (asset: Asset) => {
+    const used = (asset.components || []).filter(c => c.isSecondHand).length;
+    if (used === 0) return 'New';
+    return used === asset.components.length ? 'Used' : 'Mixed';
+  };
+
+  const getMethodLabel = (calc: DepreciationCalculation) => {
+    const labels = Array.from(new Set((calc.components || []).map(c => describeDepreciationPolicy(c.depreciationMethod, c.depreciationRate))));
+    return labels.length > 0 ? labels.join(', ') : '-';
+  };
+
+  // Net cost movement from revaluations, impairment losses and impairment reversals
+  const getRevImp = (calc: DepreciationCalculation) => (calc.revaluations || 0) - (calc.impairments || 0) + (calc.impairmentReversals || 0);
+
+  const getCategoryMethodLabel = (cat?: AssetCategory) => {
+    if (!cat) return '-';
+    const method = cat.depreciationMethod || DepreciationMethod.STRAIGHT_LINE;
+    if (method === DepreciationMethod.REDUCING_BALANCE && !cat.depreciationRate) return `${method} (double-declining)`;
+    return describeDepreciationPolicy(method, cat.depreciationRate || 0);
+  };
+
   const filteredAssets = useMemo(() => {
     let base = selectedBranch === 'all' ? assets : assets.filter(a => a.branchId === selectedBranch);
     return base.filter(a => visibleCategoryIds.includes(a.categoryId));
   }, [assets, selectedBranch, visibleCategoryIds]);
 
-  const calculations = useMemo(() => {
+  const reportPeriod = useMemo(() => {
     let start = new Date(startDate);
     let end = new Date(endDate);
     if (!isValid(start)) start = new Date(new Date().getFullYear(), 0, 1);
     if (!isValid(end)) end = new Date();
+    return { start, end };
+  }, [startDate, endDate]);
 
+  const calculations = useMemo(() => {
     return filteredAssets.map(a => {
-      const calc = calculateDepreciation(a, start, end, categories);
+      const calc = calculateDepreciation(a, reportPeriod.start, reportPeriod.end, categories, companySettings);
       return { ...calc, assetId: a.id };
     });
-  }, [filteredAssets, startDate, endDate, categories]);
+  }, [filteredAssets, reportPeriod, categories, companySettings]);
 
   const hasRevImp = useMemo(() => {
-    return calculations.some(c => (c.revaluations || 0) !== 0 || (c.impairments || 0) !== 0);
+    return calculations.some(c => (c.revaluations || 0) !== 0 || (c.impairments || 0) !== 0 || (c.impairmentReversals || 0) !== 0);
+  }, [calculations]);
+
+  const hasUnits = useMemo(() => {
+    return calculations.some(c => (c.components || []).some(comp => comp.depreciationMethod === DepreciationMethod.UNITS_OF_PRODUCTION));
+  }, [calculations]);
+
+  // Detailed view carries Tag ID, Acq Date, the in-use date and condition (SARS only) and the depreciation method and units consumed (IFRS only)
+  const showUnits = activeView === 'ifrs' && hasUnits;
+  const detailCols = 3 + (activeView === 'ifrs' ? 1 : 0) + (activeView === 'sars' ? 2 : 0) + (showUnits ? 1 : 0);
+  // Accumulated depreciation eliminated on revaluation only exists on the IFRS basis
+  const showRevalElim = activeView === 'ifrs' && hasRevImp;
+  const valueCols = showRevalElim ? 11 : 10;
+
+  const hasRevaluationSurplus = useMemo(() => {
+    return calculations.some(c => c.openingRevaluationSurplus !== 0 || c.closingRevaluationSurplus !== 0 || c.revaluationSurplusTransfer !== 0 || c.revaluationGainPL !== 0 || c.revaluationLossPL !== 0 || c.impairmentLossOCI !== 0 || c.impairmentReversalOCI !== 0);
   }, [calculations]);
 
   const groupedCalculations = useMemo(() => {
@@ -80,33 +158,34 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
   }, [calculations, assets]);
 
   const groupTotals = useMemo(() => {
-    const totals: Record<string, any> = {};
+    const totals: Record<string, MovementTotals> = {};
     const isSars = activeView === 'sars';
 
     Object.keys(groupedCalculations).forEach(catId => {
       const items = groupedCalculations[catId] as DepreciationCalculation[];
-      // Fix: Add explicit types for acc and curr to avoid unknown property errors
-      totals[catId] = items.reduce((acc: any, curr: DepreciationCalculation) => ({
+      totals[catId] = items.reduce((acc: MovementTotals, curr: DepreciationCalculation) => ({
         openingCost: acc.openingCost + curr.openingCost,
         additions: acc.additions + curr.additions,
-        revalImp: acc.revalImp + (curr.revaluations || 0) - (curr.impairments || 0),
+        revalImp: acc.revalImp + getRevImp(curr),
         disposals: acc.disposals + curr.disposals,
         closingCost: acc.closingCost + curr.closingCost,
         openingDepr: acc.openingDepr + (isSars ? curr.openingAccumulatedTaxDepr : curr.openingAccumulatedDepr),
         periodicDepr: acc.periodicDepr + (isSars ? curr.taxDeductionForPeriod : curr.periodicDepr),
         disposalDepr: acc.disposalDepr + (isSars ? curr.taxDeprOnDisposals : curr.accumulatedDeprOnDisposals),
+        revalDepr: acc.revalDepr + (isSars ? 0 : curr.accumulatedDeprOnRevaluations),
         closingDepr: acc.closingDepr + (isSars ? curr.closingAccumulatedTaxDepr : curr.closingAccumulatedDepr),
-        carryingValue: acc.carryingValue + (isSars ? curr.taxValue : curr.nbv)
+        carryingValue: acc.carryingValue + (isSars ? curr.taxValue : curr.nbv),
+        unitsConsumed: acc.unitsConsumed + (curr.unitsConsumed || 0)
       }), {
         openingCost: 0, additions: 0, revalImp: 0, disposals: 0, closingCost: 0,
-        openingDepr: 0, periodicDepr: 0, disposalDepr: 0, closingDepr: 0, carryingValue: 0
+        openingDepr: 0, periodicDepr: 0, disposalDepr: 0, revalDepr: 0, closingDepr: 0, carryingValue: 0, unitsConsumed: 0
       });
     });
     return totals;
   }, [groupedCalculations, activeView]);
 
   const grandTotals = useMemo(() => {
-    return Object.values(groupTotals).reduce((acc, curr) => ({
+    return Object.values(groupTotals).reduce((acc: MovementTotals, curr: MovementTotals) => ({
       openingCost: acc.openingCost + curr.openingCost,
       additions: acc.additions + curr.additions,
       revalImp: acc.revalImp + curr.revalImp,
@@ -115,15 +194,291 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
       openingDepr: acc.openingDepr + curr.openingDepr,
       periodicDepr: acc.periodicDepr + curr.periodicDepr,
       disposalDepr: acc.disposalDepr + curr.disposalDepr,
+      revalDepr: acc.revalDepr + curr.revalDepr,
       closingDepr: acc.closingDepr + curr.closingDepr,
-      carryingValue: acc.carryingValue + curr.carryingValue
+      carryingValue: acc.carryingValue + curr.carryingValue,
+      unitsConsumed: acc.unitsConsumed + curr.unitsConsumed
     }), {
       openingCost: 0, additions: 0, revalImp: 0, disposals: 0, closingCost: 0,
-      openingDepr: 0, periodicDepr: 0, disposalDepr: 0, closingDepr: 0, carryingValue: 0
+      openingDepr: 0, periodicDepr: 0, disposalDepr: 0, revalDepr: 0, closingDepr: 0, carryingValue: 0, unitsConsumed: 0
     });
   }, [groupTotals]);
 
+  // IAS 16 revaluation surplus roll-forward per asset class
+  const surplusRows = useMemo(() => {
+    return Object.keys(groupedCalculations).map(catId => {
+      const items = groupedCalculations[catId] as DepreciationCalculation[];
+      return items.reduce((acc, curr) => ({
+        ...acc,
+        opening: acc.opening + curr.openingRevaluationSurplus,
+        increase: acc.increase + curr.revaluationSurplusIncrease,
+        decrease: acc.decrease + curr.revaluationSurplusDecrease,
+        transfer: acc.transfer + curr.revaluationSurplusTransfer,
+        impairmentOCI: acc.impairmentOCI + curr.impairmentReversalOCI - curr.impairmentLossOCI,
+        closing: acc.closing + curr.closingRevaluationSurplus,
+        gainPL: acc.gainPL + curr.revaluationGainPL,
+        lossPL: acc.lossPL + curr.revaluationLossPL
+      }), { catId, name: categories.find(c => c.id === catId)?.name || 'Unassigned', opening: 0, increase: 0, decrease: 0, transfer: 0, impairmentOCI: 0, closing: 0, gainPL: 0, lossPL: 0 });
+    });
+  }, [groupedCalculations, categories]);
+
+  // IAS 36.126 amounts per asset class
+  const impairmentRows = useMemo(() => {
+    return Object.keys(groupedCalculations).map(catId => {
+      const items = groupedCalculations[catId] as DepreciationCalculation[];
+      return items.reduce((acc, curr) => ({
+        ...acc,
+        lossPL: acc.lossPL + curr.impairmentLossPL,
+        lossOCI: acc.lossOCI + curr.impairmentLossOCI,
+        reversalPL: acc.reversalPL + curr.impairmentReversalPL,
+        reversalOCI: acc.reversalOCI + curr.impairmentReversalOCI
+      }), { catId, name: categories.find(c => c.id === catId)?.name || 'Unassigned', lossPL: 0, lossOCI: 0, reversalPL: 0, reversalOCI: 0 });
+    }).filter(r => r.lossPL !== 0 || r.lossOCI !== 0 || r.reversalPL !== 0 || r.reversalOCI !== 0);
+  }, [groupedCalculations, categories]);
+
+  // IAS 36.130 events and circumstances behind each impairment or reversal in the period
+  const impairmentEvents = useMemo(() => {
+    // Event and period dates are all yyyy-MM-dd so they compare as strings
+    const inPeriod = (date: string) => !!date && date >= startDate && date <= endDate;
+    return filteredAssets.flatMap(asset => (asset.components || []).flatMap(comp => (comp.impairments || []).flatMap(imp => [
+      ...(inPeriod(imp.date) ? [{ key: imp.id, date: imp.date, kind: 'Impairment', asset, componentName: comp.name, recoverableAmount: imp.recoverableAmount, reason: imp.reason }] : []),
+      ...(imp.reversal && inPeriod(imp.reversal.date) ? [{ key: `${imp.id}-rev`, date: imp.reversal.date, kind: 'Reversal', asset, componentName: comp.name, recoverableAmount: imp.reversal.recoverableAmount, reason: imp.reversal.reason }] : [])
+    ]))).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }, [filteredAssets, startDate, endDate]);
+
+  // Tax consequences of each component derecognised in the period: recoupment or section 11(o) allowance
+  const sarsDisposals = useMemo(() => {
+    return (Object.values(groupedCalculations).flat() as DepreciationCalculation[]).flatMap(calc => {
+      const asset = assets.find(a => a.id === calc.assetId)!;
+      return (calc.components || []).filter(c => c.disposals > 0).map(c => {
+        const comp = asset.components.find(x => x.id === c.componentId);
+        const proceeds = comp?.disposalProceeds || 0;
+        const taxValue = (comp?.cost || 0) - c.taxDeprOnDisposals;
+        return {
+          key: `${asset.id}-${c.componentId}`,
+          asset,
+          componentName: comp?.name || c.componentId,
+          status: comp?.status,
+          date: comp?.disposalDate || '',
+          proceeds,
+          taxCost: comp?.cost || 0,
+          taxValue,
+          recoupment: c.recoupment || 0,
+          scrappingAllowance: c.scrappingAllowance || 0,
+          acquisitionDate: comp?.acquisitionDate || '',
+          valuationDateMethod: comp && comp.acquisitionDate < CGT_VALUATION_DATE ? (comp.valuationDateMethod || CgtValuationMethod.TIME_APPORTIONMENT) : undefined,
+          cgtProceeds: c.cgtProceeds || 0,
+          cgtBaseCost: c.cgtBaseCost || 0,
+          capitalGain: c.capitalGain || 0,
+          // A loss below tax value with no allowance failed the section 11(o) write-off period test
+          lossDisallowed: taxValue - proceeds > 0.005 && !c.scrappingAllowance
+        };
+      });
+    }).sort((a, b) => a.date.localeCompare(b.date));
+  }, [groupedCalculations, assets]);
+
+  // IAS 12 temporary differences per asset, grouped by class like the movement schedule
+  const deferredGroups = useMemo(() => {
+    const groups: Record<string, DeferredTaxLine[]> = {};
+    Object.keys(groupedCalculations).forEach(catId => {
+      groups[catId] = (groupedCalculations[catId] as DepreciationCalculation[]).map(calc => calculateDeferredTax(calc, reportPeriod.start, reportPeriod.end, companySettings));
+    });
+    return groups;
+  }, [groupedCalculations, reportPeriod, companySettings]);
+
+  const sumDeferred = (lines: DeferredTaxTotals[]): DeferredTaxTotals => lines.reduce((acc, curr) => ({
+    openingDeferredTax: acc.openingDeferredTax + curr.openingDeferredTax,
+    closingCarryingAmount: acc.closingCarryingAmount + curr.closingCarryingAmount,
+    closingTaxBase: acc.closingTaxBase + curr.closingTaxBase,
+    closingTemporaryDifference: acc.closingTemporaryDifference + curr.closingTemporaryDifference,
+    movementPL: acc.movementPL + curr.movementPL,
+    movementOCI: acc.movementOCI + curr.movementOCI,
+    closingDeferredTax: acc.closingDeferredTax + curr.closingDeferredTax
+  }), EMPTY_DEFERRED_TOTALS);
+
+  const deferredTotals = useMemo(() => {
+    const totals: Record<string, DeferredTaxTotals> = {};
+    Object.keys(deferredGroups).forEach(catId => { totals[catId] = sumDeferred(deferredGroups[catId]); });
+    return totals;
+  }, [deferredGroups]);
+
+  const deferredGrandTotals = useMemo(() => sumDeferred(Object.values(deferredTotals)), [deferredTotals]);
+
+  // Positive balances are liabilities (taxable temporary differences), negative balances assets
+  const dtLabel = (amount: number) => Math.abs(amount) < 0.005 ? '-' : amount > 0 ? 'DTL' : 'DTA';
+
+  const exportDeferredToExcel = () => {
+    const data = reportMode === 'summary'
+      ? Object.keys(deferredTotals).map(catId => {
+          const t = deferredTotals[catId];
+          return {
+            'Asset Class': categories.find(c => c.id === catId)?.name,
+            'Carrying Amount': t.closingCarryingAmount,
+            'Tax Base': t.closingTaxBase,
+            'Temporary Difference': t.closingTemporaryDifference,
+            'Opening Deferred Tax': t.openingDeferredTax,
+            'Movement (P&L)': t.movementPL,
+            'Movement (OCI)': t.movementOCI,
+            'Closing Deferred Tax': t.closingDeferredTax,
+            'DTL / DTA': dtLabel(t.closingDeferredTax)
+          };
+        })
+      : (Object.values(deferredGroups).flat() as DeferredTaxLine[]).map(line => {
+          const asset = assets.find(a => a.id === line.assetId)!;
+          return {
+            'Asset Number': asset.assetNumber,
+            'Asset Name': asset.name,
+            'Class': categories.find(c => c.id === asset.categoryId)?.name,
+            'Carrying Amount': line.closingCarryingAmount,
+            'Tax Base': line.closingTaxBase,
+            'Temporary Difference': line.closingTemporaryDifference,
+            'Tax Rate %': line.closingRate,
+            'Opening Deferred Tax': line.openingDeferredTax,
+            'Movement (P&L)': line.movementPL,
+            'Movement (OCI)': line.movementOCI,
+            'Closing Deferred Tax': line.closingDeferredTax,
+            'DTL / DTA': dtLabel(line.closingDeferredTax)
+          };
+        });
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(data), "IAS 12 Deferred Tax");
+    XLSX.writeFile(wb, `Lupo_DEFERRED_TAX_${reportMode}_${format(new Date(), 'yyyyMMdd')}.xlsx`);
+  };
+
+  const exportDeferredToPDF = () => {
+    const doc = new jsPDF('l', 'mm', 'a4');
+    const primaryColor = [180, 83, 9];
+
+    doc.setFontSize(18); doc.text("SHUKU ASSET MANAGEMENT", 14, 15);
+    doc.setFontSize(10); doc.text(`Entity: Lupo Bakery Group • ${reportMode.toUpperCase()} Report • ${startDate} to ${endDate}`, 14, 22);
+    doc.setFontSize(14); doc.setTextColor(primaryColor[0], primaryColor[1], primaryColor[2]);
+    doc.text(`IAS 12 DEFERRED TAX ${reportMode.toUpperCase()} SCHEDULE`, 14, 32);
+
+    const money = (val: number) => ({ content: currencyFormatter.format(val), styles: { halign: 'right' } });
+    const totalCells = (t: DeferredTaxTotals) => [
+      money(t.closingCarryingAmount), money(t.closingTaxBase), money(t.closingTemporaryDifference),
+      ...(reportMode === 'detailed' ? [''] : []),
+      money(t.openingDeferredTax), money(t.movementPL), money(t.movementOCI), money(t.closingDeferredTax), dtLabel(t.closingDeferredTax)
+    ];
+    const headerRow = reportMode === 'summary'
+      ? ['Asset Class', 'Carrying Amt', 'Tax Base', 'Temp Diff', 'Op DT', 'P&L', 'OCI', 'Cl DT', '']
+      : ['Asset Details', 'Carrying Amt', 'Tax Base', 'Temp Diff', 'Rate', 'Op DT', 'P&L', 'OCI', 'Cl DT', ''];
+
+    const tableRows: any[] = [];
+    Object.keys(deferredGroups).forEach(catId => {
+      const cat = categories.find(c => c.id === catId);
+      const t = deferredTotals[catId];
+      if (reportMode === 'detailed') {
+        tableRows.push([{ content: `CLASS: ${cat?.name}`, colSpan: headerRow.length, styles: { fillColor: [241, 245, 249], fontStyle: 'bold' } }]);
+        deferredGroups[catId].forEach(line => {
+          const asset = assets.find(a => a.id === line.assetId)!;
+          tableRows.push([
+            `${asset.name}\n${asset.assetNumber}`,
+            money(line.closingCarryingAmount), money(line.closingTaxBase), money(line.closingTemporaryDifference),
+            { content: `${line.closingRate}%`, styles: { halign: 'center' } },
+            money(line.openingDeferredTax), money(line.movementPL), money(line.movementOCI), money(line.closingDeferredTax), dtLabel(line.closingDeferredTax)
+          ]);
+        });
+        tableRows.push([{ content: `Subtotal: ${cat?.name}`, styles: { halign: 'right', fontStyle: 'bold' } }, ...totalCells(t)]);
+      } else {
+        tableRows.push([{ content: cat?.name, styles: { fontStyle: 'bold' } }, ...totalCells(t)]);
+      }
+    });
+    tableRows.push([{ content: 'GRAND TOTAL', styles: { halign: 'right', fontStyle: 'bold' } }, ...totalCells(deferredGrandTotals)]);
+
+    autoTable(doc, {
+      startY: 38, head: [headerRow], body: tableRows, theme: 'grid',
+      styles: { fontSize: 6.5, cellPadding: 1 },
+      headStyles: { fillColor: primaryColor as any, textColor: [255, 255, 255], halign: 'center', fontSize: 7 },
+      columnStyles: { 0: { cellWidth: 50 } }
+    });
+
+    doc.save(`Lupo_deferred_tax_${reportMode}_Report.pdf`);
+  };
+
+  // IAS 16 note: the financial year to the report end date and the prior year as comparative
+  const ppeNote = useMemo(() => buildPPENote(filteredAssets, categories, reportPeriod.end, companySettings), [filteredAssets, categories, reportPeriod, companySettings]);
+  const ppeCategories = useMemo(() => (ppeNote[0]?.movements || []).map(m => categories.find(c => c.id === m.categoryId)!), [ppeNote, categories]);
+  // Revaluation and impairment lines only appear when either year has such movements
+  const ppeLines = useMemo(() => PPE_NOTE_LINES.filter(l => !l.optional || ppeNote.some(y => Math.abs(y.total[l.key]) >= 0.005)), [ppeNote]);
+  const ppeYearLabel = (year: PPENoteYear) => `${year.isPartial ? 'Period' : 'Year'} ended ${format(year.end, 'd MMMM yyyy')}`;
+  // Financial statement presentation: reductions in brackets, nil as a dash
+  const noteAmount = (value: number) => Math.abs(value) < 0.005 ? '-' : value < 0 ? `(${currencyFormatter.format(-value)})` : currencyFormatter.format(value);
+
+  const exportPPENoteToExcel = () => {
+    const note: (string | number)[][] = [];
+    ppeNote.forEach(year => {
+      note.push([ppeYearLabel(year).toUpperCase()], ['', ...ppeCategories.map(c => c.name), 'Total']);
+      ppeLines.forEach((line, i) => {
+        if (i === 0 || ppeLines[i - 1].section !== line.section) note.push([line.section]);
+        note.push([line.label, ...year.movements.map(m => line.sign * m[line.key]), line.sign * year.total[line.key]]);
+      });
+      note.push([]);
+    });
+    const policies = ppeCategories.map(c => ({
+      'Asset Class': c.name,
+      'Depreciation Method': getCategoryMethodLabel(c),
+      'Useful Life (Years)': c.defaultUsefulLife,
+      'Residual Value %': c.residualPercentage
+    }));
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(note), "IAS 16 PPE Note");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(policies), "Useful Lives & Methods");
+    XLSX.writeFile(wb, `Lupo_PPE_NOTE_${format(new Date(), 'yyyyMMdd')}.xlsx`);
+  };
+
+  const exportPPENoteToPDF = () => {
+    const doc = new jsPDF('l', 'mm', 'a4');
+    const primaryColor = [79, 70, 229];
+
+    doc.setFontSize(18); doc.text("SHUKU ASSET MANAGEMENT", 14, 15);
+    doc.setFontSize(10); doc.text(`Entity: Lupo Bakery Group • ${ppeNote.map(ppeYearLabel).join(' and ')}`, 14, 22);
+    doc.setFontSize(14); doc.setTextColor(primaryColor[0], primaryColor[1], primaryColor[2]);
+    doc.text('PROPERTY, PLANT AND EQUIPMENT (IAS 16)', 14, 32);
+
+    const columnCount = ppeCategories.length + 2;
+    const tableRows: any[] = [];
+    ppeNote.forEach(year => {
+      tableRows.push([{ content: ppeYearLabel(year).toUpperCase(), colSpan: columnCount, styles: { fillColor: [224, 231, 255], fontStyle: 'bold' } }]);
+      ppeLines.forEach((line, i) => {
+        if (i === 0 || ppeLines[i - 1].section !== line.section) {
+          tableRows.push([{ content: line.section, colSpan: columnCount, styles: { fontStyle: 'bold', textColor: [100, 116, 139] } }]);
+        }
+        const style = { halign: 'right', fontStyle: line.isTotal ? 'bold' : 'normal' };
+        tableRows.push([
+          { content: line.label, styles: { fontStyle: line.isTotal ? 'bold' : 'normal' } },
+          ...year.movements.map(m => ({ content: noteAmount(line.sign * m[line.key]), styles: style })),
+          { content: noteAmount(line.sign * year.total[line.key]), styles: { ...style, fontStyle: 'bold' } }
+        ]);
+      });
+    });
+
+    autoTable(doc, {
+      startY: 38, head: [['', ...ppeCategories.map(c => c.name), 'Total']], body: tableRows, theme: 'grid',
+      styles: { fontSize: 6.5, cellPadding: 1 },
+      headStyles: { fillColor: primaryColor as any, textColor: [255, 255, 255], halign: 'center', fontSize: 7 },
+      columnStyles: { 0: { cellWidth: 45 } }
+    });
+
+    doc.addPage();
+    doc.setFontSize(14); doc.setTextColor(primaryColor[0], primaryColor[1], primaryColor[2]);
+    doc.text('USEFUL LIVES AND DEPRECIATION METHODS', 14, 15);
+    autoTable(doc, {
+      startY: 21, head: [['Asset Class', 'Depreciation Method', 'Useful Life', 'Residual Value']],
+      body: ppeCategories.map(c => [c.name, getCategoryMethodLabel(c), `${c.defaultUsefulLife} years`, `${c.residualPercentage}%`]),
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: primaryColor as any, textColor: [255, 255, 255], fontSize: 8 }
+    });
+
+    doc.save(`Lupo_ppe_note_Report.pdf`);
+  };
+
   const exportToExcel = () => {
+    if (activeView === 'ppe') return exportPPENoteToExcel();
+    if (activeView === 'deferred') return exportDeferredToExcel();
     const isSars = activeView === 'sars';
     const term = isSars ? 'W&T' : 'Depr';
     
@@ -134,6 +489,8 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
         const t = groupTotals[catId];
         return {
           'Asset Class': cat?.name,
+          ...(isSars ? {} : { 'Depreciation Method': getCategoryMethodLabel(cat) }),
+          ...(!isSars && hasUnits ? { 'Units Consumed': t.unitsConsumed } : {}),
           'Opening Cost': t.openingCost,
           'Additions': t.additions,
           'Revaluations/Impairments': t.revalImp,
@@ -142,6 +499,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
           [`Opening Accum ${term}`]: t.openingDepr,
           [`${term} Charge`]: t.periodicDepr,
           [`${term} on Disposals`]: t.disposalDepr,
+          ...(showRevalElim ? { 'Depr Eliminated on Revaluation': t.revalDepr } : {}),
           [`Closing Accum ${term}`]: t.closingDepr,
           'Carrying Value': t.carryingValue
         };
@@ -157,14 +515,17 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
           'Tag ID': asset.tagId,
           'Acq Date': getAcqDate(asset),
           'Class': cat?.name,
+          ...(isSars ? { 'Brought Into Use': getInUseDate(asset), 'Condition': getConditionLabel(asset) } : { 'Depreciation Method': getMethodLabel(calc) }),
+          ...(!isSars && hasUnits ? { 'Units Consumed': calc.unitsConsumed } : {}),
           'Opening Cost': calc.openingCost,
           'Additions': calc.additions,
-          'Revaluations/Impairments': (calc.revaluations || 0) - (calc.impairments || 0),
+          'Revaluations/Impairments': getRevImp(calc),
           'Disposals (Cost)': calc.disposals,
           'Closing Cost': calc.closingCost,
           [`Opening Accum ${term}`]: isSars ? calc.openingAccumulatedTaxDepr : calc.openingAccumulatedDepr,
           [`${term} Charge`]: isSars ? calc.taxDeductionForPeriod : calc.periodicDepr,
           [`${term} on Disposals`]: isSars ? calc.taxDeprOnDisposals : calc.accumulatedDeprOnDisposals,
+          ...(showRevalElim ? { 'Depr Eliminated on Revaluation': calc.accumulatedDeprOnRevaluations } : {}),
           [`Closing Accum ${term}`]: isSars ? calc.closingAccumulatedTaxDepr : calc.closingAccumulatedDepr,
           'Carrying Value': isSars ? calc.taxValue : calc.nbv
         };
@@ -174,10 +535,73 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
     const ws = XLSX.utils.json_to_sheet(data);
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Asset Report");
+    if (isSars && sarsDisposals.length > 0) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sarsDisposals.map(d => ({
+        'Date': d.date,
+        'Asset Number': d.asset.assetNumber,
+        'Asset Name': d.asset.name,
+        'Component': d.componentName,
+        'Status': d.status,
+        'Proceeds': d.proceeds,
+        'Tax Cost': d.taxCost,
+        'Tax Value': d.taxValue,
+        'Recoupment s8(4)(a)': d.recoupment,
+        'Allowance s11(o)': d.scrappingAllowance,
+        'Note': d.lossDisallowed ? 'Loss not deductible: write-off period exceeds 10 years' : ''
+      }))), "SARS Disposals");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sarsDisposals.map(d => ({
+        'Date': d.date,
+        'Asset Number': d.asset.assetNumber,
+        'Asset Name': d.asset.name,
+        'Component': d.componentName,
+        'Acquisition Date': d.acquisitionDate,
+        'Valuation Date Method': d.valuationDateMethod || '',
+        'Proceeds': d.proceeds,
+        'Less Recoupment': d.recoupment,
+        'Capital Proceeds': d.cgtProceeds,
+        'Base Cost': d.cgtBaseCost,
+        'Capital Gain / (Loss)': d.capitalGain
+      }))), "CGT Schedule");
+    }
+    if (!isSars && hasRevaluationSurplus) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(surplusRows.map(r => ({
+        'Asset Class': r.name,
+        'Opening Surplus': r.opening,
+        'Increase (OCI)': r.increase,
+        'Decrease (OCI)': r.decrease,
+        'Transfer to Retained Earnings': r.transfer,
+        'Impairment (OCI)': r.impairmentOCI,
+        'Closing Surplus': r.closing,
+        'Revaluation Gain (P&L)': r.gainPL,
+        'Revaluation Loss (P&L)': r.lossPL
+      }))), "Revaluation Surplus");
+    }
+    if (!isSars && impairmentRows.length > 0) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([
+        ...impairmentRows.map(r => ({
+          'Asset Class': r.name,
+          'Impairment Loss (P&L)': r.lossPL,
+          'Impairment Loss (OCI)': r.lossOCI,
+          'Reversal (P&L)': r.reversalPL,
+          'Reversal (OCI)': r.reversalOCI
+        }))
+      ]), "IAS 36 Impairment");
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(impairmentEvents.map(e => ({
+        'Date': e.date,
+        'Event': e.kind,
+        'Asset Number': e.asset.assetNumber,
+        'Asset Name': e.asset.name,
+        'Component': e.componentName,
+        'Recoverable Amount': e.recoverableAmount,
+        'Reason': e.reason
+      }))), "Impairment Events");
+    }
     XLSX.writeFile(wb, `Lupo_${activeView.toUpperCase()}_${reportMode}_${format(new Date(), 'yyyyMMdd')}.xlsx`);
   };
 
   const exportToPDF = () => {
+    if (activeView === 'ppe') return exportPPENoteToPDF();
+    if (activeView === 'deferred') return exportDeferredToPDF();
     const doc = new jsPDF('l', 'mm', 'a4');
     const primaryColor = activeView === 'ifrs' ? [30, 58, 95] : [5, 150, 105];
     const isSars = activeView === 'sars';
@@ -189,18 +613,21 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
 
     const tableRows: any[] = [];
     const headerRow = reportMode === 'summary' 
-      ? ['Asset Class', 'Op Cost', 'Additions', 'Rev/Imp', 'Disposals', 'Closing Cost', 'Op Accum', 'Charge', 'Disp Accum', 'Cl Accum', 'VALUE']
-      : ['Asset Details', 'Tag ID', 'Acq Date', 'Op Cost', 'Additions', 'Rev/Imp', 'Disposals', 'Closing Cost', 'Op Accum', 'Charge', 'Disp Accum', 'Cl Accum', 'VALUE'];
+      ? ['Asset Class', 'Op Cost', 'Additions', 'Rev/Imp', 'Disposals', 'Closing Cost', 'Op Accum', 'Charge', 'Disp Accum', ...(showRevalElim ? ['Reval Elim'] : []), 'Cl Accum', 'VALUE']
+      : ['Asset Details', 'Tag ID', 'Acq Date', ...(isSars ? ['In Use', 'Cond'] : ['Method']), ...(showUnits ? ['Units'] : []), 'Op Cost', 'Additions', 'Rev/Imp', 'Disposals', 'Closing Cost', 'Op Accum', 'Charge', 'Disp Accum', ...(showRevalElim ? ['Reval Elim'] : []), 'Cl Accum', 'VALUE'];
 
     const colStyles: any = {};
     if (reportMode === 'detailed') {
       colStyles[0] = { cellWidth: 35 };
       colStyles[1] = { halign: 'center', cellWidth: 15 };
       colStyles[2] = { halign: 'center', cellWidth: 15 };
-      for (let i = 3; i <= 12; i++) colStyles[i] = { halign: 'right' };
+      if (!isSars) colStyles[3] = { halign: 'center', cellWidth: 18 };
+      else { colStyles[3] = { halign: 'center', cellWidth: 15 }; colStyles[4] = { halign: 'center', cellWidth: 10 }; }
+      if (showUnits) colStyles[4] = { halign: 'right', cellWidth: 12 };
+      for (let i = detailCols; i < detailCols + valueCols; i++) colStyles[i] = { halign: 'right' };
     } else {
       colStyles[0] = { cellWidth: 45 };
-      for (let i = 1; i <= 10; i++) colStyles[i] = { halign: 'right' };
+      for (let i = 1; i <= valueCols; i++) colStyles[i] = { halign: 'right' };
     }
 
     Object.keys(groupedCalculations).forEach(catId => {
@@ -209,27 +636,30 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
       const t = groupTotals[catId];
 
       if (reportMode === 'detailed') {
-        tableRows.push([{ content: `CLASS: ${cat?.name}`, colSpan: 13, styles: { fillColor: [240, 240, 240], fontStyle: 'bold' } }]);
+        tableRows.push([{ content: `CLASS: ${cat?.name}`, colSpan: detailCols + valueCols, styles: { fillColor: [240, 240, 240], fontStyle: 'bold' } }]);
         items.forEach(calc => {
           const asset = assets.find(a => a.id === calc.assetId)!;
           tableRows.push([
             `${asset.name}\n(${asset.assetNumber})`,
             asset.tagId || '-',
             getAcqDate(asset),
+            ...(isSars ? [getInUseDate(asset), getConditionLabel(asset)] : [getMethodLabel(calc)]),
+            ...(showUnits ? [calc.unitsConsumed ? calc.unitsConsumed.toLocaleString('en-ZA') : '-'] : []),
             currencyFormatter.format(calc.openingCost),
             currencyFormatter.format(calc.additions),
-            currencyFormatter.format((calc.revaluations || 0) - (calc.impairments || 0)),
+            currencyFormatter.format(getRevImp(calc)),
             currencyFormatter.format(calc.disposals),
             currencyFormatter.format(calc.closingCost),
             currencyFormatter.format(isSars ? calc.openingAccumulatedTaxDepr : calc.openingAccumulatedDepr),
             currencyFormatter.format(isSars ? calc.taxDeductionForPeriod : calc.periodicDepr),
             currencyFormatter.format(isSars ? calc.taxDeprOnDisposals : calc.accumulatedDeprOnDisposals),
+            ...(showRevalElim ? [currencyFormatter.format(calc.accumulatedDeprOnRevaluations)] : []),
             currencyFormatter.format(isSars ? calc.closingAccumulatedTaxDepr : calc.closingAccumulatedDepr),
             currencyFormatter.format(isSars ? calc.taxValue : calc.nbv)
           ]);
         });
         tableRows.push([
-          { content: `Subtotal: ${cat?.name}`, colSpan: 3, styles: { halign: 'right', fontStyle: 'bold' } },
+          { content: `Subtotal: ${cat?.name}`, colSpan: detailCols, styles: { halign: 'right', fontStyle: 'bold' } },
           { content: currencyFormatter.format(t.openingCost), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.additions), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.revalImp), styles: { halign: 'right' } },
@@ -238,6 +668,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
           { content: currencyFormatter.format(t.openingDepr), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.periodicDepr), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.disposalDepr), styles: { halign: 'right' } },
+          ...(showRevalElim ? [{ content: currencyFormatter.format(t.revalDepr), styles: { halign: 'right' } }] : []),
           { content: currencyFormatter.format(t.closingDepr), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.carryingValue), styles: { fontStyle: 'bold', halign: 'right' } }
         ]);
@@ -252,6 +683,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
           { content: currencyFormatter.format(t.openingDepr), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.periodicDepr), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.disposalDepr), styles: { halign: 'right' } },
+          ...(showRevalElim ? [{ content: currencyFormatter.format(t.revalDepr), styles: { halign: 'right' } }] : []),
           { content: currencyFormatter.format(t.closingDepr), styles: { halign: 'right' } },
           { content: currencyFormatter.format(t.carryingValue), styles: { fontStyle: 'bold', halign: 'right' } }
         ]);
@@ -259,8 +691,8 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
     });
 
     const grandRow = [
-      { content: 'GRAND TOTAL', colSpan: reportMode === 'summary' ? 1 : 3, styles: { halign: 'right', fontStyle: 'bold', fillColor: [15, 23, 42], textColor: [255, 255, 255] } },
-      ...[grandTotals.openingCost, grandTotals.additions, grandTotals.revalImp, grandTotals.disposals, grandTotals.closingCost, grandTotals.openingDepr, grandTotals.periodicDepr, grandTotals.disposalDepr, grandTotals.closingDepr, grandTotals.carryingValue].map(val => ({ content: currencyFormatter.format(val), styles: { fillColor: [15, 23, 42], textColor: [255, 255, 255], fontStyle: 'bold', halign: 'right' } }))
+      { content: 'GRAND TOTAL', colSpan: reportMode === 'summary' ? 1 : detailCols, styles: { halign: 'right', fontStyle: 'bold', fillColor: [15, 23, 42], textColor: [255, 255, 255] } },
+      ...[grandTotals.openingCost, grandTotals.additions, grandTotals.revalImp, grandTotals.disposals, grandTotals.closingCost, grandTotals.openingDepr, grandTotals.periodicDepr, grandTotals.disposalDepr, ...(showRevalElim ? [grandTotals.revalDepr] : []), grandTotals.closingDepr, grandTotals.carryingValue].map(val => ({ content: currencyFormatter.format(val), styles: { fillColor: [15, 23, 42], textColor: [255, 255, 255], fontStyle: 'bold', halign: 'right' } }))
     ];
     tableRows.push(grandRow);
 
@@ -286,6 +718,8 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
             <div className="flex bg-slate-100 p-1 rounded-xl shadow-inner">
               <button onClick={() => setActiveView('ifrs')} className={`px-6 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeView === 'ifrs' ? 'bg-[#1e3a5f] text-white shadow-lg' : 'text-slate-500 hover:text-slate-800'}`}>IFRS Basis</button>
               <button onClick={() => setActiveView('sars')} className={`px-6 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeView === 'sars' ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-800'}`}>SARS Basis</button>
+              <button onClick={() => setActiveView('deferred')} className={`px-6 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeView === 'deferred' ? 'bg-amber-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-800'}`}>IAS 12 Deferred Tax</button>
+              <button onClick={() => setActiveView('ppe')} className={`px-6 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all ${activeView === 'ppe' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-800'}`}>IAS 16 PPE Note</button>
             </div>
             <div className="flex bg-slate-100 p-1 rounded-xl shadow-inner">
               <button onClick={() => setReportMode('detailed')} className={`px-4 py-2 rounded-lg text-xs font-black uppercase tracking-widest transition-all flex items-center gap-2 ${reportMode === 'detailed' ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-500'}`}><ListTree size={14}/> Detailed</button>
@@ -323,30 +757,151 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
       </div>
 
       <section id="report-content" className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden print:border-none print:shadow-none">
-        <div className={`p-8 ${activeView === 'ifrs' ? 'bg-[#1e3a5f]' : 'bg-emerald-800'} text-white flex justify-between items-center`}>
+        <div className={`p-8 ${activeView === 'ifrs' ? 'bg-[#1e3a5f]' : activeView === 'sars' ? 'bg-emerald-800' : activeView === 'ppe' ? 'bg-indigo-700' : 'bg-amber-700'} text-white flex justify-between items-center`}>
           <div>
             <h2 className="text-2xl font-black uppercase tracking-tighter flex items-center gap-3">
               {reportMode === 'summary' ? <LayoutList size={28} /> : <FileBarChart size={28} />}
-              {activeView === 'ifrs' ? 'IAS 16 Asset Movement' : 'SARS Tax Allowance Schedule'} ({reportMode})
+              {activeView === 'ppe' ? 'Property, Plant and Equipment (IAS 16)' : `${activeView === 'ifrs' ? 'IAS 16 Asset Movement' : activeView === 'sars' ? 'SARS Tax Allowance Schedule' : 'IAS 12 Deferred Tax Schedule'} (${reportMode})`}
             </h2>
-            <p className="text-sm opacity-70">Lupo Bakery Group • {startDate} to {endDate}</p>
+            <p className="text-sm opacity-70">Lupo Bakery Group • {activeView === 'ppe' ? ppeNote.map(ppeYearLabel).join(' and ') : `${startDate} to ${endDate}`}</p>
           </div>
         </div>
 
+        {activeView === 'ppe' ? (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-[10px] text-left border-collapse">
+            <thead className="bg-slate-50 text-slate-500 font-black text-[8px] uppercase border-b border-slate-200">
+              <tr className="divide-x divide-slate-200">
+                <th className="px-4 py-4 sticky left-0 z-10 bg-white min-w-[200px]"></th>
+                {ppeCategories.map(c => <th key={c.id} className="px-2 py-4 text-right">{c.name}</th>)}
+                <th className="px-4 py-4 text-right bg-slate-900 text-white min-w-[120px]">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {ppeCategories.length === 0 ? (
+                <tr><td colSpan={2} className="px-4 py-24 text-center text-slate-300 font-bold uppercase tracking-widest">No assets selected for display</td></tr>
+              ) : ppeNote.map(year => (
+                <React.Fragment key={year.end.toISOString()}>
+                  <tr className="bg-indigo-50 border-y border-indigo-100"><td colSpan={ppeCategories.length + 2} className="px-4 py-2 font-black text-[9px] text-indigo-700 uppercase tracking-widest border-l-4 border-indigo-500">{ppeYearLabel(year)}</td></tr>
+                  {ppeLines.map((line, i) => (
+                    <React.Fragment key={line.key}>
+                      {(i === 0 || ppeLines[i - 1].section !== line.section) && (
+                        <tr><td colSpan={ppeCategories.length + 2} className="px-4 pt-3 pb-1 font-black text-[8px] text-slate-400 uppercase tracking-widest">{line.section}</td></tr>
+                      )}
+                      <tr className={`divide-x divide-slate-100 ${line.isTotal ? 'font-black bg-slate-50 border-t border-slate-300' : 'hover:bg-slate-50'}`}>
+                        <td className="px-4 py-2 sticky left-0 z-10 bg-white text-slate-700">{line.label}</td>
+                        {year.movements.map(m => <td key={m.categoryId} className="px-2 py-2 text-right font-mono">{noteAmount(line.sign * m[line.key])}</td>)}
+                        <td className="px-4 py-2 text-right font-mono font-black bg-slate-100">{noteAmount(line.sign * year.total[line.key])}</td>
+                      </tr>
+                    </React.Fragment>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        ) : activeView === 'deferred' ? (
         <div className="overflow-x-auto custom-scrollbar">
           <table className="w-full text-[10px] text-left border-collapse">
             <thead className="bg-slate-50 text-slate-500 font-black text-[8px] uppercase border-b border-slate-200">
               <tr className="divide-x divide-slate-200">
-                <th colSpan={reportMode === 'detailed' ? 3 : 1} className="px-4 py-2 border-b border-slate-200"></th>
+                <th className="px-4 py-4 sticky left-0 z-10 bg-white">{reportMode === 'summary' ? 'Asset Class' : 'Asset Details'}</th>
+                <th className="px-2 py-4 text-center">Carrying Amount</th>
+                <th className="px-2 py-4 text-center">Tax Base</th>
+                <th className="px-2 py-4 text-center">Temporary Diff</th>
+                {reportMode === 'detailed' && <th className="px-2 py-4 text-center">Rate</th>}
+                <th className="px-2 py-4 text-center">Opening DT</th>
+                <th className="px-2 py-4 text-center">Movement (P&amp;L)</th>
+                <th className="px-2 py-4 text-center">Movement (OCI)</th>
+                <th className="px-4 py-4 text-right bg-slate-900 text-white min-w-[120px]">Closing DT</th>
+                <th className="px-2 py-4 text-center"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {Object.keys(deferredGroups).length === 0 ? (
+                <tr><td colSpan={10} className="px-4 py-24 text-center text-slate-300 font-bold uppercase tracking-widest">No assets selected for display</td></tr>
+              ) : (
+                <>
+                  {Object.keys(deferredGroups).map(catId => {
+                    const category = categories.find(c => c.id === catId);
+                    const t = deferredTotals[catId];
+                    return (
+                      <React.Fragment key={catId}>
+                        {reportMode === 'detailed' && (
+                          <>
+                            <tr className="bg-slate-50 border-y border-slate-200"><td colSpan={10} className="px-4 py-2 font-black text-[9px] text-slate-400 uppercase tracking-widest border-l-4 border-amber-500">Class: {category?.name}</td></tr>
+                            {deferredGroups[catId].map(line => {
+                              const asset = assets.find(a => a.id === line.assetId)!;
+                              return (
+                                <tr key={line.assetId} className="hover:bg-slate-50 divide-x divide-slate-100 transition-colors">
+                                  <td className="px-4 py-3 sticky left-0 z-10 bg-white font-bold text-slate-800">
+                                    <span className="block truncate max-w-[150px]">{asset.name}</span>
+                                    <span className="block text-[8px] text-slate-400 font-mono tracking-tighter">{asset.assetNumber}</span>
+                                  </td>
+                                  <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(line.closingCarryingAmount)}</td>
+                                  <td className="px-2 py-3 text-right font-mono text-emerald-700">{currencyFormatter.format(line.closingTaxBase)}</td>
+                                  <td className="px-2 py-3 text-right font-black font-mono">{currencyFormatter.format(line.closingTemporaryDifference)}</td>
+                                  <td className="px-2 py-3 text-center text-slate-500 font-mono">{line.closingRate}%</td>
+                                  <td className="px-2 py-3 text-right text-slate-400 font-mono">{currencyFormatter.format(line.openingDeferredTax)}</td>
+                                  <td className="px-2 py-3 text-right text-blue-600 font-mono">{currencyFormatter.format(line.movementPL)}</td>
+                                  <td className="px-2 py-3 text-right text-amber-600 font-mono">{currencyFormatter.format(line.movementOCI)}</td>
+                                  <td className="px-4 py-3 text-right bg-slate-50 font-black font-mono">{currencyFormatter.format(line.closingDeferredTax)}</td>
+                                  <td className="px-2 py-3 text-center text-[8px] font-black text-slate-400">{dtLabel(line.closingDeferredTax)}</td>
+                                </tr>
+                              );
+                            })}
+                          </>
+                        )}
+                        <tr className={`${reportMode === 'summary' ? 'hover:bg-slate-50' : 'bg-slate-100/50'} font-black divide-x divide-slate-200 border-t border-slate-200`}>
+                          <td className="px-4 py-3 text-left uppercase tracking-widest text-[8px] text-slate-500">
+                            {reportMode === 'summary' ? category?.name : `Subtotal: ${category?.name}`}
+                          </td>
+                          <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(t.closingCarryingAmount)}</td>
+                          <td className="px-2 py-3 text-right font-mono text-emerald-700">{currencyFormatter.format(t.closingTaxBase)}</td>
+                          <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(t.closingTemporaryDifference)}</td>
+                          {reportMode === 'detailed' && <td></td>}
+                          <td className="px-2 py-3 text-right font-mono text-slate-500">{currencyFormatter.format(t.openingDeferredTax)}</td>
+                          <td className="px-2 py-3 text-right font-mono text-blue-600">{currencyFormatter.format(t.movementPL)}</td>
+                          <td className="px-2 py-3 text-right font-mono text-amber-600">{currencyFormatter.format(t.movementOCI)}</td>
+                          <td className="px-4 py-3 text-right bg-slate-200/50 font-mono">{currencyFormatter.format(t.closingDeferredTax)}</td>
+                          <td className="px-2 py-3 text-center text-[8px] text-slate-500">{dtLabel(t.closingDeferredTax)}</td>
+                        </tr>
+                      </React.Fragment>
+                    );
+                  })}
+
+                  <tr className="bg-slate-900 text-white font-black divide-x divide-slate-800 border-t-2 border-slate-900">
+                    <td className="px-4 py-5 text-right uppercase tracking-widest text-[10px]">GRAND TOTAL (CONSOLIDATED)</td>
+                    <td className="px-2 py-5 text-right font-mono">{currencyFormatter.format(deferredGrandTotals.closingCarryingAmount)}</td>
+                    <td className="px-2 py-5 text-right font-mono text-emerald-300">{currencyFormatter.format(deferredGrandTotals.closingTaxBase)}</td>
+                    <td className="px-2 py-5 text-right font-mono">{currencyFormatter.format(deferredGrandTotals.closingTemporaryDifference)}</td>
+                    {reportMode === 'detailed' && <td></td>}
+                    <td className="px-2 py-5 text-right font-mono opacity-70">{currencyFormatter.format(deferredGrandTotals.openingDeferredTax)}</td>
+                    <td className="px-2 py-5 text-right font-mono text-blue-300">{currencyFormatter.format(deferredGrandTotals.movementPL)}</td>
+                    <td className="px-2 py-5 text-right font-mono text-amber-300">{currencyFormatter.format(deferredGrandTotals.movementOCI)}</td>
+                    <td className="px-4 py-5 text-right bg-black/30 font-mono text-lg">{currencyFormatter.format(deferredGrandTotals.closingDeferredTax)}</td>
+                    <td className="px-2 py-5 text-center text-[10px]">{dtLabel(deferredGrandTotals.closingDeferredTax)}</td>
+                  </tr>
+                </>
+              )}
+            </tbody>
+          </table>
+        </div>
+        ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-[10px] text-left border-collapse">
+            <thead className="bg-slate-50 text-slate-500 font-black text-[8px] uppercase border-b border-slate-200">
+              <tr className="divide-x divide-slate-200">
+                <th colSpan={reportMode === 'detailed' ? detailCols : 1} className="px-4 py-2 border-b border-slate-200"></th>
                 <th colSpan={hasRevImp ? 5 : 4} className="px-2 py-2 text-center bg-slate-100 border-b border-slate-200">Cost Analysis Basis</th>
-                <th colSpan={4} className="px-2 py-2 text-center bg-slate-200/50 border-b border-slate-200">
+                <th colSpan={showRevalElim ? 5 : 4} className="px-2 py-2 text-center bg-slate-200/50 border-b border-slate-200">
                   {activeView === 'ifrs' ? 'Accumulated Depreciation Movement' : 'Accumulated Tax Wear & Tear'}
                 </th>
                 <th className="px-4 py-2 border-b border-slate-200"></th>
               </tr>
               <tr className="divide-x divide-slate-200">
                 <th className="px-4 py-4 sticky left-0 z-10 bg-white">{reportMode === 'summary' ? 'Asset Class' : 'Asset Details'}</th>
-                {reportMode === 'detailed' && <><th className="px-2 py-4 text-center">Tag ID</th><th className="px-2 py-4 text-center">Acq Date</th></>}
+                {reportMode === 'detailed' && <><th className="px-2 py-4 text-center">Tag ID</th><th className="px-2 py-4 text-center">Acq Date</th>{activeView === 'ifrs' && <th className="px-2 py-4 text-center">Method</th>}{activeView === 'sars' && <><th className="px-2 py-4 text-center">In Use</th><th className="px-2 py-4 text-center">Condition</th></>}{showUnits && <th className="px-2 py-4 text-center">Units</th>}</>}
                 <th className="px-2 py-4 text-center">Op Bal</th>
                 <th className="px-2 py-4 text-center">Additions</th>
                 {hasRevImp && <th className="px-2 py-4 text-center">Rev / Imp</th>}
@@ -355,6 +910,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
                 <th className="px-2 py-4 text-center">Op Accum</th>
                 <th className="px-2 py-4 text-center">Charge</th>
                 <th className="px-2 py-4 text-center">On Disposal</th>
+                {showRevalElim && <th className="px-2 py-4 text-center">Reval Elim</th>}
                 <th className="px-2 py-4 text-center">Cl Accum</th>
                 <th className="px-4 py-4 text-right bg-slate-900 text-white min-w-[120px]">
                   {activeView === 'ifrs' ? 'Carrying Value' : 'Tax Value'}
@@ -363,7 +919,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
             </thead>
             <tbody className="divide-y divide-slate-100">
               {Object.keys(groupedCalculations).length === 0 ? (
-                <tr><td colSpan={14} className="px-4 py-24 text-center text-slate-300 font-bold uppercase tracking-widest">No assets selected for display</td></tr>
+                <tr><td colSpan={16} className="px-4 py-24 text-center text-slate-300 font-bold uppercase tracking-widest">No assets selected for display</td></tr>
               ) : (
                 <>
                   {Object.keys(groupedCalculations).map(catId => {
@@ -376,7 +932,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
                       <React.Fragment key={catId}>
                         {reportMode === 'detailed' && (
                           <>
-                            <tr className="bg-slate-50 border-y border-slate-200"><td colSpan={14} className="px-4 py-2 font-black text-[9px] text-slate-400 uppercase tracking-widest border-l-4 border-blue-500">Class: {category?.name}</td></tr>
+                            <tr className="bg-slate-50 border-y border-slate-200"><td colSpan={16} className="px-4 py-2 font-black text-[9px] text-slate-400 uppercase tracking-widest border-l-4 border-blue-500">Class: {category?.name}</td></tr>
                             {items.map(calc => {
                               const asset = assets.find(a => a.id === calc.assetId)!;
                               return (
@@ -387,14 +943,18 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
                                   </td>
                                   <td className="px-2 py-3 text-center text-slate-500">{asset.tagId || '-'}</td>
                                   <td className="px-2 py-3 text-center text-slate-500 font-mono">{getAcqDate(asset)}</td>
+                                  {!isSars && <td className="px-2 py-3 text-center text-slate-500 text-[9px] font-bold">{getMethodLabel(calc)}</td>}
+                                  {isSars && <><td className="px-2 py-3 text-center text-slate-500 font-mono">{getInUseDate(asset)}</td><td className="px-2 py-3 text-center text-[9px] font-bold text-slate-500">{getConditionLabel(asset)}</td></>}
+                                  {showUnits && <td className="px-2 py-3 text-right text-slate-500 font-mono">{calc.unitsConsumed ? calc.unitsConsumed.toLocaleString('en-ZA') : '-'}</td>}
                                   <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(calc.openingCost)}</td>
                                   <td className="px-2 py-3 text-right text-emerald-600 font-mono">+{currencyFormatter.format(calc.additions)}</td>
-                                  {hasRevImp && <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(calc.revaluations - calc.impairments)}</td>}
+                                  {hasRevImp && <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(getRevImp(calc))}</td>}
                                   <td className="px-2 py-3 text-right text-red-600 font-mono">-{currencyFormatter.format(calc.disposals)}</td>
                                   <td className="px-2 py-3 text-right font-black font-mono">{currencyFormatter.format(calc.closingCost)}</td>
                                   <td className="px-2 py-3 text-right text-slate-400 font-mono">{currencyFormatter.format(isSars ? calc.openingAccumulatedTaxDepr : calc.openingAccumulatedDepr)}</td>
                                   <td className="px-2 py-3 text-right text-blue-600 font-mono">{currencyFormatter.format(isSars ? calc.taxDeductionForPeriod : calc.periodicDepr)}</td>
                                   <td className="px-2 py-3 text-right text-red-400 font-mono">-{currencyFormatter.format(isSars ? calc.taxDeprOnDisposals : calc.accumulatedDeprOnDisposals)}</td>
+                                  {showRevalElim && <td className="px-2 py-3 text-right text-amber-600 font-mono">-{currencyFormatter.format(calc.accumulatedDeprOnRevaluations)}</td>}
                                   <td className="px-2 py-3 text-right font-black font-mono">{currencyFormatter.format(isSars ? calc.closingAccumulatedTaxDepr : calc.closingAccumulatedDepr)}</td>
                                   <td className="px-4 py-3 text-right bg-slate-50 font-black font-mono">{currencyFormatter.format(isSars ? calc.taxValue : calc.nbv)}</td>
                                 </tr>
@@ -403,7 +963,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
                           </>
                         )}
                         <tr className={`${reportMode === 'summary' ? 'hover:bg-slate-50' : 'bg-slate-100/50'} font-black divide-x divide-slate-200 border-t border-slate-200`}>
-                          <td colSpan={reportMode === 'detailed' ? 3 : 1} className="px-4 py-3 text-left uppercase tracking-widest text-[8px] text-slate-500">
+                          <td colSpan={reportMode === 'detailed' ? detailCols : 1} className="px-4 py-3 text-left uppercase tracking-widest text-[8px] text-slate-500">
                             {reportMode === 'summary' ? category?.name : `Subtotal: ${category?.name}`}
                           </td>
                           <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(t.openingCost)}</td>
@@ -414,6 +974,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
                           <td className="px-2 py-3 text-right font-mono text-slate-500">{currencyFormatter.format(t.openingDepr)}</td>
                           <td className="px-2 py-3 text-right font-mono text-blue-600">{currencyFormatter.format(t.periodicDepr)}</td>
                           <td className="px-2 py-3 text-right font-mono text-red-400">-{currencyFormatter.format(t.disposalDepr)}</td>
+                          {showRevalElim && <td className="px-2 py-3 text-right font-mono text-amber-600">-{currencyFormatter.format(t.revalDepr)}</td>}
                           <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(t.closingDepr)}</td>
                           <td className="px-4 py-3 text-right bg-slate-200/50 font-mono">{currencyFormatter.format(t.carryingValue)}</td>
                         </tr>
@@ -422,7 +983,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
                   })}
                   
                   <tr className="bg-slate-900 text-white font-black divide-x divide-slate-800 border-t-2 border-slate-900">
-                    <td colSpan={reportMode === 'detailed' ? 3 : 1} className="px-4 py-5 text-right uppercase tracking-widest text-[10px]">GRAND TOTAL (CONSOLIDATED)</td>
+                    <td colSpan={reportMode === 'detailed' ? detailCols : 1} className="px-4 py-5 text-right uppercase tracking-widest text-[10px]">GRAND TOTAL (CONSOLIDATED)</td>
                     <td className="px-2 py-5 text-right font-mono">{currencyFormatter.format(grandTotals.openingCost)}</td>
                     <td className="px-2 py-5 text-right font-mono text-emerald-400">{currencyFormatter.format(grandTotals.additions)}</td>
                     {hasRevImp && <td className="px-2 py-5 text-right font-mono">{currencyFormatter.format(grandTotals.revalImp)}</td>}
@@ -431,6 +992,7 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
                     <td className="px-2 py-5 text-right font-mono opacity-70">{currencyFormatter.format(grandTotals.openingDepr)}</td>
                     <td className="px-2 py-5 text-right font-mono text-blue-300">{currencyFormatter.format(grandTotals.periodicDepr)}</td>
                     <td className="px-2 py-5 text-right font-mono text-red-400">{currencyFormatter.format(grandTotals.disposalDepr)}</td>
+                    {showRevalElim && <td className="px-2 py-5 text-right font-mono text-amber-300">{currencyFormatter.format(grandTotals.revalDepr)}</td>}
                     <td className="px-2 py-5 text-right font-mono">{currencyFormatter.format(grandTotals.closingDepr)}</td>
                     <td className="px-4 py-5 text-right bg-black/30 font-mono text-lg">{currencyFormatter.format(grandTotals.carryingValue)}</td>
                   </tr>
@@ -439,9 +1001,188 @@ const ReportingSuite: React.FC<ReportingSuiteProps> = ({ assets, categories, loc
             </tbody>
           </table>
         </div>
+        )}
       </section>
+
+      {activeView === 'sars' && sarsDisposals.length > 0 && (
+        <section className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden">
+          <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">SARS Disposal Schedule</h3>
+            <span className="text-[9px] font-bold text-slate-400 uppercase">Recoupments s8(4)(a), Scrapping Allowances s11(o) &amp; Capital Gains</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-[10px] whitespace-nowrap">
+              <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest">
+                <tr className="divide-x divide-slate-200">
+                  <th className="px-4 py-3">Date</th>
+                  <th className="px-2 py-3">Asset / Component</th>
+                  <th className="px-2 py-3 text-center">Status</th>
+                  <th className="px-2 py-3 text-right">Proceeds</th>
+                  <th className="px-2 py-3 text-right">Tax Cost</th>
+                  <th className="px-2 py-3 text-right">Tax Value</th>
+                  <th className="px-2 py-3 text-right">Recoupment</th>
+                  <th className="px-2 py-3 text-right">s11(o) Allowance</th>
+                  <th className="px-2 py-3 text-right">CGT Base Cost</th>
+                  <th className="px-4 py-3 text-right">Capital Gain / (Loss)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {sarsDisposals.map(d => (
+                  <tr key={d.key} className="divide-x divide-slate-100 hover:bg-slate-50">
+                    <td className="px-4 py-3 font-mono text-slate-500">{d.date}</td>
+                    <td className="px-2 py-3">
+                      <span className="block font-bold text-slate-800">{d.asset.name} • {d.componentName}</span>
+                      <span className="block text-[8px] text-slate-400 font-mono">{d.asset.assetNumber}</span>
+                    </td>
+                    <td className="px-2 py-3 text-center text-[9px] font-bold text-slate-500 uppercase">{d.status}</td>
+                    <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(d.proceeds)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-slate-500">{currencyFormatter.format(d.taxCost)}</td>
+                    <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(d.taxValue)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-red-600">{currencyFormatter.format(d.recoupment)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-emerald-600">
+                      {currencyFormatter.format(d.scrappingAllowance)}
+                      {d.lossDisallowed && <span className="block text-[8px] font-bold text-amber-600 uppercase">Write-off period &gt; 10 yrs</span>}
+                    </td>
+                    <td className="px-2 py-3 text-right font-mono text-slate-500">
+                      {currencyFormatter.format(d.cgtBaseCost)}
+                      {d.valuationDateMethod && <span className="block text-[8px] font-bold text-slate-400 uppercase">{d.valuationDateMethod}</span>}
+                    </td>
+                    <td className={`px-4 py-3 text-right font-mono font-black ${d.capitalGain < 0 ? 'text-red-600' : ''}`}>{currencyFormatter.format(d.capitalGain)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-slate-900 text-white font-black divide-x divide-slate-800">
+                  <td colSpan={6} className="px-4 py-3 text-right uppercase tracking-widest">Total</td>
+                  <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(sarsDisposals.reduce((sum, d) => sum + d.recoupment, 0))}</td>
+                  <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(sarsDisposals.reduce((sum, d) => sum + d.scrappingAllowance, 0))}</td>
+                  <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(sarsDisposals.reduce((sum, d) => sum + d.cgtBaseCost, 0))}</td>
+                  <td className="px-4 py-3 text-right font-mono">{currencyFormatter.format(sarsDisposals.reduce((sum, d) => sum + d.capitalGain, 0))}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {activeView === 'ppe' && ppeCategories.length > 0 && (
+        <section className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden">
+          <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Useful Lives &amp; Depreciation Methods</h3>
+            <span className="text-[9px] font-bold text-slate-400 uppercase">IAS 16.73(b)-(c) • From Asset Class Settings</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-[10px] whitespace-nowrap">
+              <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest">
+                <tr className="divide-x divide-slate-200">
+                  <th className="px-4 py-3">Asset Class</th>
+                  <th className="px-2 py-3">Depreciation Method</th>
+                  <th className="px-2 py-3 text-right">Useful Life</th>
+                  <th className="px-4 py-3 text-right">Residual Value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {ppeCategories.map(c => (
+                  <tr key={c.id} className="divide-x divide-slate-100 hover:bg-slate-50">
+                    <td className="px-4 py-3 font-bold text-slate-800">{c.name}</td>
+                    <td className="px-2 py-3 text-slate-600">{getCategoryMethodLabel(c)}</td>
+                    <td className="px-2 py-3 text-right font-mono">{c.defaultUsefulLife} years</td>
+                    <td className="px-4 py-3 text-right font-mono">{c.residualPercentage}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {activeView === 'ifrs' && hasRevaluationSurplus && (
+        <section className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden">
+          <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Revaluation Surplus (IAS 16)</h3>
+            <span className="text-[9px] font-bold text-slate-400 uppercase">Other Comprehensive Income &amp; Equity</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-[10px] whitespace-nowrap">
+              <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest">
+                <tr className="divide-x divide-slate-200">
+                  <th className="px-4 py-3">Asset Class</th>
+                  <th className="px-2 py-3 text-right">Opening Surplus</th>
+                  <th className="px-2 py-3 text-right">Increase (OCI)</th>
+                  <th className="px-2 py-3 text-right">Decrease (OCI)</th>
+                  <th className="px-2 py-3 text-right">To Retained Earnings</th>
+                  <th className="px-2 py-3 text-right">Impairment (OCI)</th>
+                  <th className="px-2 py-3 text-right">Closing Surplus</th>
+                  <th className="px-2 py-3 text-right">Gain (P&amp;L)</th>
+                  <th className="px-4 py-3 text-right">Loss (P&amp;L)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {surplusRows.map(r => (
+                  <tr key={r.catId} className="divide-x divide-slate-100 hover:bg-slate-50">
+                    <td className="px-4 py-3 font-bold text-slate-800">{r.name}</td>
+                    <td className="px-2 py-3 text-right font-mono text-slate-500">{currencyFormatter.format(r.opening)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-emerald-600">{currencyFormatter.format(r.increase)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-red-600">-{currencyFormatter.format(r.decrease)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-amber-600">-{currencyFormatter.format(r.transfer)}</td>
+                    <td className="px-2 py-3 text-right font-mono">{currencyFormatter.format(r.impairmentOCI)}</td>
+                    <td className="px-2 py-3 text-right font-mono font-black">{currencyFormatter.format(r.closing)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-emerald-600">{currencyFormatter.format(r.gainPL)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-red-600">{currencyFormatter.format(r.lossPL)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {activeView === 'ifrs' && (impairmentRows.length > 0 || impairmentEvents.length > 0) && (
+        <section className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden">
+          <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Impairment of Assets (IAS 36)</h3>
+            <span className="text-[9px] font-bold text-slate-400 uppercase">Losses &amp; Reversals for the Period</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-[10px] whitespace-nowrap">
+              <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-widest">
+                <tr className="divide-x divide-slate-200">
+                  <th className="px-4 py-3">Asset Class</th>
+                  <th className="px-2 py-3 text-right">Loss (P&amp;L)</th>
+                  <th className="px-2 py-3 text-right">Loss (OCI)</th>
+                  <th className="px-2 py-3 text-right">Reversal (P&amp;L)</th>
+                  <th className="px-4 py-3 text-right">Reversal (OCI)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {impairmentRows.map(r => (
+                  <tr key={r.catId} className="divide-x divide-slate-100 hover:bg-slate-50">
+                    <td className="px-4 py-3 font-bold text-slate-800">{r.name}</td>
+                    <td className="px-2 py-3 text-right font-mono text-red-600">{currencyFormatter.format(r.lossPL)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-red-600">{currencyFormatter.format(r.lossOCI)}</td>
+                    <td className="px-2 py-3 text-right font-mono text-emerald-600">{currencyFormatter.format(r.reversalPL)}</td>
+                    <td className="px-4 py-3 text-right font-mono text-emerald-600">{currencyFormatter.format(r.reversalOCI)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {impairmentEvents.length > 0 && (
+            <div className="px-8 py-5 border-t border-slate-100 space-y-2">
+              <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">Events &amp; Circumstances</h4>
+              {impairmentEvents.map(e => (
+                <div key={e.key} className="grid grid-cols-12 gap-3 text-[10px] items-center">
+                  <span className="col-span-2 font-mono text-slate-500">{e.date}</span>
+                  <span className={`col-span-1 font-black uppercase text-[9px] ${e.kind === 'Impairment' ? 'text-red-600' : 'text-emerald-600'}`}>{e.kind}</span>
+                  <span className="col-span-3 font-bold text-slate-800 truncate">{e.asset.name} <span className="text-slate-400 font-medium">/ {e.componentName}</span></span>
+                  <span className="col-span-2 text-right font-mono">{currencyFormatter.format(e.recoverableAmount)}</span>
+                  <span className="col-span-4 text-slate-500 truncate">{e.reason || '-'}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
     </div>
   );
 };
 
-export default ReportingSuite;
\ No newline at end of file
+export default ReportingSuite;
@@ -1,5 +1,5 @@
 
-import { Asset, AssetCategory, AssetLocation, TaxStrategy } from './types';
+import { Asset, AssetCategory, AssetLocation, CategoryGLField, CompanySettings, DepreciationMethod, FundingSource, GLAccountType, IN47AssetClass, JournalExportProfile, TaxStrategy } from './types';
 
 export const ASSET_CATEGORIES: AssetCategory[] = [
   {
@@ -26,6 +26,207 @@ export const ASSET_CATEGORIES: AssetCategory[] = [
   }
 ];
 
+// Items costing less than this are written off in full in the year of acquisition (IN47 para 4.2)
+export const SARS_SMALL_ITEM_THRESHOLD = 7000;
+
+// Section 11(o) only allows a loss on assets written off for tax over no more than this many years
+export const SARS_11O_MAX_WRITE_OFF_YEARS = 10;
+
+// Capital gains tax valuation date; earlier assets use a valuation date value as base cost
+export const CGT_VALUATION_DATE = '2001-10-01';
+
+export const IN47_ASSET_CLASSES: IN47AssetClass[] = [
+  { id: 'air-conditioners', description: 'Air conditioners (window, mobile and assembly units)', writeOffYears: 6 },
+  { id: 'bakery-equipment', description: 'Bakery equipment', writeOffYears: 5 },
+  { id: 'bicycles', description: 'Bicycles', writeOffYears: 4 },
+  { id: 'carpets', description: 'Carpets', writeOffYears: 6 },
+  { id: 'cash-registers', description: 'Cash registers', writeOffYears: 5 },
+  { id: 'cellular-phones', description: 'Cellular phones', writeOffYears: 2 },
+  { id: 'computers-mainframe', description: 'Computers (mainframe / servers)', writeOffYears: 5 },
+  { id: 'computers-personal', description: 'Computers (personal computers)', writeOffYears: 3 },
+  { id: 'software-mainframe', description: 'Computer software (mainframes, purchased)', writeOffYears: 3 },
+  { id: 'software-personal', description: 'Computer software (personal computers)', writeOffYears: 2 },
+  { id: 'curtains', description: 'Curtains', writeOffYears: 5 },
+  { id: 'delivery-vehicles', description: 'Delivery vehicles', writeOffYears: 4 },
+  { id: 'forklifts', description: 'Forklift trucks', writeOffYears: 4 },
+  { id: 'furniture', description: 'Furniture and fittings', writeOffYears: 6 },
+  { id: 'generators-portable', description: 'Generators (portable)', writeOffYears: 5 },
+  { id: 'generators-standby', description: 'Generators (standby)', writeOffYears: 15 },
+  { id: 'kitchen-equipment', description: 'Kitchen equipment', writeOffYears: 6 },
+  { id: 'lawnmowers', description: 'Lawn mowers', writeOffYears: 2 },
+  { id: 'motor-cars', description: 'Motor cars, station wagons and light delivery vehicles', writeOffYears: 5 },
+  { id: 'motorcycles', description: 'Motorcycles', writeOffYears: 4 },
+  { id: 'office-equipment-electronic', description: 'Office equipment (electronic)', writeOffYears: 3 },
+  { id: 'office-equipment-mechanical', description: 'Office equipment (mechanical)', writeOffYears: 5 },
+  { id: 'pallets', description: 'Pallets', writeOffYears: 4 },
+  { id: 'photocopiers', description: 'Photocopying equipment', writeOffYears: 6 },
+  { id: 'radio-communication', description: 'Radio communication equipment', writeOffYears: 5 },
+  { id: 'scales', description: 'Scales', writeOffYears: 5 },
+  { id: 'security-systems', description: 'Security systems (removable)', writeOffYears: 5 },
+  { id: 'shopfittings', description: 'Shopfittings', writeOffYears: 6 },
+  { id: 'telephone-equipment', description: 'Telephone equipment', writeOffYears: 5 },
+  { id: 'trailers', description: 'Trailers', writeOffYears: 5 },
+  { id: 'trucks-heavy', description: 'Trucks (heavy duty)', writeOffYears: 3 },
+  { id: 'trucks-other', description: 'Trucks (other)', writeOffYears: 4 },
+  { id: 'vending-machines', description: 'Vending machines', writeOffYears: 6 }
+];
+
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  fiscalYearEndMonth: 6,
+  fiscalYearEndDay: 30,
+  fiscalYearEndChanges: [],
+  taxRates: [
+    { id: 'sa-cit-28', effectiveFrom: '2008-04-01', rate: 28 },
+    { id: 'sa-cit-27', effectiveFrom: '2022-04-01', rate: 27 }
+  ],
+  accountSegments: { segments: ['account'], separator: '/' }
+};
+
+// Settings a new asset class starts with, whether added in settings or created by an import
+export const NEW_CATEGORY_DEFAULTS: Omit<AssetCategory, 'id' | 'name'> = {
+  defaultUsefulLife: 5,
+  defaultTaxRate: 20,
+  residualPercentage: 0,
+  taxStrategy: TaxStrategy.STANDARD_FLAT,
+  depreciationMethod: DepreciationMethod.STRAIGHT_LINE,
+  glCodeCost: '1000/000',
+  glCodeAccumDepr: '1000/001',
+  glCodeDeprExpense: '5000/000'
+};
+
+// Fallback ledger accounts for classes without an explicit revaluation mapping
+export const DEFAULT_GL_CODES = {
+  revaluationSurplus: '3100/000',
+  revaluationPL: '4900/000',
+  retainedEarnings: '3000/000',
+  impairmentLoss: '5100/000',
+  impairmentReversal: '4910/000',
+  disposalProceeds: '8400/000',
+  disposalProfit: '4800/000',
+  disposalLoss: '5800/000',
+  deferredTax: '2700/000',
+  deferredTaxExpense: '7100/000',
+  deferredTaxOCI: '3110/000'
+};
+
+// Class GL mappings in ledger order, with the account types each may post to
+export const CATEGORY_GL_FIELDS: { field: CategoryGLField, label: string, types: GLAccountType[], fallback?: string }[] = [
+  { field: 'glCodeCost', label: 'Cost A/C (Debit)', types: [GLAccountType.ASSET] },
+  { field: 'glCodeAccumDepr', label: 'Accum Depr A/C (Credit)', types: [GLAccountType.CONTRA_ASSET] },
+  { field: 'glCodeDeprExpense', label: 'Depr Expense A/C', types: [GLAccountType.EXPENSE] },
+  { field: 'glCodeRevaluationSurplus', label: 'Reval Surplus A/C (OCI)', types: [GLAccountType.EQUITY], fallback: DEFAULT_GL_CODES.revaluationSurplus },
+  { field: 'glCodeRevaluationPL', label: 'Reval Gain / Loss A/C (P&L)', types: [GLAccountType.INCOME, GLAccountType.EXPENSE], fallback: DEFAULT_GL_CODES.revaluationPL },
+  { field: 'glCodeRetainedEarnings', label: 'Retained Earnings A/C', types: [GLAccountType.EQUITY], fallback: DEFAULT_GL_CODES.retainedEarnings },
+  { field: 'glCodeImpairmentLoss', label: 'Impairment Loss A/C (P&L)', types: [GLAccountType.EXPENSE], fallback: DEFAULT_GL_CODES.impairmentLoss },
+  { field: 'glCodeImpairmentReversal', label: 'Impairment Reversal A/C (P&L)', types: [GLAccountType.INCOME], fallback: DEFAULT_GL_CODES.impairmentReversal },
+  { field: 'glCodeDisposalProceeds', label: 'Disposal Proceeds Clearing A/C', types: [GLAccountType.ASSET, GLAccountType.LIABILITY], fallback: DEFAULT_GL_CODES.disposalProceeds },
+  { field: 'glCodeDisposalProfit', label: 'Profit on Disposal A/C', types: [GLAccountType.INCOME], fallback: DEFAULT_GL_CODES.disposalProfit },
+  { field: 'glCodeDisposalLoss', label: 'Loss on Disposal A/C', types: [GLAccountType.EXPENSE], fallback: DEFAULT_GL_CODES.disposalLoss }
+];
+
+// Funding credits clear a creditor, lease or intercompany liability, or the CWIP asset
+export const FUNDING_ACCOUNT_TYPES = [GLAccountType.LIABILITY, GLAccountType.ASSET];
+
+// Fallback credit accounts for additions by funding source
+export const DEFAULT_FUNDING_ACCOUNTS: Record<FundingSource, string> = {
+  [FundingSource.SUPPLIER_CREDITOR]: '2000/001',
+  [FundingSource.CWIP_TRANSFER]: '1090/000',
+  [FundingSource.FINANCE_LEASE]: '2300/000',
+  [FundingSource.INTERCOMPANY]: '2600/000'
+};
+
+// Built-in journal export layouts; copies can be edited or new targets added in the journal export settings
+export const DEFAULT_JOURNAL_EXPORT_PROFILES: JournalExportProfile[] = [
+  {
+    id: 'generic',
+    name: 'Generic Workbook',
+    fileFormat: 'xlsx',
+    includeHeader: true,
+    dateFormat: 'yyyy-MM-dd',
+    signConvention: 'DebitPositive',
+    referencePrefix: 'FA-',
+    columns: [
+      { header: 'Date', field: 'date' },
+      { header: 'Type', field: 'type' },
+      { header: 'Account Code', field: 'accountCode' },
+      { header: 'Account Name', field: 'accountName' },
+      { header: 'Description', field: 'description' },
+      { header: 'Branch', field: 'branchName' },
+      { header: 'Debit', field: 'debit' },
+      { header: 'Credit', field: 'credit' }
+    ],
+    branchMappings: {},
+    builtIn: true
+  },
+  {
+    // Xero manual journal import: lines sharing a narration post as one journal
+    id: 'xero',
+    name: 'Xero Manual Journal',
+    fileFormat: 'csv',
+    includeHeader: true,
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'DebitPositive',
+    referencePrefix: 'FA-',
+    columns: [
+      { header: '*Narration', field: 'reference' },
+      { header: '*Date', field: 'date' },
+      { header: 'Description', field: 'description' },
+      { header: '*AccountCode', field: 'accountCode' },
+      { header: '*TaxRate', field: 'fixed', value: 'No VAT' },
+      { header: '*Amount', field: 'amount' },
+      { header: 'TrackingName1', field: 'fixed', value: 'Branch' },
+      { header: 'TrackingOption1', field: 'branchCode' }
+    ],
+    branchMappings: {},
+    builtIn: true
+  },
+  {
+    // Sage Pastel Partner general ledger batch import (no header row)
+    id: 'pastel-partner',
+    name: 'Sage Pastel Partner GL Batch',
+    fileFormat: 'csv',
+    includeHeader: false,
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'DebitPositive',
+    referencePrefix: 'FA',
+    columns: [
+      { header: 'Period', field: 'period' },
+      { header: 'Date', field: 'date' },
+      { header: 'GDC', field: 'fixed', value: 'G' },
+      { header: 'Account', field: 'accountCode' },
+      { header: 'Reference', field: 'reference' },
+      { header: 'Description', field: 'description' },
+      { header: 'Amount', field: 'amount' },
+      { header: 'Tax Type', field: 'fixed', value: '0' },
+      { header: 'Tax Amount', field: 'fixed', value: '0' },
+      { header: 'Open Item', field: 'fixed', value: '' },
+      { header: 'Cost Code', field: 'branchCode' }
+    ],
+    branchMappings: {},
+    builtIn: true
+  },
+  {
+    id: 'sage-business-cloud',
+    name: 'Sage Business Cloud Journal',
+    fileFormat: 'csv',
+    includeHeader: true,
+    dateFormat: 'dd/MM/yyyy',
+    signConvention: 'DebitPositive',
+    referencePrefix: 'FA-',
+    columns: [
+      { header: 'Date', field: 'date' },
+      { header: 'Reference', field: 'reference' },
+      { header: 'Account', field: 'accountCode' },
+      { header: 'Description', field: 'description' },
+      { header: 'Debit', field: 'debit' },
+      { header: 'Credit', field: 'credit' },
+      { header: 'Cost Centre', field: 'branchCode' }
+    ],
+    branchMappings: {},
+    builtIn: true
+  }
+];
+
 export const ORGANIZATIONAL_UNITS: AssetLocation[] = [
   {
     id: 'br-hq',
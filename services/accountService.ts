@@ -0,0 +1,107 @@
+import { AccountSegment, AssetCategory, AssetLocation, CategoryAccountIssue, CompanySettings, FundingSource, GLAccount, GLAccountType, JournalEntry } from '../types';
+import { CATEGORY_GL_FIELDS, FUNDING_ACCOUNT_TYPES } from '../constants';
+
+export const ACCOUNT_SEGMENT_LABELS: Record<AccountSegment, string> = {
+  account: 'Class GL Code',
+  branch: 'Branch Code',
+  department: 'Department'
+};
+
+/**
+ * Builds the ledger account for a line from the configured segments, e.g. 5000/100 + HQ-01 -> 5000/100/HQ-01.
+ * Segments without a value (such as an asset with no department) are left out.
+ */
+export const composeAccountCode = (
+  accountCode: string,
+  branch: AssetLocation | undefined,
+  departmentCode: string | undefined,
+  settings: CompanySettings
+): string => {
+  const config = settings.accountSegments;
+  if (!config || config.segments.length === 0) return accountCode;
+  const values: Record<AccountSegment, string | undefined> = {
+    account: accountCode,
+    branch: branch?.code,
+    department: departmentCode
+  };
+  return config.segments.map(s => values[s]).filter(Boolean).join(config.separator);
+};
+
+// Batches saved before segments were configured carry only the class GL code
+export const getSegmentedAccount = (entry: JournalEntry): string => entry.segmentedAccount || entry.accountCode;
+
+/**
+ * Distinct journal accounts missing from the chart of accounts. An empty chart means validation is not configured.
+ */
+export const findUnknownAccounts = (entries: JournalEntry[], chart: GLAccount[]): string[] => {
+  if (chart.length === 0) return [];
+  const known = new Set(chart.map(a => a.code));
+  return Array.from(new Set(entries.map(getSegmentedAccount))).filter(code => !known.has(code)).sort();
+};
+
+/**
+ * Checks a class's GL mappings against the chart of accounts. Required accounts must be mapped;
+ * explicitly mapped codes must exist in the chart with an allowed account type. Unmapped optional
+ * accounts post to the system defaults and are not reported. Without a chart only missing codes are flagged.
+ */
+export const getCategoryAccountIssues = (category: AssetCategory, chart: GLAccount[]): CategoryAccountIssue[] => {
+  const mappings = [
+    ...CATEGORY_GL_FIELDS.map(f => ({ field: f.field as string, label: f.label, code: category[f.field] || '', types: f.types, required: !f.fallback })),
+    ...Object.values(FundingSource).map(source => ({ field: source as string, label: `Funding: ${source}`, code: category.fundingAccounts?.[source] || '', types: FUNDING_ACCOUNT_TYPES, required: false }))
+  ];
+  const issues: CategoryAccountIssue[] = [];
+  mappings.forEach(m => {
+    const code = m.code.trim();
+    if (!code) {
+      if (m.required) issues.push({ field: m.field, label: m.label, code, problem: 'Missing', expected: m.types });
+      return;
+    }
+    if (chart.length === 0) return;
+    const account = chart.find(a => a.code === code);
+    if (!account) issues.push({ field: m.field, label: m.label, code, problem: 'Not in chart', expected: m.types });
+    else if (!m.types.includes(account.type)) issues.push({ field: m.field, label: m.label, code, problem: 'Wrong type', expected: m.types, actual: account.type });
+  });
+  return issues;
+};
+
+export const describeAccountIssue = (issue: CategoryAccountIssue): string => {
+  if (issue.problem === 'Missing') return `${issue.label}: not mapped`;
+  if (issue.problem === 'Not in chart') return `${issue.label}: ${issue.code} is not in the chart of accounts`;
+  return `${issue.label}: ${issue.code} is ${issue.actual}, expected ${issue.expected.join(' or ')}`;
+};
+
+// Accepts the type labels common GL exports use, e.g. "Fixed Assets", "Accumulated Depreciation", "Revenue"
+const parseAccountType = (value: string): GLAccountType | undefined => {
+  const key = value.toLowerCase().replace(/[^a-z]/g, '');
+  if (!key) return undefined;
+  if (key.startsWith('contra') || key.includes('accumulated')) return GLAccountType.CONTRA_ASSET;
+  if (key.includes('asset')) return GLAccountType.ASSET;
+  if (key.includes('liabilit') || key.includes('creditor') || key.includes('payable')) return GLAccountType.LIABILITY;
+  if (key.includes('equity') || key.includes('capital') || key.includes('reserve') || key.includes('retained')) return GLAccountType.EQUITY;
+  if (key.includes('expense') || key.startsWith('cost')) return GLAccountType.EXPENSE;
+  if (key.includes('income') || key.includes('revenue') || key.includes('sales')) return GLAccountType.INCOME;
+  return undefined;
+};
+
+/**
+ * Reads chart-of-accounts rows from a spreadsheet (Code / Name / Type columns, common aliases accepted).
+ * Rows without a code or a recognisable type are skipped; duplicate codes keep the last row.
+ */
+export const parseChartOfAccounts = (rows: Record<string, any>[]): { accounts: GLAccount[], skipped: number } => {
+  const pick = (row: Record<string, any>, names: string[]) => {
+    const key = Object.keys(row).find(k => names.includes(k.toLowerCase().replace(/[^a-z]/g, '')));
+    return key ? String(row[key] ?? '').trim() : '';
+  };
+  const byCode = new Map<string, GLAccount>();
+  let skipped = 0;
+  rows.forEach(row => {
+    const code = pick(row, ['code', 'account', 'accountcode', 'accountnumber', 'accountno', 'glcode']);
+    const type = parseAccountType(pick(row, ['type', 'accounttype', 'category', 'class']));
+    if (!code || !type) {
+      skipped++;
+      return;
+    }
+    byCode.set(code, { code, name: pick(row, ['name', 'accountname', 'description']), type });
+  });
+  return { accounts: Array.from(byCode.values()), skipped };
+};
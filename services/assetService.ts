@@ -1,8 +1,6 @@
 import { differenceInDays, isBefore, isAfter, isValid } from 'date-fns';
-import { Asset, DepreciationCalculation, AssetComponent, TaxStrategy, AssetCategory, AssetStatus } from '../types';
-
-const FISCAL_YEAR_END_MONTH = 5; // June (0-indexed in JS)
-const FISCAL_YEAR_END_DAY = 30;
+import { Asset, DepreciationCalculation, AssetComponent, TaxStrategy, AssetCategory, AssetStatus, DepreciationMethod, ComponentDepreciationCalculation, ImpairmentEvent, CompanySettings, FundingSource, CgtValuationMethod } from '../types';
+import { CGT_VALUATION_DATE, DEFAULT_COMPANY_SETTINGS, DEFAULT_FUNDING_ACCOUNTS, IN47_ASSET_CLASSES, SARS_11O_MAX_WRITE_OFF_YEARS, SARS_SMALL_ITEM_THRESHOLD } from '../constants';
 
 const subDays = (date: Date, amount: number): Date => {
   const result = new Date(date);
@@ -16,17 +14,135 @@ const startOfDay = (date: Date): Date => {
   return result;
 };
 
+// Occurrence of a month/day year end on or after the given date, clamped to the month's last day
+const yearEndOnOrAfter = (date: Date, month: number, day: number): Date => {
+  const occurrence = (year: number) => new Date(year, month - 1, Math.min(day, new Date(year, month, 0).getDate()));
+  const candidate = occurrence(date.getFullYear());
+  return isBefore(candidate, date) ? occurrence(date.getFullYear() + 1) : candidate;
+};
+
+/**
+ * Returns the first and last day of the fiscal year containing `date`.
+ * A year end change takes effect from its `effectiveFrom` date: the year running at that point is
+ * cut short, and the transitional year ends on the first (or, for a long transition, the second)
+ * occurrence of the new year end.
+ */
+export const getFiscalYearBounds = (date: Date, settings: CompanySettings = DEFAULT_COMPANY_SETTINGS): { start: Date, end: Date } => {
+  const target = startOfDay(date);
+  const changes = (settings.fiscalYearEndChanges || [])
+    .map(c => ({ ...c, from: startOfDay(new Date(c.effectiveFrom)) }))
+    .filter(c => isValid(c.from))
+    .sort((a, b) => a.from.getTime() - b.from.getTime());
+  const activeIdx = changes.filter(c => !isAfter(c.from, target)).length - 1;
+  const active = activeIdx >= 0 ? changes[activeIdx] : null;
+  const next = changes[activeIdx + 1];
+
+  const month = active ? active.month : settings.fiscalYearEndMonth;
+  const day = active ? active.day : settings.fiscalYearEndDay;
+  let end = yearEndOnOrAfter(target, month, day);
+  let start = subDays(new Date(end.getFullYear() - 1, month - 1, Math.min(day, new Date(end.getFullYear() - 1, month, 0).getDate())), -1);
+
+  if (active) {
+    const firstEnd = yearEndOnOrAfter(active.from, month, day);
+    const transitionalEnd = active.longTransition ? yearEndOnOrAfter(subDays(firstEnd, -1), month, day) : firstEnd;
+    if (!isAfter(target, transitionalEnd)) {
+      start = active.from;
+      end = transitionalEnd;
+    }
+  }
+  if (next && !isBefore(end, next.from)) end = subDays(next.from, 1);
+  return { start, end };
+};
+
+/**
+ * Counts fiscal years from the one containing `from` to the one containing `to` (inclusive),
+ * so transitional years count as one year of allowance whatever their length.
+ */
+const countFiscalYears = (from: Date, to: Date, settings: CompanySettings): number => {
+  let count = 1;
+  let end = getFiscalYearBounds(from, settings).end;
+  while (isBefore(end, to)) {
+    end = getFiscalYearBounds(subDays(end, -1), settings).end;
+    count++;
+  }
+  return count;
+};
+
+/**
+ * Resolves the depreciation method and rate for a component.
+ * Component overrides win over the category; reducing balance without an explicit
+ * rate falls back to double-declining (200% / useful life).
+ */
+export const getDepreciationPolicy = (comp: AssetComponent, category: AssetCategory) => {
+  const method = comp.depreciationMethod || category.depreciationMethod || DepreciationMethod.STRAIGHT_LINE;
+  if (method !== DepreciationMethod.REDUCING_BALANCE) return { method, rate: 0 };
+
+  const explicitRate = comp.depreciationMethod ? comp.depreciationRate : category.depreciationRate;
+  const rate = explicitRate && explicitRate > 0
+    ? explicitRate
+    : (comp.usefulLifeYears > 0 ? 200 / comp.usefulLifeYears : 0);
+  return { method, rate };
+};
+
+/**
+ * Sums logged production units between two dates (inclusive).
+ */
+const getUnitsLogged = (comp: AssetComponent, from: Date, to: Date): number => {
+  return (comp.usageLog || [])
+    .filter(r => {
+      const d = startOfDay(new Date(r.date));
+      return !isBefore(d, from) && !isAfter(d, to);
+    })
+    .reduce((sum, r) => sum + (Number(r.units) || 0), 0);
+};
+
+/**
+ * Resolves how a component's cost was funded and the account its addition is credited to.
+ */
+export const getFundingPolicy = (fundingSource: FundingSource | undefined, category: AssetCategory) => {
+  const source = fundingSource || category.defaultFundingSource || FundingSource.SUPPLIER_CREDITOR;
+  return { source, accountCode: category.fundingAccounts?.[source] || DEFAULT_FUNDING_ACCOUNTS[source] };
+};
+
+export const describeDepreciationPolicy = (method: DepreciationMethod, rate: number): string => {
+  if (method === DepreciationMethod.REDUCING_BALANCE) return `${method} @ ${Number(rate.toFixed(2))}%`;
+  return method;
+};
+
+// Strategies whose wear-and-tear allowance is driven by the category's flat rate
+const RATE_BASED_STRATEGIES = [TaxStrategy.STANDARD_FLAT, TaxStrategy.SARS_SMALL_ITEM];
+
 /**
- * Returns the fiscal year for a given date based on June 30th end.
- * e.g. 2023-06-15 is FY 2023. 2023-07-01 is FY 2024.
+ * Flags a category whose flat wear-and-tear rate does not match its IN47 write-off period.
  */
-const getFiscalYear = (date: Date): number => {
-  const year = date.getFullYear();
-  const month = date.getMonth();
-  if (month <= FISCAL_YEAR_END_MONTH) {
-    return year;
+export const getIN47RateWarning = (category: AssetCategory): string | null => {
+  const in47Class = IN47_ASSET_CLASSES.find(c => c.id === category.in47ClassId);
+  if (!in47Class || !RATE_BASED_STRATEGIES.includes(category.taxStrategy)) return null;
+  const expectedRate = 100 / in47Class.writeOffYears;
+  if (Math.abs(category.defaultTaxRate - expectedRate) < 0.01) return null;
+  return `IN47 writes off ${in47Class.description.toLowerCase()} over ${in47Class.writeOffYears} years (${Number(expectedRate.toFixed(2))}% p.a.), but the class uses ${category.defaultTaxRate}%.`;
+};
+
+// Small items are written off in full when acquired; anything at or above the threshold follows the flat rate
+const resolveTaxStrategy = (comp: AssetComponent, strategy: TaxStrategy): TaxStrategy => {
+  if (strategy !== TaxStrategy.SARS_SMALL_ITEM) return strategy;
+  return comp.cost < SARS_SMALL_ITEM_THRESHOLD ? TaxStrategy.SARS_FULL_100 : TaxStrategy.STANDARD_FLAT;
+};
+
+// Tax write-off period the allowance schedule implies, used for the section 11(o) life test
+const getTaxWriteOffYears = (comp: AssetComponent, category: AssetCategory): number => {
+  switch (resolveTaxStrategy(comp, category.taxStrategy)) {
+    case TaxStrategy.SARS_12C_40_20:
+      return comp.isSecondHand ? 5 : 4;
+    case TaxStrategy.SARS_12B_50_30_20:
+      return 3;
+    case TaxStrategy.SARS_FULL_100:
+      return 1;
+    case TaxStrategy.SARS_13_5:
+      return 20;
+    default:
+      return category.defaultTaxRate > 0 ? 100 / category.defaultTaxRate : Infinity;
   }
-  return year + 1;
 };
 
 const getTaxYearDeduction = (
@@ -38,6 +154,8 @@ const getTaxYearDeduction = (
   
   switch (strategy) {
     case TaxStrategy.SARS_12C_40_20:
+      // Section 12C(1) accelerated rates are limited to new or unused plant; second-hand plant gets 20% a year
+      if (comp.isSecondHand) return taxYear <= 5 ? comp.cost * 0.20 : 0;
       if (taxYear === 1) return comp.cost * 0.40;
       if (taxYear >= 2 && taxYear <= 4) return comp.cost * 0.20;
       return 0;
@@ -56,54 +174,274 @@ const getTaxYearDeduction = (
   }
 };
 
+/**
+ * Eighth Schedule base cost of a disposed component: expenditure less the allowances claimed on it.
+ * Assets held on the valuation date replace pre-valuation date expenditure with a valuation date value.
+ */
+const getCgtBaseCost = (
+  comp: AssetComponent,
+  acqDate: Date,
+  dispDate: Date,
+  allowancesBeforeValuationDate: number,
+  allowancesTotal: number,
+  cgtProceeds: number
+): number => {
+  const valuationDate = startOfDay(new Date(CGT_VALUATION_DATE));
+  if (!isBefore(acqDate, valuationDate)) return comp.cost - allowancesTotal;
+
+  const expenditureBefore = comp.cost - allowancesBeforeValuationDate;
+  let valuationDateValue: number;
+  switch (comp.valuationDateMethod || CgtValuationMethod.TIME_APPORTIONMENT) {
+    case CgtValuationMethod.MARKET_VALUE:
+      valuationDateValue = comp.valuationDateMarketValue ?? expenditureBefore;
+      // Para 26(3): market value cannot create a loss when the proceeds exceed the expenditure
+      if (cgtProceeds > expenditureBefore && valuationDateValue > cgtProceeds) valuationDateValue = cgtProceeds;
+      break;
+    case CgtValuationMethod.TWENTY_PERCENT:
+      valuationDateValue = cgtProceeds * 0.2;
+      break;
+    default: {
+      // Part years count as full years; years before the valuation date are limited to 20
+      const yearsBefore = Math.min(20, Math.ceil(differenceInDays(valuationDate, acqDate) / 365.25));
+      const yearsAfter = Math.max(1, Math.ceil(differenceInDays(dispDate, valuationDate) / 365.25));
+      valuationDateValue = expenditureBefore + (cgtProceeds - expenditureBefore) * yearsBefore / (yearsBefore + yearsAfter);
+    }
+  }
+  return valuationDateValue - (allowancesTotal - allowancesBeforeValuationDate);
+};
+
+/**
+ * Depreciation accrued between two dates (inclusive) on the carrying amount at segmentStart,
+ * written down towards the residual over whatever life (or units) remains at that point.
+ */
+const accrueDepreciation = (
+  comp: AssetComponent,
+  policy: { method: DepreciationMethod, rate: number },
+  acqDate: Date,
+  carryingAmount: number,
+  residual: number,
+  segmentStart: Date,
+  segmentEnd: Date
+): number => {
+  if (isAfter(segmentStart, segmentEnd)) return 0;
+  const depreciableAmount = Math.max(0, carryingAmount - residual);
+  if (depreciableAmount === 0) return 0;
+  const days = differenceInDays(segmentEnd, segmentStart) + 1;
+
+  switch (policy.method) {
+    case DepreciationMethod.UNITS_OF_PRODUCTION: {
+      const unitsRemaining = (comp.estimatedLifetimeUnits || 0) - getUnitsLogged(comp, acqDate, subDays(segmentStart, 1));
+      if (unitsRemaining <= 0) return 0;
+      return Math.min(depreciableAmount, depreciableAmount * (getUnitsLogged(comp, segmentStart, segmentEnd) / unitsRemaining));
+    }
+    case DepreciationMethod.REDUCING_BALANCE: {
+      // Daily compounding of the annual rate on the opening carrying amount
+      const retained = Math.pow(Math.max(0, 1 - policy.rate / 100), days / 365.25);
+      return Math.min(depreciableAmount, carryingAmount * (1 - retained));
+    }
+    default: {
+      if (comp.usefulLifeYears <= 0) return 0;
+      const remainingLifeDays = comp.usefulLifeYears * 365.25 - differenceInDays(segmentStart, acqDate);
+      if (remainingLifeDays <= 0) return depreciableAmount;
+      return Math.min(depreciableAmount, (depreciableAmount / remainingLifeDays) * days);
+    }
+  }
+};
+
+/**
+ * Dated impairment events for a component. A legacy undated `impairmentLoss` is read as an
+ * impairment on the acquisition date, which is how earlier versions applied it.
+ */
+const getImpairmentEvents = (comp: AssetComponent): ImpairmentEvent[] => {
+  if (comp.impairments) return comp.impairments;
+  if (!comp.impairmentLoss) return [];
+  return [{
+    id: `${comp.id}-legacy-imp`,
+    date: comp.acquisitionDate,
+    recoverableAmount: comp.cost - comp.impairmentLoss,
+    reason: 'Undated impairment (migrated)'
+  }];
+};
+
+/**
+ * Converts undated `impairmentLoss` values on saved assets into dated impairment events.
+ */
+export const migrateLegacyImpairments = (asset: Asset): Asset => {
+  if (!(asset.components || []).some(c => c.impairmentLoss && !c.impairments)) return asset;
+  return {
+    ...asset,
+    components: asset.components.map(c => {
+      if (!c.impairmentLoss || c.impairments) return c;
+      const { impairmentLoss, ...rest } = c;
+      return { ...rest, impairments: getImpairmentEvents(c) };
+    })
+  };
+};
+
+type ValuationEvent = { kind: 'revaluation' | 'impairment' | 'reversal', at: Date, amount: number };
+const EVENT_ORDER: Record<ValuationEvent['kind'], number> = { revaluation: 0, impairment: 1, reversal: 2 };
+
 const calculateComponentDepreciation = (
   comp: AssetComponent,
   reportStartDate: Date,
   reportEndDate: Date,
-  category: AssetCategory
+  category: AssetCategory,
+  settings: CompanySettings
 ) => {
   const acqDate = startOfDay(new Date(comp.acquisitionDate));
   const dispDate = (comp.status === AssetStatus.DISPOSED || comp.status === AssetStatus.SCRAPPED) && comp.disposalDate 
     ? startOfDay(new Date(comp.disposalDate)) 
     : null;
-  
-  const getIFRSValuesAt = (targetDate: Date) => {
+  const policy = getDepreciationPolicy(comp, category);
+  const residual = comp.residualValue || 0;
+  // SARS allowances run from when the asset is brought into use, which cannot precede acquisition
+  const inUseDate = comp.broughtIntoUseDate && isValid(new Date(comp.broughtIntoUseDate)) && isAfter(startOfDay(new Date(comp.broughtIntoUseDate)), acqDate)
+    ? startOfDay(new Date(comp.broughtIntoUseDate))
+    : acqDate;
+  // Components migrated from a legacy register start from their take-on balances; events before
+  // the cut-over are history the take-on balances already reflect
+  const takeOnDate = comp.takeOnDate && isValid(new Date(comp.takeOnDate)) && isAfter(startOfDay(new Date(comp.takeOnDate)), acqDate)
+    ? startOfDay(new Date(comp.takeOnDate))
+    : null;
+  const takeOnRevaluation = takeOnDate
+    ? (comp.revaluations || []).filter(r => isValid(new Date(r.date)) && isBefore(startOfDay(new Date(r.date)), takeOnDate)).sort((a, b) => a.date.localeCompare(b.date)).pop()
+    : undefined;
+  const takeOnGross = takeOnRevaluation ? Number(takeOnRevaluation.newFairValue) || 0 : comp.cost;
+  const takeOnAccumDepr = Math.max(0, comp.takeOnAccumulatedDepr || 0);
+  const takeOnSurplus = Math.max(0, comp.takeOnRevaluationSurplus || 0);
+
+  const emptyIFRSValues = {
+    cost: 0, gross: 0, accumDepr: 0, impairments: 0, impairmentReversals: 0, revaluations: 0, residual: 0,
+    deprCharged: 0, accumEliminated: 0, surplus: 0, surplusIncrease: 0, surplusDecrease: 0,
+    surplusTransferred: 0, revalGainPL: 0, revalLossPL: 0,
+    impairmentLossPL: 0, impairmentLossOCI: 0, impairmentReversalPL: 0, impairmentReversalOCI: 0
+  };
+
+  // Same-day events apply revaluation first, then impairment, then reversal
+  const timeline: ValuationEvent[] = [
+    ...(comp.revaluations || []).map(r => ({ kind: 'revaluation' as const, at: startOfDay(new Date(r.date)), amount: Number(r.newFairValue) || 0 })),
+    ...getImpairmentEvents(comp).flatMap(i => [
+      { kind: 'impairment' as const, at: startOfDay(new Date(i.date)), amount: Number(i.recoverableAmount) || 0 },
+      ...(i.reversal ? [{ kind: 'reversal' as const, at: startOfDay(new Date(i.reversal.date)), amount: Number(i.reversal.recoverableAmount) || 0 }] : [])
+    ])
+  ]
+    .filter(e => isValid(e.at) && !isBefore(e.at, takeOnDate || acqDate))
+    .sort((a, b) => a.at.getTime() - b.at.getTime() || EVENT_ORDER[a.kind] - EVENT_ORDER[b.kind]);
+
+  /**
+   * Walks the component's revaluation and impairment events in date order.
+   * Revaluations use the IAS 16.35(b) elimination method; impairments write the gross amount
+   * down to recoverable amount (IAS 36.59) and reversals are capped at the carrying amount
+   * the component would have had without any impairment (IAS 36.117). Depreciation after each
+   * event runs prospectively on the new carrying amount. Balances are end-of-day values; the
+   * flow totals are cumulative since acquisition so period movements are simple differences.
+   * Before a take-on date the component is held at its take-on balances.
+   */
+  const getIFRSValuesAt = (targetDate: Date, includeImpairments = true): typeof emptyIFRSValues => {
     const normalizedTarget = startOfDay(targetDate);
     
     // If targeted date is before acquisition, everything is 0
-    if (isBefore(normalizedTarget, acqDate)) {
-      return { cost: 0, accumDepr: 0, impairments: 0, revaluations: 0, residual: 0 };
-    }
+    if (isBefore(normalizedTarget, acqDate)) return emptyIFRSValues;
     
     // If targeted date is ON or AFTER disposal date, balance sheet values are 0
-    if (dispDate && (isAfter(normalizedTarget, subDays(dispDate, 1)) || normalizedTarget.getTime() === dispDate.getTime())) {
-      return { cost: 0, accumDepr: 0, impairments: 0, revaluations: 0, residual: 0 };
+    if (dispDate && !isBefore(normalizedTarget, dispDate)) return emptyIFRSValues;
+
+    const historicalAccumAt = (date: Date) => accrueDepreciation(comp, policy, acqDate, comp.cost, residual, acqDate, date);
+
+    let gross = comp.cost;
+    let accumDepr = 0;
+    let surplus = 0;
+    let lossesInPL = 0; // Revaluation decreases expensed that a later increase must reverse through P&L first
+    let impairmentLossesInPL = 0;
+    const v = { ...emptyIFRSValues };
+    let segmentStart = acqDate;
+
+    if (takeOnDate) {
+      gross = takeOnGross;
+      accumDepr = takeOnAccumDepr;
+      surplus = takeOnSurplus;
+      v.deprCharged = takeOnAccumDepr;
+      v.revaluations = takeOnGross - comp.cost;
+      v.surplusIncrease = takeOnSurplus;
+      segmentStart = takeOnDate;
+      if (isBefore(normalizedTarget, takeOnDate)) return { ...v, cost: comp.cost, gross, accumDepr, residual, surplus };
     }
 
-    const effectiveDeprEnd = dispDate && isAfter(normalizedTarget, subDays(dispDate, 1)) ? subDays(dispDate, 1) : normalizedTarget;
-    const daysHeld = Math.max(0, differenceInDays(effectiveDeprEnd, acqDate) + 1);
-    
-    const relevantRevals = (comp.revaluations || [])
-      .filter(r => !isAfter(startOfDay(new Date(r.date)), normalizedTarget))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    const totalRevalImpact = relevantRevals.reduce((acc, curr) => curr.newFairValue - comp.cost, 0);
-    const totalImpairment = (comp.impairmentLoss || 0);
+    const accrueTo = (segmentEnd: Date) => {
+      const charge = accrueDepreciation(comp, policy, acqDate, gross - accumDepr, residual, segmentStart, segmentEnd);
+      accumDepr += charge;
+      v.deprCharged += charge;
+
+      // Excess of depreciation on the revalued amount over historical cost is realised (IAS 16.41)
+      if (surplus > 0) {
+        const historicalCharge = historicalAccumAt(segmentEnd) - historicalAccumAt(subDays(segmentStart, 1));
+        const transfer = Math.min(surplus, Math.max(0, charge - historicalCharge));
+        surplus -= transfer;
+        v.surplusTransferred += transfer;
+      }
+    };
+
+    timeline
+      .filter(e => !isAfter(e.at, normalizedTarget) && (includeImpairments || e.kind === 'revaluation'))
+      .forEach(e => {
+        // Events take effect at the start of their date
+        accrueTo(subDays(e.at, 1));
+        segmentStart = e.at;
+        const carrying = gross - accumDepr;
+
+        if (e.kind === 'revaluation') {
+          const change = e.amount - carrying;
+          if (change >= 0) {
+            const reversal = Math.min(change, lossesInPL);
+            lossesInPL -= reversal;
+            v.revalGainPL += reversal;
+            v.surplusIncrease += change - reversal;
+            surplus += change - reversal;
+          } else {
+            const againstSurplus = Math.min(-change, surplus);
+            surplus -= againstSurplus;
+            v.surplusDecrease += againstSurplus;
+            v.revalLossPL += -change - againstSurplus;
+            lossesInPL += -change - againstSurplus;
+          }
+
+          v.accumEliminated += accumDepr;
+          v.revaluations += e.amount - gross;
+          gross = e.amount;
+          accumDepr = 0;
+        } else if (e.kind === 'impairment') {
+          const loss = Math.max(0, carrying - e.amount);
+          // A revalued component is impaired against its surplus first (IAS 36.61)
+          const againstSurplus = Math.min(loss, surplus);
+          surplus -= againstSurplus;
+          v.impairmentLossOCI += againstSurplus;
+          v.impairmentLossPL += loss - againstSurplus;
+          impairmentLossesInPL += loss - againstSurplus;
+          v.impairments += loss;
+          gross -= loss;
+        } else {
+          const unimpaired = getIFRSValuesAt(subDays(e.at, 1), false);
+          const cap = Math.max(0, (unimpaired.gross - unimpaired.accumDepr) - carrying);
+          const reversal = Math.min(cap, Math.max(0, e.amount - carrying));
+          const toPL = Math.min(reversal, impairmentLossesInPL);
+          impairmentLossesInPL -= toPL;
+          v.impairmentReversalPL += toPL;
+          v.impairmentReversalOCI += reversal - toPL;
+          surplus += reversal - toPL;
+          v.impairmentReversals += reversal;
+          gross += reversal;
+        }
+      });
+
+    accrueTo(normalizedTarget);
 
-    const grossCarryingAmount = comp.cost + totalRevalImpact - totalImpairment;
-    const residual = comp.residualValue || 0;
-    const depreciableAmount = Math.max(0, grossCarryingAmount - residual);
-    
-    const annualDepr = comp.usefulLifeYears > 0 ? depreciableAmount / comp.usefulLifeYears : 0;
-    const dailyDeprRate = annualDepr / 365.25;
-    const accumDepr = Math.min(depreciableAmount, dailyDeprRate * daysHeld);
-    
     return { 
+      ...v,
       cost: comp.cost, 
+      gross,
       accumDepr, 
-      impairments: totalImpairment, 
-      revaluations: totalRevalImpact,
-      residual
+      residual,
+      surplus
     };
   };
 
@@ -115,19 +453,36 @@ const calculateComponentDepreciation = (
        return { cost: 0, taxValue: 0, accumTaxDepr: 0, currentTaxYear: 0 };
     }
 
-    const daysHeld = Math.max(0, differenceInDays(normalizedTarget, acqDate) + 1);
-    const fyAcq = getFiscalYear(acqDate);
-    const fyTarget = getFiscalYear(normalizedTarget);
-    const currentTaxYear = Math.max(1, fyTarget - fyAcq + 1);
+    // Owned but not yet in use: no allowance has been claimed
+    if (isBefore(normalizedTarget, inUseDate)) return { cost: comp.cost, taxValue: comp.cost, accumTaxDepr: 0, currentTaxYear: 0 };
+
+    const daysInUse = Math.max(0, differenceInDays(normalizedTarget, inUseDate) + 1);
+    const currentTaxYear = countFiscalYears(inUseDate, normalizedTarget, settings);
     
     let accumTaxDepr = 0;
+    const taxStrategy = resolveTaxStrategy(comp, category.taxStrategy);
 
-    if (category.taxStrategy === TaxStrategy.STANDARD_FLAT) {
+    if (takeOnDate && comp.takeOnTaxValue !== undefined) {
+      // Allowances claimed in the legacy register are carried in; claims resume from the cut-over
+      accumTaxDepr = Math.min(comp.cost, Math.max(0, comp.cost - comp.takeOnTaxValue));
+      if (!isBefore(normalizedTarget, takeOnDate)) {
+        if (taxStrategy === TaxStrategy.STANDARD_FLAT) {
+          const annualTaxDepr = comp.cost * (category.defaultTaxRate / 100);
+          accumTaxDepr += (annualTaxDepr / 365.25) * (differenceInDays(normalizedTarget, isAfter(inUseDate, takeOnDate) ? inUseDate : takeOnDate) + 1);
+        } else {
+          const yearsClaimed = isAfter(takeOnDate, inUseDate) ? countFiscalYears(inUseDate, subDays(takeOnDate, 1), settings) : 0;
+          for (let y = yearsClaimed + 1; y <= currentTaxYear; y++) {
+            accumTaxDepr += getTaxYearDeduction(comp, taxStrategy, y);
+          }
+        }
+        accumTaxDepr = Math.min(comp.cost, accumTaxDepr);
+      }
+    } else if (taxStrategy === TaxStrategy.STANDARD_FLAT) {
       const annualTaxDepr = comp.cost * (category.defaultTaxRate / 100);
-      accumTaxDepr = Math.min(comp.cost, (annualTaxDepr / 365.25) * daysHeld);
+      accumTaxDepr = Math.min(comp.cost, (annualTaxDepr / 365.25) * daysInUse);
     } else {
       for (let y = 1; y <= currentTaxYear; y++) {
-        accumTaxDepr += getTaxYearDeduction(comp, category.taxStrategy, y);
+        accumTaxDepr += getTaxYearDeduction(comp, taxStrategy, y);
       }
       accumTaxDepr = Math.min(comp.cost, accumTaxDepr);
     }
@@ -147,25 +502,27 @@ const calculateComponentDepreciation = (
   const sarsCl = getSARSValuesAt(reportEndDate);
 
   const additions = (isAfter(acqDate, dayBeforeStart) && (isBefore(acqDate, reportEndDate) || acqDate.getTime() === startOfDay(reportEndDate).getTime())) ? comp.cost : 0;
-  
-  const periodicRevals = ifrsCl.revaluations - ifrsOp.revaluations;
-  const periodicImpairments = ifrsCl.impairments - ifrsOp.impairments;
+
+  const hasDisposal = !!dispDate && isAfter(dispDate, dayBeforeStart) && !isAfter(dispDate, startOfDay(reportEndDate));
+  // Period flows run to the day before disposal, when the component was last on the books
+  const dayBeforeDisp = dispDate ? subDays(dispDate, 1) : null;
+  const ifrsFlowEnd = hasDisposal ? getIFRSValuesAt(dayBeforeDisp!) : ifrsCl;
 
   let disposals = 0;
   let accumDeprOnDisp = 0;
   let taxDeprOnDisp = 0;
   let profitOnDisp = 0;
   let recoupment = 0;
+  let scrappingAllowance = 0;
+  let cgtProceeds = 0;
+  let cgtBaseCost = 0;
 
-  if (dispDate && isAfter(dispDate, dayBeforeStart) && (isBefore(dispDate, reportEndDate) || dispDate.getTime() === startOfDay(reportEndDate).getTime())) {
+  if (hasDisposal) {
     // For movement schedule, "disposals" column represents the carrying amount being REMOVED.
-    // We get values at the day before disposal to see what was actually on the books.
-    const dayBeforeDisp = subDays(dispDate, 1);
-    const valAtDisp = getIFRSValuesAt(dayBeforeDisp);
-    const taxValAtDisp = getSARSValuesAt(dayBeforeDisp);
+    const taxValAtDisp = getSARSValuesAt(dayBeforeDisp!);
 
-    disposals = valAtDisp.cost + valAtDisp.revaluations - valAtDisp.impairments;
-    accumDeprOnDisp = valAtDisp.accumDepr;
+    disposals = ifrsFlowEnd.gross;
+    accumDeprOnDisp = ifrsFlowEnd.accumDepr;
     taxDeprOnDisp = taxValAtDisp.accumTaxDepr;
 
     const nbvAtDisp = disposals - accumDeprOnDisp;
@@ -174,93 +531,119 @@ const calculateComponentDepreciation = (
     const proceeds = comp.disposalProceeds || 0;
     if (proceeds > taxValAtDisp.taxValue) {
       recoupment = Math.min(proceeds - taxValAtDisp.taxValue, comp.cost - taxValAtDisp.taxValue);
+    } else if (getTaxWriteOffYears(comp, category) <= SARS_11O_MAX_WRITE_OFF_YEARS) {
+      scrappingAllowance = taxValAtDisp.taxValue - proceeds;
     }
+
+    // Recoupments are taxed as income, so they come out of the capital proceeds
+    cgtProceeds = proceeds - recoupment;
+    const allowancesBeforeValuationDate = getSARSValuesAt(subDays(new Date(CGT_VALUATION_DATE), 1)).accumTaxDepr;
+    cgtBaseCost = getCgtBaseCost(comp, acqDate, dispDate!, allowancesBeforeValuationDate, taxValAtDisp.accumTaxDepr + scrappingAllowance, cgtProceeds);
   }
 
+  // Units consumed in the period stop at the day before disposal, matching the depreciation charge
+  const unitsWindowStart = isAfter(acqDate, reportStartDate) ? acqDate : startOfDay(reportStartDate);
+  const unitsWindowEnd = dispDate && !isAfter(dispDate, reportEndDate) ? subDays(dispDate, 1) : startOfDay(reportEndDate);
+  const unitsConsumed = policy.method === DepreciationMethod.UNITS_OF_PRODUCTION
+    ? getUnitsLogged(comp, unitsWindowStart, unitsWindowEnd)
+    : 0;
+
   // Periodic depreciation (The "Charge")
-  // Movement Formula: Closing Accum = Opening Accum + Charge - DisposalsAccum
-  // Therefore: Charge = Closing Accum - Opening Accum + DisposalsAccum
-  const periodicDepr = Math.max(0, ifrsCl.accumDepr - ifrsOp.accumDepr + accumDeprOnDisp);
+  // Movement Formula: Closing Accum = Opening Accum + Charge - DisposalsAccum - Eliminated on revaluation
+  const periodicDepr = ifrsFlowEnd.deprCharged - ifrsOp.deprCharged;
   const taxDedForPeriod = Math.max(0, sarsCl.accumTaxDepr - sarsOp.accumTaxDepr + taxDeprOnDisp);
 
+  // Any surplus still held when the component is derecognised is realised in full
+  const surplusTransfer = ifrsFlowEnd.surplusTransferred - ifrsOp.surplusTransferred + (hasDisposal ? ifrsFlowEnd.surplus : 0);
+
   return {
-    openingCost: ifrsOp.cost + ifrsOp.revaluations - ifrsOp.impairments,
+    componentId: comp.id,
+    depreciationMethod: policy.method,
+    depreciationRate: policy.rate,
+    fundingSource: getFundingPolicy(comp.fundingSource, category).source,
+    openingCost: ifrsOp.gross,
     additions,
     disposals,
-    revaluations: periodicRevals,
-    impairments: periodicImpairments,
-    closingCost: ifrsCl.cost + ifrsCl.revaluations - ifrsCl.impairments,
+    revaluations: ifrsFlowEnd.revaluations - ifrsOp.revaluations,
+    impairments: ifrsFlowEnd.impairments - ifrsOp.impairments,
+    impairmentReversals: ifrsFlowEnd.impairmentReversals - ifrsOp.impairmentReversals,
+    closingCost: ifrsCl.gross,
     openingAccumulatedDepr: ifrsOp.accumDepr,
     periodicDepr,
     accumulatedDeprOnDisposals: accumDeprOnDisp,
+    accumulatedDeprOnRevaluations: ifrsFlowEnd.accumEliminated - ifrsOp.accumEliminated,
     closingAccumulatedDepr: ifrsCl.accumDepr,
-    nbv: Math.max(ifrsCl.residual, (ifrsCl.cost + ifrsCl.revaluations - ifrsCl.impairments) - ifrsCl.accumDepr),
+    nbv: ifrsCl.gross - ifrsCl.accumDepr,
+    openingTaxValue: sarsOp.taxValue,
     taxValue: sarsCl.taxValue,
     taxDeductionForPeriod: taxDedForPeriod,
     openingAccumulatedTaxDepr: sarsOp.accumTaxDepr,
     taxDeprOnDisposals: taxDeprOnDisp,
     closingAccumulatedTaxDepr: sarsCl.accumTaxDepr,
     taxYearOfAsset: sarsCl.currentTaxYear,
+    unitsConsumed,
+    openingRevaluationSurplus: ifrsOp.surplus,
+    revaluationSurplusIncrease: ifrsFlowEnd.surplusIncrease - ifrsOp.surplusIncrease,
+    revaluationSurplusDecrease: ifrsFlowEnd.surplusDecrease - ifrsOp.surplusDecrease,
+    revaluationSurplusTransfer: surplusTransfer,
+    closingRevaluationSurplus: ifrsCl.surplus,
+    revaluationGainPL: ifrsFlowEnd.revalGainPL - ifrsOp.revalGainPL,
+    revaluationLossPL: ifrsFlowEnd.revalLossPL - ifrsOp.revalLossPL,
+    impairmentLossPL: ifrsFlowEnd.impairmentLossPL - ifrsOp.impairmentLossPL,
+    impairmentLossOCI: ifrsFlowEnd.impairmentLossOCI - ifrsOp.impairmentLossOCI,
+    impairmentReversalPL: ifrsFlowEnd.impairmentReversalPL - ifrsOp.impairmentReversalPL,
+    impairmentReversalOCI: ifrsFlowEnd.impairmentReversalOCI - ifrsOp.impairmentReversalOCI,
     profitOnDisposal: profitOnDisp,
     recoupment: recoupment,
-    hasDisposal: disposals > 0
+    scrappingAllowance,
+    cgtProceeds,
+    cgtBaseCost,
+    capitalGain: cgtProceeds - cgtBaseCost
   };
 };
 
+// Every numeric movement that rolls up from components to the asset by simple addition
+const SUMMED_FIELDS = [
+  'openingCost', 'additions', 'disposals', 'revaluations', 'impairments', 'impairmentReversals', 'closingCost',
+  'openingAccumulatedDepr', 'periodicDepr', 'accumulatedDeprOnDisposals', 'accumulatedDeprOnRevaluations',
+  'closingAccumulatedDepr', 'nbv', 'taxValue', 'taxDeductionForPeriod', 'openingAccumulatedTaxDepr',
+  'openingTaxValue', 'taxDeprOnDisposals', 'closingAccumulatedTaxDepr', 'unitsConsumed', 'openingRevaluationSurplus',
+  'revaluationSurplusIncrease', 'revaluationSurplusDecrease', 'revaluationSurplusTransfer',
+  'closingRevaluationSurplus', 'revaluationGainPL', 'revaluationLossPL', 'impairmentLossPL', 'impairmentLossOCI',
+  'impairmentReversalPL', 'impairmentReversalOCI', 'profitOnDisposal', 'recoupment',
+  'scrappingAllowance', 'cgtProceeds', 'cgtBaseCost', 'capitalGain'
+] as const;
+
+type SummedField = typeof SUMMED_FIELDS[number];
+
+const emptyTotals = (): Record<SummedField, number> => {
+  return SUMMED_FIELDS.reduce((acc, f) => ({ ...acc, [f]: 0 }), {} as Record<SummedField, number>);
+};
+
 export const calculateDepreciation = (
   asset: Asset,
   reportStartDate: Date,
   reportEndDate: Date,
-  categories: AssetCategory[]
+  categories: AssetCategory[],
+  settings: CompanySettings = DEFAULT_COMPANY_SETTINGS
 ): DepreciationCalculation => {
   const category = categories.find(c => c.id === asset.categoryId);
   
   if (!category) {
-    return {
-      assetId: asset.id,
-      openingCost: 0, additions: 0, disposals: 0, revaluations: 0, impairments: 0, closingCost: 0,
-      openingAccumulatedDepr: 0, periodicDepr: 0, accumulatedDeprOnDisposals: 0,
-      closingAccumulatedDepr: 0, nbv: 0, taxValue: 0, taxDeductionForPeriod: 0,
-      openingAccumulatedTaxDepr: 0, taxDeprOnDisposals: 0, closingAccumulatedTaxDepr: 0,
-      taxYearOfAsset: 0
-    };
+    return { assetId: asset.id, ...emptyTotals(), taxYearOfAsset: 0 };
   }
 
-  const results = asset.components.map(c => calculateComponentDepreciation(c, reportStartDate, reportEndDate, category));
-
-  const total = results.reduce((acc, curr) => ({
-    openingCost: acc.openingCost + curr.openingCost,
-    additions: acc.additions + curr.additions,
-    disposals: acc.disposals + curr.disposals,
-    revaluations: acc.revaluations + curr.revaluations,
-    impairments: acc.impairments + curr.impairments,
-    closingCost: acc.closingCost + curr.closingCost,
-    openingAccumulatedDepr: acc.openingAccumulatedDepr + curr.openingAccumulatedDepr,
-    periodicDepr: acc.periodicDepr + curr.periodicDepr,
-    accumulatedDeprOnDisposals: acc.accumulatedDeprOnDisposals + curr.accumulatedDeprOnDisposals,
-    closingAccumulatedDepr: acc.closingAccumulatedDepr + curr.closingAccumulatedDepr,
-    nbv: acc.nbv + curr.nbv,
-    taxValue: acc.taxValue + curr.taxValue,
-    taxDeductionForPeriod: acc.taxDeductionForPeriod + curr.taxDeductionForPeriod,
-    openingAccumulatedTaxDepr: acc.openingAccumulatedTaxDepr + curr.openingAccumulatedTaxDepr,
-    taxDeprOnDisposals: acc.taxDeprOnDisposals + curr.taxDeprOnDisposals,
-    closingAccumulatedTaxDepr: acc.closingAccumulatedTaxDepr + curr.closingAccumulatedTaxDepr,
-    taxYearOfAsset: Math.max(acc.taxYearOfAsset, curr.taxYearOfAsset),
-    profitOnDisposal: acc.profitOnDisposal + curr.profitOnDisposal,
-    recoupment: acc.recoupment + curr.recoupment,
-    hasAnyDisposal: acc.hasAnyDisposal || curr.hasDisposal
-  }), {
-    openingCost: 0, additions: 0, disposals: 0, revaluations: 0, impairments: 0, closingCost: 0,
-    openingAccumulatedDepr: 0, periodicDepr: 0, accumulatedDeprOnDisposals: 0,
-    closingAccumulatedDepr: 0, nbv: 0, taxValue: 0, taxDeductionForPeriod: 0,
-    openingAccumulatedTaxDepr: 0, taxDeprOnDisposals: 0, closingAccumulatedTaxDepr: 0,
-    taxYearOfAsset: 0, profitOnDisposal: 0, recoupment: 0, hasAnyDisposal: false
-  });
+  const results: ComponentDepreciationCalculation[] = asset.components.map(c => calculateComponentDepreciation(c, reportStartDate, reportEndDate, category, settings));
+
+  const totals = results.reduce((acc, curr) => {
+    SUMMED_FIELDS.forEach(f => { acc[f] += curr[f] || 0; });
+    return acc;
+  }, emptyTotals());
 
   return {
     assetId: asset.id,
-    ...total,
-    profitOnDisposal: total.hasAnyDisposal ? total.profitOnDisposal : 0,
-    recoupment: total.hasAnyDisposal ? total.recoupment : 0
+    ...totals,
+    taxYearOfAsset: results.reduce((max, r) => Math.max(max, r.taxYearOfAsset), 0),
+    components: results
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,65 @@
+import { CompanySettings, DeferredTaxLine, DepreciationCalculation } from '../types';
+import { DEFAULT_COMPANY_SETTINGS } from '../constants';
+import { parseISO } from 'date-fns';
+
+const subDays = (date: Date, amount: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() - amount);
+  return result;
+};
+
+/**
+ * Company tax rate (%) in force on the given date; the earliest rate applies before any effective date.
+ */
+export const getTaxRateAt = (date: Date, settings: CompanySettings = DEFAULT_COMPANY_SETTINGS): number => {
+  const rates = [...(settings.taxRates?.length ? settings.taxRates : DEFAULT_COMPANY_SETTINGS.taxRates)]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  // Effective dates are local calendar days; new Date() would read them as UTC midnight
+  const inForce = rates.filter(r => parseISO(r.effectiveFrom) <= date);
+  return (inForce.length > 0 ? inForce[inForce.length - 1] : rates[0]).rate;
+};
+
+/**
+ * IAS 12 deferred tax on one asset's movement schedule. Each balance is measured at the rate in
+ * force on its date; tax on revaluation surplus movements goes to OCI and the rest, including the
+ * effect of rate changes, to profit or loss.
+ */
+export const calculateDeferredTax = (
+  calc: DepreciationCalculation,
+  reportStartDate: Date,
+  reportEndDate: Date,
+  settings: CompanySettings = DEFAULT_COMPANY_SETTINGS
+): DeferredTaxLine => {
+  const openingRate = getTaxRateAt(subDays(reportStartDate, 1), settings);
+  const closingRate = getTaxRateAt(reportEndDate, settings);
+
+  const openingCarryingAmount = calc.openingCost - calc.openingAccumulatedDepr;
+  const openingTaxBase = calc.openingTaxValue || 0;
+  const openingTemporaryDifference = openingCarryingAmount - openingTaxBase;
+  const closingCarryingAmount = calc.nbv;
+  const closingTaxBase = calc.taxValue;
+  const closingTemporaryDifference = closingCarryingAmount - closingTaxBase;
+
+  const openingDeferredTax = openingTemporaryDifference * openingRate / 100;
+  const closingDeferredTax = closingTemporaryDifference * closingRate / 100;
+
+  const surplusMovementOCI = calc.revaluationSurplusIncrease - calc.revaluationSurplusDecrease
+    - (calc.impairmentLossOCI || 0) + (calc.impairmentReversalOCI || 0);
+  const movementOCI = surplusMovementOCI * closingRate / 100;
+
+  return {
+    assetId: calc.assetId,
+    openingCarryingAmount,
+    openingTaxBase,
+    openingTemporaryDifference,
+    openingRate,
+    openingDeferredTax,
+    closingCarryingAmount,
+    closingTaxBase,
+    closingTemporaryDifference,
+    closingRate,
+    closingDeferredTax,
+    movementPL: closingDeferredTax - openingDeferredTax - movementOCI,
+    movementOCI
+  };
+};
@@ -0,0 +1,74 @@
+import { Asset, AssetCategory, AssetStatus, CompanySettings, ForecastLine, PlannedCapex } from '../types';
+import { DEFAULT_COMPANY_SETTINGS } from '../constants';
+import { calculateDepreciation } from './assetService';
+import { format } from 'date-fns';
+
+export const FORECAST_HORIZONS = [12, 24, 36, 48, 60];
+
+/**
+ * Builds the hypothetical asset a planned acquisition is forecast as, using the class defaults
+ * for residual value, tax rate and depreciation policy.
+ */
+export const plannedCapexToAsset = (item: PlannedCapex, category?: AssetCategory): Asset => ({
+  id: `planned-${item.id}`,
+  assetNumber: 'PLANNED',
+  tagId: '',
+  name: item.description,
+  description: item.description,
+  categoryId: item.categoryId,
+  branchId: item.branchId,
+  locationId: '',
+  subLocationId: '',
+  status: AssetStatus.ACTIVE,
+  components: [{
+    id: `planned-${item.id}-main`,
+    name: 'Main Asset',
+    acquisitionDate: item.plannedDate,
+    cost: item.cost,
+    residualValue: (item.cost * (category?.residualPercentage || 0)) / 100,
+    usefulLifeYears: item.usefulLifeYears,
+    taxRate: category?.defaultTaxRate || 20,
+    status: AssetStatus.ACTIVE
+  }]
+});
+
+/**
+ * Monthly IFRS depreciation and SARS allowances per class and branch from `from` for `months` months,
+ * for the register as it stands plus planned capex. Allowances claimed per tax year fall in the
+ * first month of that year, as they do in the register.
+ */
+export const buildDepreciationForecast = (
+  assets: Asset[],
+  plannedCapex: PlannedCapex[],
+  categories: AssetCategory[],
+  from: Date,
+  months: number,
+  settings: CompanySettings = DEFAULT_COMPANY_SETTINGS
+): ForecastLine[] => {
+  const sources = [
+    ...assets.map(asset => ({ asset, planned: false })),
+    ...plannedCapex.map(item => ({ asset: plannedCapexToAsset(item, categories.find(c => c.id === item.categoryId)), planned: true }))
+  ];
+  const lines: Record<string, ForecastLine> = {};
+
+  for (let i = 0; i < months; i++) {
+    const monthStart = new Date(from.getFullYear(), from.getMonth() + i, 1);
+    const monthEnd = new Date(from.getFullYear(), from.getMonth() + i + 1, 0);
+    const period = format(monthStart, 'yyyy-MM');
+
+    sources.forEach(({ asset, planned }) => {
+      const calc = calculateDepreciation(asset, monthStart, monthEnd, categories, settings);
+      if (Math.abs(calc.periodicDepr) < 0.005 && Math.abs(calc.taxDeductionForPeriod) < 0.005) return;
+      const key = `${period}|${asset.categoryId}|${asset.branchId}`;
+      if (!lines[key]) lines[key] = { period, categoryId: asset.categoryId, branchId: asset.branchId, depreciation: 0, taxAllowance: 0, plannedDepreciation: 0, plannedTaxAllowance: 0 };
+      lines[key].depreciation += calc.periodicDepr;
+      lines[key].taxAllowance += calc.taxDeductionForPeriod;
+      if (planned) {
+        lines[key].plannedDepreciation += calc.periodicDepr;
+        lines[key].plannedTaxAllowance += calc.taxDeductionForPeriod;
+      }
+    });
+  }
+
+  return Object.values(lines).sort((a, b) => a.period.localeCompare(b.period) || a.categoryId.localeCompare(b.categoryId) || a.branchId.localeCompare(b.branchId));
+};
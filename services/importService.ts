@@ -0,0 +1,684 @@
+import { Asset, AssetCategory, AssetComponent, AssetLocation, AssetStatus, ImportCreatedReferences, ImportFieldChange, ImportColumnMapping, ImportIssue, ImportMappingProfile, ImportMatchKey, ImportMode, ImportPlanRow, SheetRow, StagedImportRow, StagedMigration } from '../types';
+import { format, isValid, parse } from 'date-fns';
+import { NEW_CATEGORY_DEFAULTS } from '../constants';
+import { createLocationUnit } from './locationService';
+
+// Template columns with the alternative headers older sheets use
+const COLUMN_ALIASES: Record<string, string[]> = {
+  AssetNumber: ['AssetNumber', 'Asset No'],
+  TagId: ['TagId', 'Tag ID', 'Electronic Tag', 'RFID'],
+  SupplierName: ['SupplierName', 'Supplier'],
+  InvoiceNumber: ['InvoiceNumber', 'Invoice'],
+  Component: ['Component', 'ComponentName'],
+  BroughtIntoUseDate: ['BroughtIntoUseDate', 'InUseDate'],
+  AccumulatedDepreciation: ['AccumulatedDepreciation', 'Accumulated Depreciation'],
+  TaxValue: ['TaxValue', 'Tax Value']
+};
+
+// Template columns and the register fields they fill, with the label used in diffs and the audit trail
+const ASSET_COLUMN_FIELDS: { column: string, field: keyof Asset, label: string }[] = [
+  { column: 'AssetNumber', field: 'assetNumber', label: 'Asset Number' },
+  { column: 'TagId', field: 'tagId', label: 'Tag ID' },
+  { column: 'Name', field: 'name', label: 'Name' },
+  { column: 'Description', field: 'description', label: 'Description' },
+  { column: 'Category', field: 'categoryId', label: 'Asset Class' },
+  { column: 'Branch', field: 'branchId', label: 'Branch' },
+  { column: 'Location', field: 'locationId', label: 'Location' },
+  { column: 'SubLocation', field: 'subLocationId', label: 'Sub-Location' }
+];
+
+const COMPONENT_COLUMN_FIELDS: { column: string, field: keyof AssetComponent, label: string, kind?: 'date' | 'number' }[] = [
+  { column: 'Cost', field: 'cost', label: 'Cost', kind: 'number' },
+  { column: 'AcquisitionDate', field: 'acquisitionDate', label: 'Acquisition Date', kind: 'date' },
+  { column: 'UsefulLife', field: 'usefulLifeYears', label: 'Useful Life', kind: 'number' },
+  { column: 'TaxRate', field: 'taxRate', label: 'Tax Rate', kind: 'number' },
+  { column: 'ResidualValue', field: 'residualValue', label: 'Residual Value', kind: 'number' },
+  { column: 'SupplierName', field: 'supplierName', label: 'Supplier' },
+  { column: 'SupplierContact', field: 'supplierContact', label: 'Supplier Contact' },
+  { column: 'InvoiceNumber', field: 'invoiceNumber', label: 'Invoice Number' }
+];
+
+// Rows cannot be resolved at all without these columns
+export const REQUIRED_IMPORT_COLUMNS = ['AssetNumber', 'Category', 'Branch', 'Cost', 'AcquisitionDate'];
+
+const readCell = (row: Record<string, any>, column: string): any => {
+  const key = (COLUMN_ALIASES[column] || [column]).find(k => row[k] !== undefined && row[k] !== null && String(row[k]).trim() !== '');
+  return key ? row[key] : undefined;
+};
+
+const readText = (row: Record<string, any>, column: string): string => String(readCell(row, column) ?? '').trim();
+
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
+// Text dates such as 03/04/2024 that read as a valid date both day-first and month-first
+export const isAmbiguousImportDate = (value: any): boolean => {
+  const parts = typeof value === 'string' ? value.trim().match(NUMERIC_DATE) : null;
+  return !!parts && parts[1] !== parts[2] && Number(parts[1]) <= 12 && Number(parts[2]) <= 12;
+};
+
+/**
+ * Excel serial numbers, Date cells and date strings to yyyy-MM-dd; undefined when the value is not a date.
+ * Numeric text dates are read day-first unless only month-first fits; callers flag the ambiguous ones.
+ */
+export const parseImportDate = (value: any): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return isValid(parse(value.trim(), 'yyyy-MM-dd', new Date())) ? value.trim() : undefined;
+  const parts = typeof value === 'string' ? value.trim().match(NUMERIC_DATE) : null;
+  if (parts) {
+    const monthFirst = Number(parts[1]) <= 12 && Number(parts[2]) > 12;
+    const d = parse(`${monthFirst ? parts[2] : parts[1]}/${monthFirst ? parts[1] : parts[2]}/${parts[3]}`, 'd/M/yyyy', new Date());
+    return isValid(d) ? format(d, 'yyyy-MM-dd') : undefined;
+  }
+  if (typeof value === 'number') return new Date((value - (25567 + 1)) * 86400 * 1000).toISOString().split('T')[0];
+  const d = value instanceof Date ? value : new Date(value);
+  return isNaN(d.getTime()) ? undefined : format(d, 'yyyy-MM-dd');
+};
+
+// Accepts spreadsheet numbers and text such as "R 55,000.00"; undefined when blank or not a number
+export const parseImportNumber = (value: any): number | undefined => {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').replace(/[R\s,]/g, '');
+  if (!text) return undefined;
+  const amount = Number(text);
+  return isNaN(amount) ? undefined : amount;
+};
+
+/**
+ * Template columns the sheet has no header for, checked on its first rows. Any missing required column blocks the import.
+ */
+export const findMissingImportColumns = (rows: Record<string, any>[], required: string[] = REQUIRED_IMPORT_COLUMNS): string[] => {
+  const headers = new Set(rows.slice(0, 50).flatMap(r => Object.keys(r)));
+  return required.filter(column => !(COLUMN_ALIASES[column] || [column]).some(h => headers.has(h)));
+};
+
+// Template columns a spreadsheet column can be mapped to, with the register field each fills
+export const IMPORT_FIELDS: { column: string, label: string, target: 'Asset' | 'Component', kind?: 'date' | 'number' }[] = [
+  ...ASSET_COLUMN_FIELDS.map(f => ({ column: f.column, label: f.label, target: 'Asset' as const })),
+  ...COMPONENT_COLUMN_FIELDS.map(f => ({ column: f.column, label: f.label, target: 'Component' as const, kind: f.kind }))
+];
+
+// Headers seen on supplier lists and auditor sheets, used only to suggest a mapping
+const HEADER_SYNONYMS: Record<string, string[]> = {
+  AssetNumber: ['Asset Code', 'Asset #', 'Asset Ref', 'Register Number', 'Fixed Asset Number'],
+  TagId: ['Barcode', 'Tag', 'Tag Number'],
+  Name: ['Asset Name', 'Item', 'Item Name', 'Asset Description'],
+  Description: ['Details', 'Notes', 'Long Description'],
+  Category: ['Asset Class', 'Class', 'Asset Category', 'Asset Type'],
+  Branch: ['Site', 'Branch Name', 'Business Unit'],
+  Location: ['Room', 'Area', 'Department'],
+  SubLocation: ['Sub Location', 'Bay', 'Position'],
+  Cost: ['Purchase Price', 'Cost Price', 'Original Cost', 'Amount', 'Value'],
+  AcquisitionDate: ['Purchase Date', 'Date Acquired', 'Acquired', 'Invoice Date', 'Date'],
+  UsefulLife: ['Useful Life (Years)', 'Life', 'Life (Years)', 'Years'],
+  TaxRate: ['Wear and Tear Rate', 'Tax %', 'Allowance Rate'],
+  ResidualValue: ['Residual', 'Scrap Value', 'Salvage Value'],
+  SupplierContact: ['Supplier Email', 'Supplier Phone', 'Contact'],
+  InvoiceNumber: ['Invoice No', 'Invoice #', 'Inv No']
+};
+
+const normaliseHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Index of the header row in a sheet read as rows of cells: the widest row of only text among the first 20,
+ * so title and blank rows above the headers are skipped.
+ */
+export const detectHeaderRow = (grid: any[][]): number => {
+  let headerRow = 0;
+  let widest = 0;
+  grid.slice(0, 20).forEach((cells, index) => {
+    const filled = (cells || []).filter(c => c !== undefined && c !== null && String(c).trim() !== '');
+    if (filled.length > widest && filled.every(c => typeof c === 'string')) {
+      headerRow = index;
+      widest = filled.length;
+    }
+  });
+  return headerRow;
+};
+
+// Rows below the header keyed by header text; blank headers become "Column N" and repeats are numbered.
+// `firstRow` is the zero-based sheet row the grid starts at, since a sheet's used range need not start at row 1.
+export const readSheetWithHeaders = (grid: any[][], headerRow: number, firstRow = 0): { headers: string[], rows: SheetRow[] } => {
+  const seen = new Map<string, number>();
+  const headers = (grid[headerRow] || []).map((cell, i) => {
+    const text = String(cell ?? '').trim() || `Column ${i + 1}`;
+    const count = (seen.get(text) || 0) + 1;
+    seen.set(text, count);
+    return count > 1 ? `${text} (${count})` : text;
+  });
+  const rows = grid
+    .map((cells, index) => ({ cells: cells || [], rowNumber: firstRow + index + 1 }))
+    .slice(headerRow + 1)
+    .filter(({ cells }) => cells.some(c => c !== undefined && c !== null && String(c).trim() !== ''))
+    .map(({ cells, rowNumber }) => ({ rowNumber, values: Object.fromEntries(headers.map((h, i) => [h, cells[i]])) }));
+  return { headers, rows };
+};
+
+/**
+ * Suggested source header for each template column, matched on the template name, its label, the aliases
+ * older sheets use and common supplier headers. Each header is suggested once.
+ */
+export const suggestColumnMapping = (headers: string[]): ImportColumnMapping[] => {
+  const used = new Set<string>();
+  return IMPORT_FIELDS.map(f => {
+    const candidates = [f.column, f.label, ...(COLUMN_ALIASES[f.column] || []), ...(HEADER_SYNONYMS[f.column] || [])].map(normaliseHeader);
+    const source = candidates.map(c => headers.find(h => !used.has(h) && normaliseHeader(h) === c)).find(Boolean);
+    if (source) used.add(source);
+    return { column: f.column, source };
+  });
+};
+
+// The saved profile whose mapped headers all appear in this sheet, preferring the one that maps the most columns
+export const findMatchingProfile = (profiles: ImportMappingProfile[], headers: string[]): ImportMappingProfile | undefined => {
+  const available = new Set(headers);
+  return profiles
+    .filter(p => p.mappings.some(m => m.source) && p.mappings.every(m => !m.source || available.has(m.source)))
+    .sort((a, b) => b.mappings.filter(m => m.source).length - a.mappings.filter(m => m.source).length)[0];
+};
+
+// Required template columns with neither a source column nor a default value
+export const findUnmappedRequiredColumns = (mappings: ImportColumnMapping[]): string[] =>
+  REQUIRED_IMPORT_COLUMNS.filter(column => {
+    const mapping = mappings.find(m => m.column === column);
+    return !mapping?.source && !String(mapping?.defaultValue ?? '').trim();
+  });
+
+/**
+ * Rewrites sheet rows into template columns. Text dates are read with the mapping's pattern and comma-decimal
+ * numbers converted; a value that does not fit is passed through unchanged so staging reports it.
+ */
+export const applyColumnMapping = (rows: Record<string, any>[], mappings: ImportColumnMapping[]): Record<string, any>[] =>
+  rows.map(row => {
+    const mapped: Record<string, any> = {};
+    mappings.forEach(m => {
+      const kind = IMPORT_FIELDS.find(f => f.column === m.column)?.kind;
+      const cell = m.source ? row[m.source] : undefined;
+      let value = cell === undefined || cell === null || String(cell).trim() === '' ? (m.defaultValue ?? '') : cell;
+      if (typeof value === 'string') value = value.trim();
+      if (value === '') return;
+
+      if (kind === 'date' && m.dateFormat && typeof value === 'string') {
+        const parsed = parse(value, m.dateFormat, new Date());
+        if (isValid(parsed)) value = format(parsed, 'yyyy-MM-dd');
+      } else if (kind === 'number' && m.decimalComma && typeof value === 'string') {
+        const text = value.replace(/[R\s.]/g, '').replace(',', '.');
+        if (text && !isNaN(Number(text))) value = Number(text);
+      }
+      mapped[m.column] = value;
+    });
+    return mapped;
+  });
+
+type IssueReporter = (field: string, message: string) => void;
+
+const countAssetNumbers = (rows: Record<string, any>[]): Map<string, number> => {
+  const fileNumbers = new Map<string, number>();
+  rows.forEach(row => {
+    const number = readText(row, 'AssetNumber').toUpperCase();
+    if (number) fileNumbers.set(number, (fileNumbers.get(number) || 0) + 1);
+  });
+  return fileNumbers;
+};
+
+const matchesName = (l: { name: string }, value: string) => l.name.trim().toLowerCase() === value.toLowerCase();
+
+const findBranch = (locations: AssetLocation[], value: string) =>
+  locations.find(l => l.type === 'Branch' && (matchesName(l, value) || l.code.toLowerCase() === value.toLowerCase()));
+
+// Asset-level columns: number, name, class and where the asset sits
+const stageAssetColumns = (
+  row: Record<string, any>,
+  categories: AssetCategory[],
+  locations: AssetLocation[],
+  fileNumbers: Map<string, number>,
+  error: IssueReporter,
+  warning: IssueReporter
+): { asset: Omit<Asset, 'components'>, category?: AssetCategory } => {
+  const assetNumber = readText(row, 'AssetNumber').toUpperCase();
+  if (!assetNumber) error('AssetNumber', 'Asset number is required');
+  else if ((fileNumbers.get(assetNumber) || 0) > 1) warning('AssetNumber', `${assetNumber} appears more than once in this file; repeats after its first valid row are skipped`);
+
+  const name = readText(row, 'Name');
+  if (!name) warning('Name', 'No name given; imported as "Imported Asset"');
+
+  const categoryName = readText(row, 'Category');
+  const category = categoryName ? categories.find(c => matchesName(c, categoryName)) : undefined;
+  if (!categoryName) error('Category', 'Asset class is required');
+  else if (!category) error('Category', `No asset class named "${categoryName}"`);
+
+  const branchName = readText(row, 'Branch');
+  const branch = branchName ? findBranch(locations, branchName) : undefined;
+  if (!branchName) error('Branch', 'Branch is required');
+  else if (!branch) error('Branch', `No branch named "${branchName}"`);
+
+  const locationName = readText(row, 'Location');
+  const location = branch && locationName ? locations.find(l => l.type === 'Location' && l.parentId === branch.id && matchesName(l, locationName)) : undefined;
+  if (branch && locationName && !location) warning('Location', `No location "${locationName}" under ${branch.name}; left unassigned`);
+
+  const subLocationName = readText(row, 'SubLocation');
+  const subLocation = location && subLocationName ? locations.find(l => l.type === 'Sublocation' && l.parentId === location.id && matchesName(l, subLocationName)) : undefined;
+  if (location && subLocationName && !subLocation) warning('SubLocation', `No sub-location "${subLocationName}" under ${location.name}; left unassigned`);
+
+  return {
+    category,
+    asset: {
+      id: Math.random().toString(36).substr(2, 9),
+      assetNumber,
+      tagId: readText(row, 'TagId'),
+      name: name || 'Imported Asset',
+      description: readText(row, 'Description'),
+      categoryId: category?.id || '',
+      branchId: branch?.id || '',
+      locationId: location?.id || '',
+      subLocationId: subLocation?.id || '',
+      status: AssetStatus.ACTIVE
+    }
+  };
+};
+
+// Component-level columns: acquisition, cost and depreciation parameters, defaulting from the asset class
+const stageComponentColumns = (
+  row: Record<string, any>,
+  category: AssetCategory | undefined,
+  error: IssueReporter,
+  warning: IssueReporter
+): AssetComponent => {
+  const acquisitionDateValue = readCell(row, 'AcquisitionDate');
+  const acquisitionDate = parseImportDate(acquisitionDateValue);
+  if (acquisitionDateValue === undefined) error('AcquisitionDate', 'Acquisition date is required');
+  else if (!acquisitionDate) error('AcquisitionDate', `"${acquisitionDateValue}" is not a date`);
+  else if (acquisitionDate > format(new Date(), 'yyyy-MM-dd')) warning('AcquisitionDate', 'Acquisition date is in the future');
+  if (acquisitionDate && isAmbiguousImportDate(acquisitionDateValue)) warning('AcquisitionDate', `"${acquisitionDateValue}" could be day- or month-first; read as ${acquisitionDate}. Set the date format in the column mapping to confirm`);
+
+  const costValue = readCell(row, 'Cost');
+  const cost = parseImportNumber(costValue);
+  if (costValue === undefined) error('Cost', 'Cost is required');
+  else if (cost === undefined) error('Cost', `"${costValue}" is not a number`);
+  else if (cost < 0) error('Cost', 'Cost cannot be negative');
+  else if (cost === 0) warning('Cost', 'Cost is zero');
+
+  // Optional numbers default from the asset class when blank, but an unreadable value is never guessed
+  const readOptional = (column: string, label: string, fallback: number) => {
+    const value = readCell(row, column);
+    if (value === undefined) return fallback;
+    const parsed = parseImportNumber(value);
+    if (parsed === undefined || parsed < 0) {
+      error(column, `${label} "${value}" is not a valid number`);
+      return fallback;
+    }
+    return parsed;
+  };
+  const usefulLifeYears = readOptional('UsefulLife', 'Useful life', category?.defaultUsefulLife || 0);
+  const taxRate = readOptional('TaxRate', 'Tax rate', category?.defaultTaxRate || 0);
+  const residualValue = readOptional('ResidualValue', 'Residual value', ((cost || 0) * (category?.residualPercentage || 0)) / 100);
+  if (category && usefulLifeYears <= 0) error('UsefulLife', 'Useful life must be more than zero');
+  if (cost !== undefined && residualValue > cost) error('ResidualValue', 'Residual value exceeds cost');
+
+  return {
+    id: 'primary',
+    name: 'Primary Unit',
+    acquisitionDate: acquisitionDate || '',
+    cost: cost || 0,
+    residualValue,
+    usefulLifeYears,
+    taxRate,
+    status: AssetStatus.ACTIVE,
+    supplierName: readText(row, 'SupplierName'),
+    supplierContact: readText(row, 'SupplierContact'),
+    invoiceNumber: readText(row, 'InvoiceNumber')
+  };
+};
+
+/**
+ * Branches, locations and sub-locations (and, when asked, asset classes with default settings) that rows name but
+ * the register lacks. Units hang from the branch or location named on the same row, so staging against the
+ * register plus these records resolves every row.
+ */
+export const findMissingReferences = (
+  rows: Record<string, any>[],
+  categories: AssetCategory[],
+  locations: AssetLocation[],
+  options: { locations: boolean, categories: boolean }
+): ImportCreatedReferences => {
+  const created: ImportCreatedReferences = { locations: [], categories: [] };
+  const findOrCreate = (type: AssetLocation['type'], name: string, parentId?: string): AssetLocation => {
+    const all = [...locations, ...created.locations];
+    const existing = type === 'Branch' ? findBranch(all, name) : all.find(l => l.type === type && l.parentId === parentId && matchesName(l, name));
+    if (existing) return existing;
+    const unit = createLocationUnit(type, parentId, name);
+    created.locations.push(unit);
+    return unit;
+  };
+
+  rows.forEach(row => {
+    const categoryName = readText(row, 'Category');
+    if (options.categories && categoryName && ![...categories, ...created.categories].some(c => matchesName(c, categoryName))) {
+      created.categories.push({ id: Math.random().toString(36).substr(2, 9), name: categoryName, ...NEW_CATEGORY_DEFAULTS });
+    }
+
+    const branchName = readText(row, 'Branch');
+    if (!options.locations || !branchName) return;
+    const branch = findOrCreate('Branch', branchName);
+    const locationName = readText(row, 'Location');
+    if (!locationName) return;
+    const location = findOrCreate('Location', locationName, branch.id);
+    const subLocationName = readText(row, 'SubLocation');
+    if (subLocationName) findOrCreate('Sublocation', subLocationName, location.id);
+  });
+  return created;
+};
+
+// Flags the cells that resolve to a record the import is about to create, so the review shows what is new
+export const noteCreatedReferences = (rows: StagedImportRow[], created: ImportCreatedReferences): StagedImportRow[] => {
+  if (created.locations.length + created.categories.length === 0) return rows;
+  const categoryIds = new Set(created.categories.map(c => c.id));
+  const locationNames = new Map(created.locations.map(l => [l.id, l.name]));
+  return rows.map(row => {
+    const issues = [...row.issues];
+    const { asset } = row;
+    if (categoryIds.has(asset.categoryId)) issues.push({ field: 'Category', severity: 'warning', message: `Asset class "${created.categories.find(c => c.id === asset.categoryId)!.name}" will be created with default settings` });
+    ([['Branch', 'branchId', 'Branch'], ['Location', 'locationId', 'Location'], ['SubLocation', 'subLocationId', 'Sub-location']] as const).forEach(([field, key, label]) => {
+      if (locationNames.has(asset[key])) issues.push({ field, severity: 'warning', message: `${label} "${locationNames.get(asset[key])}" will be created` });
+    });
+    return { ...row, issues };
+  });
+};
+
+// Only the created records the committed assets actually use are kept
+export const pruneCreatedReferences = (created: ImportCreatedReferences, assets: Asset[]): ImportCreatedReferences => {
+  const used = new Set(assets.flatMap(a => [a.categoryId, a.branchId, a.locationId, a.subLocationId]));
+  return {
+    locations: created.locations.filter(l => used.has(l.id)),
+    categories: created.categories.filter(c => used.has(c.id))
+  };
+};
+
+/**
+ * Maps each sheet row to an asset without falling back silently: unknown classes or branches, missing or
+ * unreadable dates and amounts are errors, while unmatched locations and defaulted values are warnings.
+ * Rows rewritten by a column mapping pass the uploaded rows as `sourceRows`, in the same order, for their
+ * row numbers and so rejected rows can be reported in the uploaded layout.
+ */
+export const stageImportRows = (
+  rows: Record<string, any>[],
+  categories: AssetCategory[],
+  locations: AssetLocation[],
+  sourceRows?: SheetRow[]
+): StagedImportRow[] => {
+  const fileNumbers = countAssetNumbers(rows);
+
+  return rows.map((row, index) => {
+    const issues: ImportIssue[] = [];
+    const error = (field: string, message: string) => issues.push({ field, severity: 'error', message });
+    const warning = (field: string, message: string) => issues.push({ field, severity: 'warning', message });
+
+    const { asset, category } = stageAssetColumns(row, categories, locations, fileNumbers, error, warning);
+    const component = stageComponentColumns(row, category, error, warning);
+
+    const providedColumns = [...ASSET_COLUMN_FIELDS, ...COMPONENT_COLUMN_FIELDS].map(f => f.column).filter(column => readCell(row, column) !== undefined);
+    const sourceRow = sourceRows?.[index];
+    return {
+      rowNumber: sourceRow ? sourceRow.rowNumber : index + 2,
+      raw: row,
+      ...(sourceRow ? { source: sourceRow.values } : {}),
+      asset: { ...asset, components: [component] },
+      providedColumns,
+      issues,
+      isValid: !issues.some(i => i.severity === 'error')
+    };
+  });
+};
+
+// Legacy register workbooks: one sheet each for assets, components and events, linked by asset number
+export const MIGRATION_SHEETS = { assets: 'Assets', components: 'Components', events: 'Events' };
+
+export const REQUIRED_MIGRATION_COLUMNS: Record<string, string[]> = {
+  Assets: ['AssetNumber', 'Category', 'Branch'],
+  Components: ['AssetNumber', 'Cost', 'AcquisitionDate'],
+  Events: ['AssetNumber', 'Type', 'Date']
+};
+
+export const MIGRATION_EVENT_TYPES = ['Disposal', 'Scrapping', 'Revaluation', 'Impairment', 'Impairment Reversal'];
+
+/**
+ * Stages a legacy register for take-on at `cutOverDate`. Components acquired before the cut-over carry their
+ * accumulated depreciation, revaluation surplus and tax value as at the day before it; the engine starts from
+ * those balances and keeps earlier events as history. Events after the cut-over are replayed as normal.
+ */
+export const stageMigrationWorkbook = (
+  assetRows: Record<string, any>[],
+  componentRows: Record<string, any>[],
+  eventRows: Record<string, any>[],
+  cutOverDate: string,
+  categories: AssetCategory[],
+  locations: AssetLocation[]
+): StagedMigration => {
+  const fileNumbers = countAssetNumbers(assetRows);
+  const unlinked: ImportIssue[] = [];
+  const linkedNumbers = new Set(assetRows.map(row => readText(row, 'AssetNumber').toUpperCase()).filter(Boolean));
+  const byAssetNumber = (rows: Record<string, any>[], sheet: string) => {
+    const grouped = new Map<string, { row: Record<string, any>, rowNumber: number }[]>();
+    rows.forEach((row, index) => {
+      const number = readText(row, 'AssetNumber').toUpperCase();
+      if (!linkedNumbers.has(number)) {
+        unlinked.push({ field: sheet, severity: 'error', message: number ? `${sheet} row ${index + 2}: ${number} is not on the ${MIGRATION_SHEETS.assets} sheet` : `${sheet} row ${index + 2}: Asset number is required` });
+        return;
+      }
+      grouped.set(number, [...(grouped.get(number) || []), { row, rowNumber: index + 2 }]);
+    });
+    return grouped;
+  };
+  const componentsByAsset = byAssetNumber(componentRows, MIGRATION_SHEETS.components);
+  const eventsByAsset = byAssetNumber(eventRows, MIGRATION_SHEETS.events);
+
+  const rows = assetRows.map((row, index) => {
+    const issues: ImportIssue[] = [];
+    const error = (field: string, message: string) => issues.push({ field, severity: 'error', message });
+    const warning = (field: string, message: string) => issues.push({ field, severity: 'warning', message });
+    // Component and event issues are reported against this asset with the sheet and row they came from
+    const sheetReporter = (sheet: string, rowNumber: number, label: string, report: IssueReporter): IssueReporter =>
+      (_field, message) => report(sheet, `${sheet} row ${rowNumber}${label ? ` (${label})` : ''}: ${message}`);
+
+    const { asset, category } = stageAssetColumns(row, categories, locations, fileNumbers, error, warning);
+
+    const components: AssetComponent[] = (componentsByAsset.get(asset.assetNumber) || []).map(({ row: componentRow, rowNumber }, i) => {
+      const label = readText(componentRow, 'Component') || (i === 0 ? 'Primary Unit' : `Component ${i + 1}`);
+      const componentError = sheetReporter(MIGRATION_SHEETS.components, rowNumber, label, error);
+      const componentWarning = sheetReporter(MIGRATION_SHEETS.components, rowNumber, label, warning);
+      const component: AssetComponent = { ...stageComponentColumns(componentRow, category, componentError, componentWarning), id: `c${i + 1}`, name: label };
+
+      const inUseValue = readCell(componentRow, 'BroughtIntoUseDate');
+      if (inUseValue !== undefined) {
+        const inUseDate = parseImportDate(inUseValue);
+        if (!inUseDate) componentError('BroughtIntoUseDate', `Brought into use date "${inUseValue}" is not a date`);
+        else if (component.acquisitionDate && inUseDate < component.acquisitionDate) componentError('BroughtIntoUseDate', 'Brought into use before it was acquired');
+        else component.broughtIntoUseDate = inUseDate;
+        if (inUseDate && isAmbiguousImportDate(inUseValue)) componentWarning('BroughtIntoUseDate', `Brought into use date "${inUseValue}" could be day- or month-first; read as ${inUseDate}`);
+      }
+      if (/^(y|yes|true|1)$/i.test(readText(componentRow, 'SecondHand'))) component.isSecondHand = true;
+
+      const readBalance = (column: string, label: string): number | undefined => {
+        const value = readCell(componentRow, column);
+        if (value === undefined) return undefined;
+        const parsed = parseImportNumber(value);
+        if (parsed === undefined || parsed < 0) componentError(column, `${label} "${value}" is not a valid number`);
+        return parsed !== undefined && parsed >= 0 ? parsed : undefined;
+      };
+      const accumulatedDepr = readBalance('AccumulatedDepreciation', 'Accumulated depreciation');
+      const revaluationSurplus = readBalance('RevaluationSurplus', 'Revaluation surplus');
+      const taxValue = readBalance('TaxValue', 'Tax value');
+
+      if (component.acquisitionDate && component.acquisitionDate < cutOverDate) {
+        component.takeOnDate = cutOverDate;
+        if (accumulatedDepr === undefined) componentError('AccumulatedDepreciation', `Accumulated depreciation at ${cutOverDate} is required for components acquired before the cut-over`);
+        component.takeOnAccumulatedDepr = accumulatedDepr || 0;
+        if (revaluationSurplus) component.takeOnRevaluationSurplus = revaluationSurplus;
+        if (taxValue === undefined) componentWarning('TaxValue', 'No tax value at cut-over; allowances are recalculated from the brought into use date');
+        else if (taxValue > component.cost) componentError('TaxValue', 'Tax value exceeds cost');
+        else component.takeOnTaxValue = taxValue;
+      } else if (accumulatedDepr || revaluationSurplus || taxValue !== undefined) {
+        componentWarning('AccumulatedDepreciation', 'Acquired on or after the cut-over; opening balances are ignored');
+      }
+      return component;
+    });
+    if (components.length === 0) error(MIGRATION_SHEETS.components, `No rows on the ${MIGRATION_SHEETS.components} sheet for ${asset.assetNumber || 'this asset'}`);
+    if (new Set(components.map(c => c.name.toLowerCase())).size < components.length) error(MIGRATION_SHEETS.components, 'Component names must be unique within an asset');
+
+    const events = (eventsByAsset.get(asset.assetNumber) || [])
+      .map(({ row: eventRow, rowNumber }) => ({ row: eventRow, rowNumber, date: parseImportDate(readCell(eventRow, 'Date')) || '' }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    events.forEach(({ row: eventRow, rowNumber, date }) => {
+      const type = MIGRATION_EVENT_TYPES.find(t => t.toLowerCase() === readText(eventRow, 'Type').toLowerCase());
+      const componentName = readText(eventRow, 'Component');
+      const eventError = sheetReporter(MIGRATION_SHEETS.events, rowNumber, type || readText(eventRow, 'Type'), error);
+      const eventWarning = sheetReporter(MIGRATION_SHEETS.events, rowNumber, type || readText(eventRow, 'Type'), warning);
+
+      if (!type) return eventError('Type', `Type must be one of ${MIGRATION_EVENT_TYPES.join(', ')}`);
+      if (!date) return eventError('Date', `"${readCell(eventRow, 'Date') ?? ''}" is not a date`);
+      if (isAmbiguousImportDate(readCell(eventRow, 'Date'))) eventWarning('Date', `"${readCell(eventRow, 'Date')}" could be day- or month-first; read as ${date}`);
+      const component = componentName
+        ? components.find(c => c.name.toLowerCase() === componentName.toLowerCase())
+        : components.length === 1 ? components[0] : undefined;
+      if (!component) return eventError('Component', componentName ? `No component named "${componentName}"` : 'Component is required when the asset has more than one');
+      if (component.acquisitionDate && date < component.acquisitionDate) return eventError('Date', 'Dated before the component was acquired');
+      if (component.disposalDate) return eventError('Date', `${component.name} was already disposed of on ${component.disposalDate}`);
+
+      const amountValue = readCell(eventRow, 'Amount');
+      const amount = parseImportNumber(amountValue);
+      if (amountValue !== undefined && (amount === undefined || amount < 0)) return eventError('Amount', `"${amountValue}" is not a valid amount`);
+      const reason = readText(eventRow, 'Reason') || 'Migrated from legacy register';
+
+      if (type === 'Disposal' || type === 'Scrapping') {
+        if (amount === undefined) eventWarning('Amount', 'No proceeds given; disposed of for nil');
+        component.status = type === 'Disposal' ? AssetStatus.DISPOSED : AssetStatus.SCRAPPED;
+        component.disposalDate = date;
+        component.disposalProceeds = amount || 0;
+        return;
+      }
+      if (amount === undefined) return eventError('Amount', type === 'Revaluation' ? 'Fair value is required' : 'Recoverable amount is required');
+      if (type === 'Revaluation') {
+        component.revaluations = [...(component.revaluations || []), { id: Math.random().toString(36).substr(2, 9), date, newFairValue: amount, reason }];
+      } else if (type === 'Impairment') {
+        component.impairments = [...(component.impairments || []), { id: Math.random().toString(36).substr(2, 9), date, recoverableAmount: amount, reason }];
+      } else {
+        const impairment = [...(component.impairments || [])].reverse().find(i => !i.reversal && i.date <= date);
+        if (!impairment) return eventError('Type', 'No earlier impairment of this component to reverse');
+        impairment.reversal = { date, recoverableAmount: amount, reason };
+      }
+      if (component.takeOnDate && date < component.takeOnDate && type !== 'Revaluation') eventWarning('Date', 'Before the cut-over; kept as history, the take-on balances already reflect it');
+    });
+
+    // Take-on balances cannot exceed the carrying basis at cut-over: cost, or the latest earlier revaluation
+    components.filter(c => c.takeOnDate).forEach(c => {
+      const revaluation = (c.revaluations || []).filter(r => r.date < c.takeOnDate!).pop();
+      if ((c.takeOnAccumulatedDepr || 0) > (revaluation ? revaluation.newFairValue : c.cost)) {
+        error(MIGRATION_SHEETS.components, `${c.name}: accumulated depreciation exceeds ${revaluation ? 'the revalued amount' : 'cost'}`);
+      }
+    });
+
+    const disposed = components.length > 0 && components.every(c => c.disposalDate);
+    const status = !disposed ? AssetStatus.ACTIVE : components.every(c => c.status === AssetStatus.SCRAPPED) ? AssetStatus.SCRAPPED : AssetStatus.DISPOSED;
+    const providedColumns = ASSET_COLUMN_FIELDS.map(f => f.column).filter(column => readCell(row, column) !== undefined);
+    return { rowNumber: index + 2, raw: row, asset: { ...asset, status, components }, providedColumns, issues, isValid: !issues.some(i => i.severity === 'error') };
+  });
+  return { rows, unlinked };
+};
+
+// Copies one field between records of the same type, keeping the field's own type
+const copyField = <T, K extends keyof T>(target: T, source: T, field: K) => {
+  target[field] = source[field];
+};
+
+const normaliseKey = (value: string | undefined) => String(value || '').trim().toUpperCase();
+
+/**
+ * Applies the columns a row supplied to a matched asset. Blank cells keep the register value, and a branch change
+ * without a location clears locations that belonged to the old branch. The primary (first) component takes the component columns.
+ */
+const applyImportedValues = (existing: Asset, row: StagedImportRow, display: (field: string, value: any) => any): { asset: Asset, changes: ImportFieldChange[] } => {
+  const changes: ImportFieldChange[] = [];
+  const asset: Asset = { ...existing };
+  const provided = new Set(row.providedColumns);
+
+  ASSET_COLUMN_FIELDS.filter(f => provided.has(f.column)).forEach(f => {
+    const value = row.asset[f.field];
+    if (value === asset[f.field]) return;
+    changes.push({ field: f.label, oldValue: display(f.field, asset[f.field]), newValue: display(f.field, value) });
+    copyField(asset, row.asset, f.field);
+  });
+  if (asset.branchId !== existing.branchId) {
+    (['locationId', 'subLocationId'] as const).filter(f => !provided.has(f === 'locationId' ? 'Location' : 'SubLocation') && asset[f]).forEach(f => {
+      changes.push({ field: f === 'locationId' ? 'Location' : 'Sub-Location', oldValue: display(f, asset[f]), newValue: '' });
+      asset[f] = '';
+    });
+  }
+
+  const [primary, ...others] = existing.components;
+  if (!primary) {
+    changes.push({ field: 'Components', oldValue: 0, newValue: 1 });
+    return { asset: { ...asset, components: row.asset.components }, changes };
+  }
+  const component: AssetComponent = { ...primary };
+  COMPONENT_COLUMN_FIELDS.filter(f => provided.has(f.column)).forEach(f => {
+    const value = row.asset.components[0][f.field];
+    if (value === component[f.field]) return;
+    changes.push({ field: f.label, oldValue: component[f.field] ?? '', newValue: value });
+    copyField(component, row.asset.components[0], f.field);
+  });
+  return { asset: { ...asset, components: [component, ...others] }, changes };
+};
+
+/**
+ * Decides per staged row whether it inserts a new asset, updates the register asset it matches on
+ * asset number or tag ID, or is skipped under the chosen mode. Rows with errors are always rejected.
+ */
+export const planImport = (
+  rows: StagedImportRow[],
+  existingAssets: Asset[],
+  mode: ImportMode,
+  matchKey: ImportMatchKey,
+  categories: AssetCategory[],
+  locations: AssetLocation[]
+): ImportPlanRow[] => {
+  const display = (field: string, value: any) => {
+    if (field === 'categoryId') return categories.find(c => c.id === value)?.name || value;
+    if (field === 'branchId' || field === 'locationId' || field === 'subLocationId') return locations.find(l => l.id === value)?.name || value;
+    return value;
+  };
+
+  // The first row carrying an asset number (or the tag ID being matched on) wins; repeats would duplicate or overwrite it
+  const firstRows = new Map<string, number>();
+  const uniqueKeys: ImportMatchKey[] = matchKey === 'tagId' ? ['assetNumber', 'tagId'] : ['assetNumber'];
+
+  return rows.map(row => {
+    if (!row.isValid) return { row, action: 'reject', asset: row.asset, changes: [] };
+    for (const field of uniqueKeys) {
+      const value = normaliseKey(row.asset[field]);
+      if (!value) continue;
+      const firstRow = firstRows.get(`${field}|${value}`);
+      if (firstRow !== undefined) return { row, action: 'skip', asset: row.asset, changes: [], note: `Repeats the ${field === 'assetNumber' ? 'asset number' : 'tag ID'} on row ${firstRow}` };
+    }
+    uniqueKeys.forEach(field => {
+      const value = normaliseKey(row.asset[field]);
+      if (value) firstRows.set(`${field}|${value}`, row.rowNumber);
+    });
+
+    const key = normaliseKey(row.asset[matchKey]);
+    const match = key ? existingAssets.find(a => normaliseKey(a[matchKey]) === key) : undefined;
+    const keyLabel = matchKey === 'assetNumber' ? 'asset number' : 'tag ID';
+
+    if (!match) {
+      if (mode === 'update') return { row, action: 'skip', asset: row.asset, changes: [], note: `No register asset with this ${keyLabel}` };
+      // Asset numbers stay unique whatever the match key, so a new or blank tag ID cannot re-create a numbered asset
+      const assetNumber = normaliseKey(row.asset.assetNumber);
+      const numbered = assetNumber ? existingAssets.find(a => normaliseKey(a.assetNumber) === assetNumber) : undefined;
+      if (numbered) return { row, action: 'skip', asset: numbered, matchedAssetId: numbered.id, changes: [], note: `${numbered.assetNumber} is already in the register` };
+      return { row, action: 'insert', asset: row.asset, changes: [] };
+    }
+    if (mode === 'insert') return { row, action: 'skip', asset: match, matchedAssetId: match.id, changes: [], note: `${match.assetNumber} is already in the register` };
+
+    const { asset, changes } = applyImportedValues(match, row, display);
+    return changes.length > 0
+      ? { row, action: 'update', asset, matchedAssetId: match.id, changes }
+      : { row, action: 'skip', asset: match, matchedAssetId: match.id, changes: [], note: 'No changes' };
+  });
+};
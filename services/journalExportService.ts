@@ -0,0 +1,102 @@
+import { AssetLocation, CompanySettings, DepreciationRun, JournalEntry, JournalExportField, JournalExportProfile } from '../types';
+import { DEFAULT_COMPANY_SETTINGS } from '../constants';
+import { getFiscalYearBounds } from './assetService';
+import { formatBatchNumber } from './journalService';
+import { getSegmentedAccount } from './accountService';
+import { format } from 'date-fns';
+
+export const JOURNAL_EXPORT_FIELD_LABELS: Record<JournalExportField, string> = {
+  date: 'Journal Date',
+  period: 'Fiscal Period No.',
+  reference: 'Batch Reference',
+  accountCode: 'Account Code',
+  segmentedAccount: 'Segmented Account',
+  accountName: 'Account Name',
+  description: 'Description',
+  type: 'Journal Type',
+  branchCode: 'Branch Tracking / Cost Centre',
+  branchName: 'Branch Name',
+  debit: 'Debit',
+  credit: 'Credit',
+  amount: 'Signed Amount',
+  fixed: 'Fixed Text'
+};
+
+// Journal dates are stored as yyyy-MM-dd; parse as a local date so formatting never shifts a day
+const parseJournalDate = (value: string): Date => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/**
+ * Month number within the financial year containing `date`, starting at 1.
+ */
+export const getFiscalPeriodNumber = (date: Date, settings: CompanySettings = DEFAULT_COMPANY_SETTINGS): number => {
+  const { start } = getFiscalYearBounds(date, settings);
+  return (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth() + 1;
+};
+
+/**
+ * Reference stamped on every exported line: the batch number for a depreciation run,
+ * otherwise the profile prefix and the compact period (e.g. FA202606).
+ */
+export const getJournalExportReference = (profile: JournalExportProfile, period: string, run?: DepreciationRun): string => {
+  return run ? formatBatchNumber(run) : `${profile.referencePrefix}${period.replace('-', '')}`;
+};
+
+const toCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Rounds every line to cents and puts the rounding difference on the largest line, so a balanced
+ * journal still balances once exported; ledgers such as Xero and Pastel reject one that is a cent out.
+ */
+export const roundJournalToCents = (entries: JournalEntry[]): JournalEntry[] => {
+  const rounded = entries.map(e => ({ ...e, debit: toCents(e.debit), credit: toCents(e.credit) }));
+  const imbalance = entries.reduce((sum, e) => sum + e.debit - e.credit, 0);
+  const difference = toCents(rounded.reduce((sum, e) => sum + e.debit - e.credit, 0));
+  // A journal that was out before rounding is left as it is rather than silently forced to balance
+  if (rounded.length === 0 || difference === 0 || Math.abs(imbalance) >= 0.005) return rounded;
+  const size = (e: JournalEntry) => Math.max(e.debit, e.credit);
+  const largest = rounded.reduce((max, e, i) => size(e) > size(rounded[max]) ? i : max, 0);
+  const line = rounded[largest];
+  rounded[largest] = line.debit >= line.credit
+    ? { ...line, debit: toCents(line.debit - difference) }
+    : { ...line, credit: toCents(line.credit + difference) };
+  return rounded;
+};
+
+/**
+ * Rows for a journal import file in the profile's column order, headed by the column names when the target expects them.
+ */
+export const buildJournalExportRows = (
+  entries: JournalEntry[],
+  profile: JournalExportProfile,
+  locations: AssetLocation[],
+  reference: string,
+  settings: CompanySettings
+): string[][] => {
+  const cell = (entry: JournalEntry, field: JournalExportField, value?: string): string => {
+    const branch = locations.find(l => l.id === entry.branchId);
+    const signed = entry.debit - entry.credit;
+    switch (field) {
+      case 'date': return format(parseJournalDate(entry.date), profile.dateFormat || 'yyyy-MM-dd');
+      case 'period': return String(getFiscalPeriodNumber(parseJournalDate(entry.date), settings));
+      case 'reference': return reference;
+      case 'accountCode': return entry.accountCode;
+      case 'segmentedAccount': return getSegmentedAccount(entry);
+      case 'accountName': return entry.accountName;
+      case 'description': return entry.description;
+      case 'type': return entry.type;
+      case 'branchCode': return profile.branchMappings[entry.branchId] || branch?.code || '';
+      case 'branchName': return branch?.name || 'Unknown';
+      case 'debit': return entry.debit.toFixed(2);
+      case 'credit': return entry.credit.toFixed(2);
+      case 'amount': return (profile.signConvention === 'CreditPositive' ? -signed : signed).toFixed(2);
+      case 'fixed': return value || '';
+    }
+  };
+
+  // Every line carries the same reference, so the export is one journal and is balanced as a whole
+  const rows = roundJournalToCents(entries).map(e => profile.columns.map(c => cell(e, c.field, c.value)));
+  return profile.includeHeader ? [profile.columns.map(c => c.header), ...rows] : rows;
+};
@@ -0,0 +1,445 @@
+import { Asset, AssetCategory, AssetLocation, CompanySettings, DepreciationCalculation, DepreciationRun, FundingSource, JournalEntry, PeriodClose, PriorPeriodAdjustment } from '../types';
+import { DEFAULT_GL_CODES } from '../constants';
+import { calculateDepreciation, describeDepreciationPolicy, getFundingPolicy } from './assetService';
+import { calculateDeferredTax } from './deferredTaxService';
+import { composeAccountCode } from './accountService';
+import { format, endOfMonth } from 'date-fns';
+
+// Custom implementation of startOfMonth as it is missing from date-fns export in this environment
+const startOfMonth = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+};
+
+/**
+ * Consolidated GL journal lines for a month (yyyy-MM), per asset class and branch.
+ * A closed month replays its frozen snapshot; prior-period adjustments post in the month they were raised.
+ * When accounts carry a department segment, each department is consolidated separately.
+ */
+export const generateJournalEntries = (
+  period: string,
+  branchId: string, // 'all' for every branch
+  assets: Asset[],
+  categories: AssetCategory[],
+  locations: AssetLocation[],
+  settings: CompanySettings,
+  periodClose: PeriodClose | undefined,
+  adjustments: PriorPeriodAdjustment[]
+): JournalEntry[] => {
+  const filteredAssets = branchId === 'all' ? assets : assets.filter(a => a.branchId === branchId);
+  const [year, month] = period.split('-').map(Number);
+  if (!year || !month) return [];
+  
+  const start = startOfMonth(new Date(year, month - 1));
+  const end = endOfMonth(new Date(year, month - 1));
+  const entries: JournalEntry[] = [];
+
+  // Consolidation map: categoryId-branchId -> aggregated movements
+  const consolidatedMovements: Record<string, {
+    deprByMethod: Record<string, number>,
+    additions: number,
+    additionsByFunding: Record<string, number>, // Funding source ('' = class default) -> cost
+    disposalCost: number,
+    disposalAccum: number,
+    disposalProceeds: number,
+    disposalProfit: number,
+    disposalLoss: number,
+    revaluationCost: number,
+    revaluationAccum: number,
+    surplusNet: number,
+    revaluationPLNet: number,
+    surplusTransfer: number,
+    impairmentCost: number,
+    impairmentLossPL: number,
+    impairmentLossOCI: number,
+    reversalCost: number,
+    reversalPL: number,
+    reversalOCI: number,
+    categoryId: string,
+    branchId: string,
+    departmentCode?: string
+  }> = {};
+
+  // Closed months replay their frozen snapshot; open months are computed live
+  const rows: { calc: DepreciationCalculation, categoryId: string, branchId: string, departmentCode?: string }[] = periodClose
+    ? periodClose.snapshots
+        .filter(s => branchId === 'all' || s.branchId === branchId)
+        .map(s => ({ calc: s, categoryId: s.categoryId, branchId: s.branchId, departmentCode: s.departmentCode }))
+    : filteredAssets.map(asset => ({
+        calc: calculateDepreciation(asset, start, end, categories, settings),
+        categoryId: asset.categoryId,
+        branchId: asset.branchId,
+        departmentCode: asset.departmentCode
+      }));
+
+  // Deferred tax is a company balance, so it is consolidated per branch rather than per class
+  const deferredTaxByBranch: Record<string, { movementPL: number, movementOCI: number }> = {};
+
+  // Departments only split the consolidation when they form part of the composed account
+  const splitByDepartment = !!settings.accountSegments?.segments.includes('department');
+
+  rows.forEach(({ calc, categoryId, branchId, departmentCode: rowDepartment }) => {
+    const departmentCode = splitByDepartment ? rowDepartment : undefined;
+    const key = departmentCode ? `${categoryId}-${branchId}-${departmentCode}` : `${categoryId}-${branchId}`;
+
+    const deferredTax = calculateDeferredTax(calc, start, end, settings);
+    if (!deferredTaxByBranch[branchId]) deferredTaxByBranch[branchId] = { movementPL: 0, movementOCI: 0 };
+    deferredTaxByBranch[branchId].movementPL += deferredTax.movementPL;
+    deferredTaxByBranch[branchId].movementOCI += deferredTax.movementOCI;
+    
+    if (!consolidatedMovements[key]) {
+      consolidatedMovements[key] = { 
+        deprByMethod: {}, 
+        additions: 0, 
+        additionsByFunding: {},
+        disposalCost: 0,
+        disposalAccum: 0,
+        disposalProceeds: 0,
+        disposalProfit: 0,
+        disposalLoss: 0,
+        revaluationCost: 0,
+        revaluationAccum: 0,
+        surplusNet: 0,
+        revaluationPLNet: 0,
+        surplusTransfer: 0,
+        impairmentCost: 0,
+        impairmentLossPL: 0,
+        impairmentLossOCI: 0,
+        reversalCost: 0,
+        reversalPL: 0,
+        reversalOCI: 0,
+        categoryId, 
+        branchId,
+        departmentCode
+      };
+    }
+    
+    (calc.components || []).forEach(comp => {
+      const method = describeDepreciationPolicy(comp.depreciationMethod, comp.depreciationRate);
+      const byMethod = consolidatedMovements[key].deprByMethod;
+      byMethod[method] = (byMethod[method] || 0) + comp.periodicDepr;
+
+      if (comp.additions > 0) {
+        const byFunding = consolidatedMovements[key].additionsByFunding;
+        const source = comp.fundingSource || '';
+        byFunding[source] = (byFunding[source] || 0) + comp.additions;
+      }
+
+      // Profits and losses stay gross per component so each posts to its own account
+      const profit = comp.profitOnDisposal || 0;
+      if (profit > 0) consolidatedMovements[key].disposalProfit += profit;
+      else consolidatedMovements[key].disposalLoss -= profit;
+    });
+    const movement = consolidatedMovements[key];
+    movement.additions += calc.additions;
+    movement.disposalCost += calc.disposals;
+    movement.disposalAccum += calc.accumulatedDeprOnDisposals;
+    // Proceeds are implied by the carrying amount derecognised plus the profit (zero for scrapped units)
+    movement.disposalProceeds += calc.disposals - calc.accumulatedDeprOnDisposals + (calc.profitOnDisposal || 0);
+    movement.revaluationCost += calc.revaluations;
+    movement.revaluationAccum += calc.accumulatedDeprOnRevaluations;
+    movement.surplusNet += calc.revaluationSurplusIncrease - calc.revaluationSurplusDecrease;
+    movement.revaluationPLNet += calc.revaluationGainPL - calc.revaluationLossPL;
+    movement.surplusTransfer += calc.revaluationSurplusTransfer;
+    movement.impairmentCost += calc.impairments;
+    movement.impairmentLossPL += calc.impairmentLossPL;
+    movement.impairmentLossOCI += calc.impairmentLossOCI;
+    movement.reversalCost += calc.impairmentReversals;
+    movement.reversalPL += calc.impairmentReversalPL;
+    movement.reversalOCI += calc.impairmentReversalOCI;
+  });
+
+  // Create journal entries from consolidated movements
+  Object.entries(consolidatedMovements).forEach(([key, movement]) => {
+    const category = categories.find(c => c.id === movement.categoryId);
+    if (!category) return;
+
+    // One depreciation pair per method so straight-line and reducing balance charges stay visible
+    Object.entries(movement.deprByMethod).forEach(([method, periodicDepr], idx) => {
+      if (periodicDepr <= 0) return;
+      entries.push({
+        id: `depr-${key}-${idx}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: `Depr Expense: ${category.name}`,
+        accountCode: category.glCodeDeprExpense,
+        description: `Consolidated Monthly Depr (${method}) - ${category.name}`,
+        debit: periodicDepr,
+        credit: 0,
+        branchId: movement.branchId,
+        departmentCode: movement.departmentCode,
+        type: 'Depreciation'
+      });
+      entries.push({
+        id: `accum-${key}-${idx}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: `Accum Depr: ${category.name}`,
+        accountCode: category.glCodeAccumDepr,
+        description: `Consolidated Monthly Depr (${method}) - ${category.name}`,
+        debit: 0,
+        credit: periodicDepr,
+        branchId: movement.branchId,
+        departmentCode: movement.departmentCode,
+        type: 'Depreciation'
+      });
+    });
+
+    if (movement.additions > 0) {
+      entries.push({
+        id: `add-${key}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: `Asset Cost: ${category.name}`,
+        accountCode: category.glCodeCost,
+        description: `Consolidated Monthly Additions - ${category.name}`,
+        debit: movement.additions,
+        credit: 0,
+        branchId: movement.branchId,
+        departmentCode: movement.departmentCode,
+        type: 'Addition'
+      });
+      // Credit side follows how each component was funded
+      Object.entries(movement.additionsByFunding).forEach(([source, amount], idx) => {
+        const funding = getFundingPolicy((source || undefined) as FundingSource | undefined, category);
+        entries.push({
+          id: `pay-${key}-${idx}`,
+          date: format(end, 'yyyy-MM-dd'),
+          accountName: `Funding: ${funding.source}`,
+          accountCode: funding.accountCode,
+          description: `Consolidated Monthly Additions - ${category.name}`,
+          debit: 0,
+          credit: amount,
+          branchId: movement.branchId,
+          departmentCode: movement.departmentCode,
+          type: 'Addition'
+        });
+      });
+    }
+
+    if (movement.disposalCost > 0) {
+      const disposalLines: { key: string, accountName: string, accountCode: string, amount: number }[] = [
+        { key: 'proceeds', accountName: `Disposal Proceeds Clearing: ${category.name}`, accountCode: category.glCodeDisposalProceeds || DEFAULT_GL_CODES.disposalProceeds, amount: movement.disposalProceeds },
+        { key: 'accum', accountName: `Accum Depr: ${category.name}`, accountCode: category.glCodeAccumDepr, amount: movement.disposalAccum },
+        { key: 'loss', accountName: `Loss on Disposal: ${category.name}`, accountCode: category.glCodeDisposalLoss || DEFAULT_GL_CODES.disposalLoss, amount: movement.disposalLoss },
+        { key: 'cost', accountName: `Asset Cost: ${category.name}`, accountCode: category.glCodeCost, amount: -movement.disposalCost },
+        { key: 'profit', accountName: `Profit on Disposal: ${category.name}`, accountCode: category.glCodeDisposalProfit || DEFAULT_GL_CODES.disposalProfit, amount: -movement.disposalProfit }
+      ];
+      disposalLines.forEach(line => {
+        if (Math.abs(line.amount) < 0.005) return;
+        entries.push({
+          id: `disp-${line.key}-${key}`,
+          date: format(end, 'yyyy-MM-dd'),
+          accountName: line.accountName,
+          accountCode: line.accountCode,
+          description: `Consolidated Disposals & Scrapping - ${category.name}`,
+          debit: line.amount > 0 ? line.amount : 0,
+          credit: line.amount < 0 ? -line.amount : 0,
+          branchId: movement.branchId,
+          departmentCode: movement.departmentCode,
+          type: 'Disposal'
+        });
+      });
+    }
+
+    // IAS 16 elimination method: accumulated depreciation is netted against cost and the
+    // carrying amount movement is split between OCI (surplus) and profit or loss
+    const surplusAccount = category.glCodeRevaluationSurplus || DEFAULT_GL_CODES.revaluationSurplus;
+    const revaluationLines: { key: string, accountName: string, accountCode: string, amount: number }[] = [
+      { key: 'cost', accountName: `Asset Cost: ${category.name}`, accountCode: category.glCodeCost, amount: movement.revaluationCost },
+      { key: 'accum', accountName: `Accum Depr: ${category.name}`, accountCode: category.glCodeAccumDepr, amount: movement.revaluationAccum },
+      { key: 'surplus', accountName: `Revaluation Surplus: ${category.name}`, accountCode: surplusAccount, amount: -movement.surplusNet },
+      { key: 'pl', accountName: `Revaluation Gain / Loss: ${category.name}`, accountCode: category.glCodeRevaluationPL || DEFAULT_GL_CODES.revaluationPL, amount: -movement.revaluationPLNet }
+    ];
+    revaluationLines.forEach(line => {
+      if (Math.abs(line.amount) < 0.005) return;
+      entries.push({
+        id: `reval-${line.key}-${key}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: line.accountName,
+        accountCode: line.accountCode,
+        description: `Consolidated Revaluation - ${category.name}`,
+        debit: line.amount > 0 ? line.amount : 0,
+        credit: line.amount < 0 ? -line.amount : 0,
+        branchId: movement.branchId,
+        departmentCode: movement.departmentCode,
+        type: 'Revaluation'
+      });
+    });
+
+    if (movement.surplusTransfer > 0) {
+      entries.push({
+        id: `reval-xfer-${key}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: `Revaluation Surplus: ${category.name}`,
+        accountCode: surplusAccount,
+        description: `Realised Surplus Transfer - ${category.name}`,
+        debit: movement.surplusTransfer,
+        credit: 0,
+        branchId: movement.branchId,
+        departmentCode: movement.departmentCode,
+        type: 'Revaluation'
+      });
+      entries.push({
+        id: `re-xfer-${key}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: `Retained Earnings`,
+        accountCode: category.glCodeRetainedEarnings || DEFAULT_GL_CODES.retainedEarnings,
+        description: `Realised Surplus Transfer - ${category.name}`,
+        debit: 0,
+        credit: movement.surplusTransfer,
+        branchId: movement.branchId,
+        departmentCode: movement.departmentCode,
+        type: 'Revaluation'
+      });
+    }
+
+    // IAS 36 losses write the cost down, charged to P&L or against any revaluation surplus;
+    // reversals credit P&L to the extent of losses previously expensed
+    const impairmentLines: { key: string, accountName: string, accountCode: string, amount: number, description: string }[] = [
+      { key: 'loss-pl', accountName: `Impairment Loss: ${category.name}`, accountCode: category.glCodeImpairmentLoss || DEFAULT_GL_CODES.impairmentLoss, amount: movement.impairmentLossPL, description: 'Impairment Loss' },
+      { key: 'loss-oci', accountName: `Revaluation Surplus: ${category.name}`, accountCode: surplusAccount, amount: movement.impairmentLossOCI, description: 'Impairment Loss' },
+      { key: 'loss-cost', accountName: `Asset Cost: ${category.name}`, accountCode: category.glCodeCost, amount: -movement.impairmentCost, description: 'Impairment Loss' },
+      { key: 'rev-cost', accountName: `Asset Cost: ${category.name}`, accountCode: category.glCodeCost, amount: movement.reversalCost, description: 'Impairment Reversal' },
+      { key: 'rev-pl', accountName: `Impairment Reversal: ${category.name}`, accountCode: category.glCodeImpairmentReversal || DEFAULT_GL_CODES.impairmentReversal, amount: -movement.reversalPL, description: 'Impairment Reversal' },
+      { key: 'rev-oci', accountName: `Revaluation Surplus: ${category.name}`, accountCode: surplusAccount, amount: -movement.reversalOCI, description: 'Impairment Reversal' }
+    ];
+    impairmentLines.forEach(line => {
+      if (Math.abs(line.amount) < 0.005) return;
+      entries.push({
+        id: `imp-${line.key}-${key}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: line.accountName,
+        accountCode: line.accountCode,
+        description: `Consolidated ${line.description} - ${category.name}`,
+        debit: line.amount > 0 ? line.amount : 0,
+        credit: line.amount < 0 ? -line.amount : 0,
+        branchId: movement.branchId,
+        departmentCode: movement.departmentCode,
+        type: 'Impairment'
+      });
+    });
+  });
+
+  // IAS 12: an increase in the liability is charged to tax expense, or to OCI where it arises on revaluation
+  const deferredTaxAccount = settings.glCodeDeferredTax || DEFAULT_GL_CODES.deferredTax;
+  Object.entries(deferredTaxByBranch).forEach(([branchId, movement]) => {
+    const lines: { key: string, accountName: string, accountCode: string, amount: number }[] = [
+      { key: 'pl', accountName: 'Deferred Tax Expense', accountCode: settings.glCodeDeferredTaxExpense || DEFAULT_GL_CODES.deferredTaxExpense, amount: movement.movementPL },
+      { key: 'oci', accountName: 'Deferred Tax on Revaluation (OCI)', accountCode: settings.glCodeDeferredTaxOCI || DEFAULT_GL_CODES.deferredTaxOCI, amount: movement.movementOCI },
+      { key: 'liability', accountName: 'Deferred Tax Liability', accountCode: deferredTaxAccount, amount: -(movement.movementPL + movement.movementOCI) }
+    ];
+    lines.forEach(line => {
+      if (Math.abs(line.amount) < 0.005) return;
+      entries.push({
+        id: `dt-${line.key}-${branchId}`,
+        date: format(end, 'yyyy-MM-dd'),
+        accountName: line.accountName,
+        accountCode: line.accountCode,
+        description: 'Deferred Tax Movement (IAS 12)',
+        debit: line.amount > 0 ? line.amount : 0,
+        credit: line.amount < 0 ? -line.amount : 0,
+        branchId,
+        type: 'Deferred Tax'
+      });
+    });
+  });
+
+  // Prior-period adjustments catch the ledger up with corrections to closed months
+  adjustments
+    .filter(adj => adj.period === period && (branchId === 'all' || adj.branchId === branchId))
+    .forEach(adj => {
+      const category = categories.find(c => c.id === adj.categoryId);
+      if (!category) return;
+      const asset = assets.find(a => a.id === adj.assetId);
+      const description = `Prior Period Adj (${adj.affectedPeriods.join(', ')}) - ${asset?.assetNumber || adj.assetId}: ${adj.reason}`;
+      // Current-year closed months go to profit or loss; earlier fiscal years restate retained earnings
+      const disposalProfit = adj.currentYearDisposalProfitDelta || 0;
+      const lines: { key: string, accountName: string, accountCode: string, amount: number }[] = [
+        { key: 'cost', accountName: `Asset Cost: ${category.name}`, accountCode: category.glCodeCost, amount: adj.costDelta },
+        { key: 'accum', accountName: `Accum Depr: ${category.name}`, accountCode: category.glCodeAccumDepr, amount: -adj.accumDeprDelta },
+        { key: 'surplus', accountName: `Revaluation Surplus: ${category.name}`, accountCode: category.glCodeRevaluationSurplus || DEFAULT_GL_CODES.revaluationSurplus, amount: -adj.revaluationSurplusDelta },
+        { key: 'depr', accountName: `Depr Expense: ${category.name}`, accountCode: category.glCodeDeprExpense, amount: adj.currentYearDeprDelta || 0 },
+        { key: 'imp-loss', accountName: `Impairment Loss: ${category.name}`, accountCode: category.glCodeImpairmentLoss || DEFAULT_GL_CODES.impairmentLoss, amount: adj.currentYearImpairmentLossDelta || 0 },
+        { key: 'imp-rev', accountName: `Impairment Reversal: ${category.name}`, accountCode: category.glCodeImpairmentReversal || DEFAULT_GL_CODES.impairmentReversal, amount: -(adj.currentYearImpairmentReversalDelta || 0) },
+        { key: 'reval-pl', accountName: `Revaluation Gain / Loss: ${category.name}`, accountCode: category.glCodeRevaluationPL || DEFAULT_GL_CODES.revaluationPL, amount: -(adj.currentYearRevaluationPLDelta || 0) },
+        { key: 'proceeds', accountName: `Disposal Proceeds Clearing: ${category.name}`, accountCode: category.glCodeDisposalProceeds || DEFAULT_GL_CODES.disposalProceeds, amount: adj.currentYearDisposalProceedsDelta || 0 },
+        disposalProfit > 0
+          ? { key: 'disp-pl', accountName: `Profit on Disposal: ${category.name}`, accountCode: category.glCodeDisposalProfit || DEFAULT_GL_CODES.disposalProfit, amount: -disposalProfit }
+          : { key: 'disp-pl', accountName: `Loss on Disposal: ${category.name}`, accountCode: category.glCodeDisposalLoss || DEFAULT_GL_CODES.disposalLoss, amount: -disposalProfit },
+        { key: 'dt', accountName: 'Deferred Tax Liability', accountCode: settings.glCodeDeferredTax || DEFAULT_GL_CODES.deferredTax, amount: -(adj.deferredTaxDelta || 0) },
+        { key: 'dt-oci', accountName: 'Deferred Tax on Revaluation (OCI)', accountCode: settings.glCodeDeferredTaxOCI || DEFAULT_GL_CODES.deferredTaxOCI, amount: adj.deferredTaxOCIDelta || 0 },
+        { key: 'dt-pl', accountName: 'Deferred Tax Expense', accountCode: settings.glCodeDeferredTaxExpense || DEFAULT_GL_CODES.deferredTaxExpense, amount: adj.currentYearDeferredTaxPLDelta || 0 }
+      ];
+      // Retained earnings takes whatever the lines above leave, so the adjustment always balances
+      lines.push({ key: 're', accountName: `Retained Earnings`, accountCode: category.glCodeRetainedEarnings || DEFAULT_GL_CODES.retainedEarnings, amount: -lines.reduce((sum, line) => sum + line.amount, 0) });
+      lines.forEach(line => {
+        if (Math.abs(line.amount) < 0.005) return;
+        entries.push({
+          id: `ppa-${line.key}-${adj.id}`,
+          date: format(end, 'yyyy-MM-dd'),
+          accountName: line.accountName,
+          accountCode: line.accountCode,
+          description,
+          debit: line.amount > 0 ? line.amount : 0,
+          credit: line.amount < 0 ? -line.amount : 0,
+          branchId: adj.branchId,
+          departmentCode: splitByDepartment ? asset?.departmentCode : undefined,
+          type: 'Adjustment'
+        });
+      });
+    });
+
+  return entries.map(e => ({
+    ...e,
+    segmentedAccount: composeAccountCode(e.accountCode, locations.find(l => l.id === e.branchId), e.departmentCode, settings)
+  }));
+};
+
+export const formatBatchNumber = (run: DepreciationRun): string => `DR-${String(run.batchNumber).padStart(5, '0')}`;
+
+// A consolidated run overlaps every branch run for the same month
+const coversSameScope = (run: DepreciationRun, period: string, branchId: string) =>
+  run.period === period && (run.branchId === 'all' || branchId === 'all' || run.branchId === branchId);
+
+/**
+ * Every draft or posted run overlapping a month and branch, ignoring reversal batches.
+ * A consolidated run can overlap several branch runs, so callers must consider them all.
+ */
+export const getActiveRuns = (runs: DepreciationRun[], period: string, branchId: string): DepreciationRun[] => {
+  return runs.filter(r => !r.reversalOfId && r.status !== 'Reversed' && coversSameScope(r, period, branchId));
+};
+
+export const createDepreciationRun = (
+  period: string,
+  branchId: string,
+  entries: JournalEntry[],
+  runs: DepreciationRun[],
+  createdBy: string
+): DepreciationRun => ({
+  id: Math.random().toString(36).substr(2, 9),
+  batchNumber: runs.reduce((max, r) => Math.max(max, r.batchNumber), 0) + 1,
+  period,
+  branchId,
+  status: 'Draft',
+  createdAt: new Date().toISOString(),
+  createdBy,
+  entries
+});
+
+/**
+ * Reversing a posted run marks it reversed and raises a posted batch with every line's debit and credit swapped.
+ */
+export const reverseDepreciationRun = (run: DepreciationRun, runs: DepreciationRun[], reversedBy: string) => {
+  const reversedAt = new Date().toISOString();
+  const reversal: DepreciationRun = {
+    ...createDepreciationRun(run.period, run.branchId, run.entries.map(e => ({
+      ...e,
+      id: `rev-${e.id}`,
+      description: `Reversal of ${formatBatchNumber(run)}: ${e.description}`,
+      debit: e.credit,
+      credit: e.debit
+    })), runs, reversedBy),
+    status: 'Posted',
+    postedAt: reversedAt,
+    postedBy: reversedBy,
+    reversalOfId: run.id
+  };
+  return { reversed: { ...run, status: 'Reversed' as const, reversedAt, reversedBy }, reversal };
+};
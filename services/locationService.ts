@@ -0,0 +1,25 @@
+import { AssetLocation, LocationType } from '../types';
+
+// Each level of the Branch > Location > Sublocation hierarchy and the level it hangs from
+export const LOCATION_PARENT_TYPE: Record<LocationType, LocationType | undefined> = {
+  Branch: undefined,
+  Location: 'Branch',
+  Sublocation: 'Location'
+};
+
+/**
+ * New organisational unit. Branches sit at the top of the tree; locations take a branch
+ * and sub-locations a location as their parent.
+ */
+export const createLocationUnit = (
+  type: LocationType,
+  parentId?: string,
+  name: string = `New ${type}`,
+  code: string = `CODE-${Math.floor(Math.random() * 999)}`
+): AssetLocation => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  code,
+  type,
+  parentId: LOCATION_PARENT_TYPE[type] ? parentId : undefined
+});
@@ -0,0 +1,166 @@
+import { format, endOfMonth } from 'date-fns';
+import { Asset, AssetCategory, AssetPeriodSnapshot, CompanySettings, DepreciationCalculation, PeriodClose, PriorPeriodAdjustment } from '../types';
+import { calculateDepreciation, getFiscalYearBounds } from './assetService';
+import { calculateDeferredTax, getTaxRateAt } from './deferredTaxService';
+
+// Custom implementation of startOfMonth as it is missing from date-fns export in this environment
+const startOfMonth = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+};
+
+// Movements compared against a closed snapshot; a difference on any of them means the period would change
+const LOCKED_FIELDS: (keyof DepreciationCalculation)[] = [
+  'openingCost', 'additions', 'disposals', 'revaluations', 'impairments', 'impairmentReversals', 'closingCost',
+  'openingAccumulatedDepr', 'periodicDepr', 'accumulatedDeprOnDisposals', 'accumulatedDeprOnRevaluations',
+  'closingAccumulatedDepr', 'taxDeductionForPeriod', 'closingAccumulatedTaxDepr', 'closingRevaluationSurplus'
+];
+
+export const getPeriodRange = (period: string): { start: Date, end: Date } => {
+  const [year, month] = period.split('-').map(Number);
+  const start = startOfMonth(new Date(year, month - 1));
+  return { start, end: endOfMonth(start) };
+};
+
+export const getLatestClosedPeriod = (closes: PeriodClose[]): string | null => {
+  if (closes.length === 0) return null;
+  return closes.map(c => c.period).sort().reverse()[0];
+};
+
+/**
+ * Last day of the latest closed month; everything up to and including it is locked.
+ */
+export const getLockDate = (closes: PeriodClose[]): Date | null => {
+  const latest = getLatestClosedPeriod(closes);
+  return latest ? getPeriodRange(latest).end : null;
+};
+
+export const getNextOpenPeriod = (closes: PeriodClose[]): string | null => {
+  const lockDate = getLockDate(closes);
+  return lockDate ? format(new Date(lockDate.getFullYear(), lockDate.getMonth() + 1, 1), 'yyyy-MM') : null;
+};
+
+export const isPeriodClosed = (period: string, closes: PeriodClose[]): boolean => {
+  const latest = getLatestClosedPeriod(closes);
+  return !!latest && period <= latest;
+};
+
+/**
+ * Freezes every asset's movement for the month so journals and lock checks no longer depend on live data.
+ */
+export const createPeriodClose = (
+  period: string,
+  assets: Asset[],
+  categories: AssetCategory[],
+  settings: CompanySettings,
+  closedBy: string
+): PeriodClose => {
+  const { start, end } = getPeriodRange(period);
+  const snapshots: AssetPeriodSnapshot[] = assets.map(asset => ({
+    ...calculateDepreciation(asset, start, end, categories, settings),
+    categoryId: asset.categoryId,
+    branchId: asset.branchId,
+    departmentCode: asset.departmentCode
+  }));
+  return { period, closedAt: new Date().toISOString(), closedBy, snapshots };
+};
+
+/**
+ * Lists the closed periods whose frozen figures would differ if `asset` were saved as given.
+ * Pass `undefined` with the asset id to test a deletion.
+ */
+export const findClosedPeriodImpact = (
+  assetId: string,
+  asset: Asset | undefined,
+  closes: PeriodClose[],
+  categories: AssetCategory[],
+  settings: CompanySettings
+): string[] => {
+  return closes
+    .filter(close => {
+      const snapshot = close.snapshots.find(s => s.assetId === assetId);
+      const { start, end } = getPeriodRange(close.period);
+      const live = asset ? calculateDepreciation(asset, start, end, categories, settings) : undefined;
+      return LOCKED_FIELDS.some(f => Math.abs(((live?.[f] as number) || 0) - ((snapshot?.[f] as number) || 0)) > 0.005);
+    })
+    .map(close => close.period)
+    .sort();
+};
+
+/**
+ * Measures how a change moves the asset's cumulative balances at the lock date. The difference is
+ * posted in the next open period so closed months keep the figures already reported; movements in
+ * closed months of the current fiscal year are kept apart so they reach profit or loss, not retained earnings.
+ * Class or settings changes pass the previous classes and settings to measure `before` against.
+ */
+export const createPriorPeriodAdjustment = (
+  before: Asset | undefined,
+  after: Asset,
+  closes: PeriodClose[],
+  categories: AssetCategory[],
+  settings: CompanySettings,
+  affectedPeriods: string[],
+  reason: string,
+  createdBy: string,
+  previousCategories: AssetCategory[] = categories,
+  previousSettings: CompanySettings = settings
+): PriorPeriodAdjustment => {
+  const lockDate = getLockDate(closes)!;
+  const balancesAt = (asset: Asset | undefined, assetCategories: AssetCategory[], assetSettings: CompanySettings) => {
+    if (!asset) return { cost: 0, accumDepr: 0, surplus: 0, accumTaxDepr: 0, deferredTax: 0 };
+    const calc = calculateDepreciation(asset, lockDate, lockDate, assetCategories, assetSettings);
+    return {
+      cost: calc.closingCost,
+      accumDepr: calc.closingAccumulatedDepr,
+      surplus: calc.closingRevaluationSurplus,
+      accumTaxDepr: calc.closingAccumulatedTaxDepr,
+      deferredTax: calculateDeferredTax(calc, lockDate, lockDate, assetSettings).closingDeferredTax
+    };
+  };
+  const was = balancesAt(before, previousCategories, previousSettings);
+  const now = balancesAt(after, categories, settings);
+
+  // Closed months of the fiscal year the adjustment posts in; none when the lock date ends the prior year
+  const period = getNextOpenPeriod(closes)!;
+  const yearStart = getFiscalYearBounds(getPeriodRange(period).start, settings).start;
+  const currentYearAt = (asset: Asset | undefined, assetCategories: AssetCategory[], assetSettings: CompanySettings) => {
+    if (!asset || yearStart > lockDate) return { depr: 0, impairmentLoss: 0, impairmentReversal: 0, revaluationPL: 0, disposalProfit: 0, disposalProceeds: 0, deferredTaxPL: 0 };
+    const calc = calculateDepreciation(asset, yearStart, lockDate, assetCategories, assetSettings);
+    return {
+      depr: calc.periodicDepr,
+      impairmentLoss: calc.impairmentLossPL,
+      impairmentReversal: calc.impairmentReversalPL,
+      revaluationPL: calc.revaluationGainPL - calc.revaluationLossPL,
+      disposalProfit: calc.profitOnDisposal || 0,
+      disposalProceeds: calc.disposals - calc.accumulatedDeprOnDisposals + (calc.profitOnDisposal || 0),
+      deferredTaxPL: calculateDeferredTax(calc, yearStart, lockDate, assetSettings).movementPL
+    };
+  };
+  const wasCurrent = currentYearAt(before, previousCategories, previousSettings);
+  const nowCurrent = currentYearAt(after, categories, settings);
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    assetId: after.id,
+    categoryId: after.categoryId,
+    branchId: after.branchId,
+    period,
+    affectedPeriods,
+    reason,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    costDelta: now.cost - was.cost,
+    accumDeprDelta: now.accumDepr - was.accumDepr,
+    revaluationSurplusDelta: now.surplus - was.surplus,
+    accumTaxDeprDelta: now.accumTaxDepr - was.accumTaxDepr,
+    currentYearDeprDelta: nowCurrent.depr - wasCurrent.depr,
+    currentYearImpairmentLossDelta: nowCurrent.impairmentLoss - wasCurrent.impairmentLoss,
+    currentYearImpairmentReversalDelta: nowCurrent.impairmentReversal - wasCurrent.impairmentReversal,
+    currentYearRevaluationPLDelta: nowCurrent.revaluationPL - wasCurrent.revaluationPL,
+    currentYearDisposalProfitDelta: nowCurrent.disposalProfit - wasCurrent.disposalProfit,
+    currentYearDisposalProceedsDelta: nowCurrent.disposalProceeds - wasCurrent.disposalProceeds,
+    deferredTaxDelta: now.deferredTax - was.deferredTax,
+    // Tax on the surplus follows it into equity, as the monthly deferred tax journal does
+    deferredTaxOCIDelta: (now.surplus - was.surplus) * getTaxRateAt(lockDate, settings) / 100,
+    currentYearDeferredTaxPLDelta: nowCurrent.deferredTaxPL - wasCurrent.deferredTaxPL
+  };
+};
@@ -0,0 +1,94 @@
+import { Asset, AssetCategory, CompanySettings, PPENoteMovement, PPENoteYear } from '../types';
+import { DEFAULT_COMPANY_SETTINGS } from '../constants';
+import { calculateDepreciation, getFiscalYearBounds } from './assetService';
+
+type PPENoteField = Exclude<keyof PPENoteMovement, 'categoryId'>;
+
+// Note lines in financial statement order; reductions carry a negative sign and are shown in brackets
+export const PPE_NOTE_LINES: { key: PPENoteField, label: string, section: 'Cost' | 'Accumulated depreciation' | 'Carrying amount', sign: 1 | -1, isTotal?: boolean, optional?: boolean }[] = [
+  { key: 'openingCost', label: 'Opening balance', section: 'Cost', sign: 1 },
+  { key: 'additions', label: 'Additions', section: 'Cost', sign: 1 },
+  { key: 'disposals', label: 'Disposals', section: 'Cost', sign: -1 },
+  { key: 'revaluations', label: 'Revaluations', section: 'Cost', sign: 1, optional: true },
+  { key: 'impairments', label: 'Impairment losses', section: 'Cost', sign: -1, optional: true },
+  { key: 'impairmentReversals', label: 'Reversal of impairment losses', section: 'Cost', sign: 1, optional: true },
+  { key: 'closingCost', label: 'Closing balance', section: 'Cost', sign: 1, isTotal: true },
+  { key: 'openingAccumulatedDepr', label: 'Opening balance', section: 'Accumulated depreciation', sign: 1 },
+  { key: 'depreciation', label: 'Depreciation', section: 'Accumulated depreciation', sign: 1 },
+  { key: 'accumulatedDeprOnDisposals', label: 'Disposals', section: 'Accumulated depreciation', sign: -1 },
+  { key: 'accumulatedDeprOnRevaluations', label: 'Eliminated on revaluation', section: 'Accumulated depreciation', sign: -1, optional: true },
+  { key: 'closingAccumulatedDepr', label: 'Closing balance', section: 'Accumulated depreciation', sign: 1, isTotal: true },
+  { key: 'openingCarryingAmount', label: 'Opening carrying amount', section: 'Carrying amount', sign: 1 },
+  { key: 'closingCarryingAmount', label: 'Closing carrying amount', section: 'Carrying amount', sign: 1, isTotal: true }
+];
+
+const emptyMovement = (categoryId: string): PPENoteMovement => ({
+  categoryId,
+  openingCost: 0, additions: 0, disposals: 0, revaluations: 0, impairments: 0, impairmentReversals: 0, closingCost: 0,
+  openingAccumulatedDepr: 0, depreciation: 0, accumulatedDeprOnDisposals: 0, accumulatedDeprOnRevaluations: 0, closingAccumulatedDepr: 0,
+  openingCarryingAmount: 0, closingCarryingAmount: 0
+});
+
+const addMovement = (target: PPENoteMovement, source: PPENoteMovement) => {
+  PPE_NOTE_LINES.forEach(l => { target[l.key] += source[l.key]; });
+};
+
+const buildYear = (assets: Asset[], categories: AssetCategory[], start: Date, end: Date, isPartial: boolean, settings: CompanySettings): PPENoteYear => {
+  const byCategory: Record<string, PPENoteMovement> = {};
+  assets.forEach(asset => {
+    if (!categories.some(c => c.id === asset.categoryId)) return;
+    const calc = calculateDepreciation(asset, start, end, categories, settings);
+    if (!byCategory[asset.categoryId]) byCategory[asset.categoryId] = emptyMovement(asset.categoryId);
+    addMovement(byCategory[asset.categoryId], {
+      categoryId: asset.categoryId,
+      openingCost: calc.openingCost,
+      additions: calc.additions,
+      disposals: calc.disposals,
+      revaluations: calc.revaluations,
+      impairments: calc.impairments,
+      impairmentReversals: calc.impairmentReversals,
+      closingCost: calc.closingCost,
+      openingAccumulatedDepr: calc.openingAccumulatedDepr,
+      depreciation: calc.periodicDepr,
+      accumulatedDeprOnDisposals: calc.accumulatedDeprOnDisposals,
+      accumulatedDeprOnRevaluations: calc.accumulatedDeprOnRevaluations,
+      closingAccumulatedDepr: calc.closingAccumulatedDepr,
+      openingCarryingAmount: calc.openingCost - calc.openingAccumulatedDepr,
+      closingCarryingAmount: calc.nbv
+    });
+  });
+
+  const movements = categories.map(c => byCategory[c.id]).filter((m): m is PPENoteMovement => !!m);
+  const total = emptyMovement('total');
+  movements.forEach(m => addMovement(total, m));
+  return { start, end, isPartial, movements, total };
+};
+
+/**
+ * IAS 16.73(e) reconciliation by class for the financial year containing `asAt` (up to that date)
+ * and the full prior year, current year first.
+ * Classes without any balance or movement in either year are left out of both.
+ */
+export const buildPPENote = (
+  assets: Asset[],
+  categories: AssetCategory[],
+  asAt: Date,
+  settings: CompanySettings = DEFAULT_COMPANY_SETTINGS
+): PPENoteYear[] => {
+  const current = getFiscalYearBounds(asAt, settings);
+  const priorEnd = new Date(current.start.getFullYear(), current.start.getMonth(), current.start.getDate() - 1);
+  const prior = getFiscalYearBounds(priorEnd, settings);
+  const currentEnd = asAt < current.end ? asAt : current.end;
+
+  const years = [
+    buildYear(assets, categories, current.start, currentEnd, currentEnd < current.end, settings),
+    buildYear(assets, categories, prior.start, priorEnd, false, settings)
+  ];
+
+  const isActive = (m?: PPENoteMovement) => !!m && PPE_NOTE_LINES.some(l => Math.abs(m[l.key]) >= 0.005);
+  const activeIds = categories.map(c => c.id).filter(id => years.some(y => isActive(y.movements.find(m => m.categoryId === id))));
+  return years.map(y => ({
+    ...y,
+    movements: activeIds.map(id => y.movements.find(m => m.categoryId === id) || emptyMovement(id))
+  }));
+};
@@ -0,0 +1,115 @@
+import { Asset, AssetCategory, AssetLocation, CompanySettings, ReconciliationRow, TrialBalance, TrialBalanceLine } from '../types';
+import { calculateDepreciation, getFiscalYearBounds } from './assetService';
+import { composeAccountCode } from './accountService';
+
+// TB exports often format amounts as text, e.g. "R 1,250.00", "(3,400.00)" or "3400.00 Cr"
+const parseAmount = (value: any): number => {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').trim();
+  if (!text) return 0;
+  const negative = /^\(.*\)$/.test(text) || /cr$/i.test(text) || text.startsWith('-');
+  const amount = Number(text.replace(/[^0-9.]/g, ''));
+  return isNaN(amount) ? 0 : negative ? -amount : amount;
+};
+
+/**
+ * Reads trial balance rows: an account column, an optional branch (matched on branch code or name)
+ * and either a signed balance or separate debit and credit columns.
+ * Rows without an account, or naming a branch that does not exist, are skipped.
+ */
+export const parseTrialBalance = (rows: Record<string, any>[], locations: AssetLocation[]): { lines: TrialBalanceLine[], skipped: number } => {
+  const findKey = (row: Record<string, any>, names: string[]) => Object.keys(row).find(k => names.includes(k.toLowerCase().replace(/[^a-z]/g, '')));
+  const branches = locations.filter(l => l.type === 'Branch');
+  const lines: TrialBalanceLine[] = [];
+  let skipped = 0;
+
+  rows.forEach(row => {
+    const accountKey = findKey(row, ['account', 'accountcode', 'code', 'glcode', 'accountnumber', 'accountno']);
+    const accountCode = accountKey ? String(row[accountKey] ?? '').trim() : '';
+    if (!accountCode) {
+      skipped++;
+      return;
+    }
+
+    const branchKey = findKey(row, ['branch', 'branchcode', 'costcentre', 'costcenter']);
+    const branchValue = branchKey ? String(row[branchKey] ?? '').trim().toLowerCase() : '';
+    const branch = branchValue ? branches.find(b => b.code.toLowerCase() === branchValue || b.name.trim().toLowerCase() === branchValue) : undefined;
+    if (branchValue && !branch) {
+      skipped++;
+      return;
+    }
+
+    const balanceKey = findKey(row, ['balance', 'closingbalance', 'amount', 'net']);
+    const debitKey = findKey(row, ['debit', 'dr']);
+    const creditKey = findKey(row, ['credit', 'cr']);
+    const balance = balanceKey
+      ? parseAmount(row[balanceKey])
+      : parseAmount(debitKey ? row[debitKey] : 0) - parseAmount(creditKey ? row[creditKey] : 0);
+
+    lines.push({ accountCode, branchId: branch?.id, balance });
+  });
+
+  return { lines, skipped };
+};
+
+/**
+ * Compares the register's closing cost and accumulated depreciation at the TB date with the GL,
+ * grouped through each class's cost and accumulated depreciation codes (composed with the account segments).
+ * Where the TB carries an account without a branch, the register is compared across all branches for that account.
+ */
+export const reconcileTrialBalance = (
+  assets: Asset[],
+  categories: AssetCategory[],
+  locations: AssetLocation[],
+  trialBalance: TrialBalance,
+  settings: CompanySettings
+): ReconciliationRow[] => {
+  const asAt = new Date(trialBalance.asAt);
+  const { start } = getFiscalYearBounds(asAt, settings);
+  const unbranchedAccounts = new Set(trialBalance.lines.filter(l => !l.branchId).map(l => l.accountCode));
+  const rows: Record<string, ReconciliationRow> = {};
+
+  const getRow = (accountCode: string, branchId: string | undefined, balanceType: ReconciliationRow['balanceType']) => {
+    const scope = unbranchedAccounts.has(accountCode) ? undefined : branchId;
+    const key = `${accountCode}|${scope || ''}`;
+    if (!rows[key]) rows[key] = { accountCode, branchId: scope, balanceType, categoryIds: [], registerBalance: 0, glBalance: 0, variance: 0, assets: [] };
+    return rows[key];
+  };
+
+  assets.forEach(asset => {
+    const category = categories.find(c => c.id === asset.categoryId);
+    if (!category) return;
+    const calc = calculateDepreciation(asset, start, asAt, categories, settings);
+    const branch = locations.find(l => l.id === asset.branchId);
+    const balances: [string, ReconciliationRow['balanceType'], number][] = [
+      [category.glCodeCost, 'Cost', calc.closingCost],
+      [category.glCodeAccumDepr, 'Accumulated Depreciation', -calc.closingAccumulatedDepr]
+    ];
+    balances.forEach(([code, balanceType, amount]) => {
+      if (Math.abs(amount) < 0.005) return;
+      const row = getRow(composeAccountCode(code, branch, asset.departmentCode, settings), asset.branchId, balanceType);
+      row.registerBalance += amount;
+      row.assets.push({ assetId: asset.id, amount });
+      if (!row.categoryIds.includes(category.id)) row.categoryIds.push(category.id);
+    });
+  });
+
+  // Only TB accounts the register maps to are reconciled; the rest of the ledger is out of scope
+  const registerAccounts = new Map(Object.values(rows).map(r => [r.accountCode, r.balanceType]));
+  // Classes with no assets still claim their accounts so stray GL balances show as variances
+  categories.forEach(c => {
+    const cost = composeAccountCode(c.glCodeCost, undefined, undefined, settings);
+    const accum = composeAccountCode(c.glCodeAccumDepr, undefined, undefined, settings);
+    if (!registerAccounts.has(cost)) registerAccounts.set(cost, 'Cost');
+    if (!registerAccounts.has(accum)) registerAccounts.set(accum, 'Accumulated Depreciation');
+  });
+  trialBalance.lines.forEach(line => {
+    const balanceType = registerAccounts.get(line.accountCode);
+    if (!balanceType) return;
+    getRow(line.accountCode, line.branchId, balanceType).glBalance += line.balance;
+  });
+
+  return Object.values(rows)
+    .map(r => ({ ...r, variance: r.glBalance - r.registerBalance }))
+    .sort((a, b) => a.accountCode.localeCompare(b.accountCode) || (a.branchId || '').localeCompare(b.branchId || ''));
+};
@@ -2,6 +2,14 @@
 export enum DepreciationMethod {
   STRAIGHT_LINE = 'Straight Line',
   REDUCING_BALANCE = 'Reducing Balance',
+  UNITS_OF_PRODUCTION = 'Units of Production',
+}
+
+export enum FundingSource {
+  SUPPLIER_CREDITOR = 'Supplier Creditor',
+  CWIP_TRANSFER = 'Capital WIP Transfer',
+  FINANCE_LEASE = 'Finance Lease',
+  INTERCOMPANY = 'Intercompany',
 }
 
 export enum TaxStrategy {
@@ -10,6 +18,14 @@ export enum TaxStrategy {
   SARS_12B_50_30_20 = 'SARS Sec 12B (50/30/20)',
   SARS_FULL_100 = 'SARS Full Write-off (100%)',
   SARS_13_5 = 'SARS Sec 13 (5% Straight Line)',
+  SARS_SMALL_ITEM = 'SARS Small Item Write-off (< R7,000)',
+}
+
+// Eighth Schedule valuation date value for assets held on 1 October 2001
+export enum CgtValuationMethod {
+  TIME_APPORTIONMENT = 'Time-Apportionment Base Cost',
+  MARKET_VALUE = 'Market Value',
+  TWENTY_PERCENT = '20% of Proceeds',
 }
 
 export enum AssetStatus {
@@ -51,6 +67,25 @@ export interface AssetCategory {
   glCodeAccumDepr: string;
   glCodeDeprExpense: string;
   glCodeRevaluationSurplus?: string;
+  glCodeRevaluationPL?: string; // Revaluation losses / reversals through profit or loss
+  glCodeRetainedEarnings?: string;
+  glCodeImpairmentLoss?: string;
+  glCodeImpairmentReversal?: string;
+  glCodeDisposalProceeds?: string; // Proceeds clearing account
+  glCodeDisposalProfit?: string;
+  glCodeDisposalLoss?: string;
+  defaultFundingSource?: FundingSource;
+  fundingAccounts?: Partial<Record<FundingSource, string>>; // Credit account for additions per funding source
+  depreciationMethod?: DepreciationMethod;
+  depreciationRate?: number; // Reducing balance % per annum
+  in47ClassId?: string; // SARS Interpretation Note 47 write-off class
+}
+
+// SARS Interpretation Note 47 Annexure A write-off period for section 11(e) wear-and-tear
+export interface IN47AssetClass {
+  id: string;
+  description: string;
+  writeOffYears: number;
 }
 
 export interface RevaluationEvent {
@@ -60,10 +95,35 @@ export interface RevaluationEvent {
   reason: string;
 }
 
+export interface ImpairmentReversal {
+  date: string;
+  recoverableAmount: number;
+  reason: string;
+}
+
+export interface ImpairmentEvent {
+  id: string;
+  date: string;
+  recoverableAmount: number; // IAS 36 higher of fair value less costs of disposal and value in use
+  reason: string;
+  reversal?: ImpairmentReversal;
+}
+
+export interface UsageReading {
+  id: string;
+  date: string;
+  units: number; // Output / meter units logged since the previous reading
+  reference?: string;
+}
+
 export interface AssetComponent {
   id: string;
   name: string;
   acquisitionDate: string;
+  broughtIntoUseDate?: string; // SARS allowances start here; defaults to the acquisition date
+  isSecondHand?: boolean; // Used when acquired, including assets bought back in a sale-and-leaseback
+  valuationDateMethod?: CgtValuationMethod; // Pre-valuation date assets only
+  valuationDateMarketValue?: number;
   cost: number;
   residualValue: number;
   usefulLifeYears: number;
@@ -74,8 +134,20 @@ export interface AssetComponent {
   supplierName?: string;
   supplierContact?: string;
   invoiceNumber?: string;
+  fundingSource?: FundingSource; // Overrides the category default when set
   revaluations?: RevaluationEvent[];
+  impairments?: ImpairmentEvent[];
+  /** @deprecated Undated loss from earlier versions, treated as impaired on acquisition. Use `impairments`. */
   impairmentLoss?: number;
+  depreciationMethod?: DepreciationMethod; // Overrides the category method when set
+  depreciationRate?: number;
+  estimatedLifetimeUnits?: number; // Units of production: total expected output
+  usageLog?: UsageReading[];
+  // Balances carried over from a legacy register, as at the end of the day before takeOnDate
+  takeOnDate?: string;
+  takeOnAccumulatedDepr?: number;
+  takeOnRevaluationSurplus?: number;
+  takeOnTaxValue?: number; // Cost less SARS allowances already claimed
 }
 
 export interface Asset {
@@ -88,10 +160,82 @@ export interface Asset {
   branchId: string;
   locationId: string;
   subLocationId: string;
+  departmentCode?: string; // Optional department dimension for segmented GL accounts
   status: AssetStatus;
   components: AssetComponent[];
 }
 
+export interface FiscalYearEndChange {
+  id: string;
+  effectiveFrom: string; // First day of the transitional year
+  month: number; // 1-12
+  day: number; // Clamped to the last day of the month, so 31 means month end
+  longTransition?: boolean; // Transitional year runs to the second occurrence of the new year end
+}
+
+export interface CompanyTaxRate {
+  id: string;
+  effectiveFrom: string;
+  rate: number; // % of taxable income
+}
+
+export type AccountSegment = 'account' | 'branch' | 'department';
+
+// How journal accounts are composed from the class GL code and branch / department codes, e.g. 5000/100/HQ-01
+export interface AccountSegmentSettings {
+  segments: AccountSegment[]; // In order; empty segments are skipped
+  separator: string;
+}
+
+export enum GLAccountType {
+  ASSET = 'Asset',
+  CONTRA_ASSET = 'Contra-Asset',
+  LIABILITY = 'Liability',
+  EQUITY = 'Equity',
+  INCOME = 'Income',
+  EXPENSE = 'Expense'
+}
+
+// Chart of accounts entry: class GL codes map to main accounts, journal lines to fully composed accounts
+export interface GLAccount {
+  code: string;
+  name: string;
+  type: GLAccountType;
+}
+
+export type CategoryGLField =
+  | 'glCodeCost'
+  | 'glCodeAccumDepr'
+  | 'glCodeDeprExpense'
+  | 'glCodeRevaluationSurplus'
+  | 'glCodeRevaluationPL'
+  | 'glCodeRetainedEarnings'
+  | 'glCodeImpairmentLoss'
+  | 'glCodeImpairmentReversal'
+  | 'glCodeDisposalProceeds'
+  | 'glCodeDisposalProfit'
+  | 'glCodeDisposalLoss';
+
+export interface CategoryAccountIssue {
+  field: string; // Category GL field or funding source
+  label: string;
+  code: string;
+  problem: 'Missing' | 'Not in chart' | 'Wrong type';
+  expected: GLAccountType[];
+  actual?: GLAccountType;
+}
+
+export interface CompanySettings {
+  fiscalYearEndMonth: number; // 1-12
+  fiscalYearEndDay: number;
+  fiscalYearEndChanges: FiscalYearEndChange[];
+  taxRates: CompanyTaxRate[];
+  glCodeDeferredTax?: string; // Deferred tax liability / asset
+  glCodeDeferredTaxExpense?: string;
+  glCodeDeferredTaxOCI?: string; // Tax on revaluation surplus in equity
+  accountSegments?: AccountSegmentSettings;
+}
+
 export interface DatabaseConfig {
   enabled: boolean;
   supabaseUrl: string;
@@ -106,20 +250,107 @@ export interface DepreciationCalculation {
   disposals: number;
   revaluations: number;
   impairments: number;
+  impairmentReversals: number;
   closingCost: number;
   openingAccumulatedDepr: number;
   periodicDepr: number;
   accumulatedDeprOnDisposals: number;
+  accumulatedDeprOnRevaluations: number; // Eliminated against the gross amount on revaluation
   closingAccumulatedDepr: number;
   nbv: number;
+  openingTaxValue: number;
   taxValue: number;
   taxDeductionForPeriod: number;
   openingAccumulatedTaxDepr: number;
   taxDeprOnDisposals: number;
   closingAccumulatedTaxDepr: number;
   taxYearOfAsset: number;
+  unitsConsumed: number;
+  openingRevaluationSurplus: number;
+  revaluationSurplusIncrease: number; // OCI
+  revaluationSurplusDecrease: number; // OCI
+  revaluationSurplusTransfer: number; // Realised to retained earnings
+  closingRevaluationSurplus: number;
+  revaluationGainPL: number; // Reversal of decreases previously expensed
+  revaluationLossPL: number;
+  impairmentLossPL: number; // IAS 36: recognised in profit or loss
+  impairmentLossOCI: number; // IAS 36.61: charged against the revaluation surplus
+  impairmentReversalPL: number;
+  impairmentReversalOCI: number;
   profitOnDisposal?: number;
   recoupment?: number;
+  scrappingAllowance?: number; // Section 11(o) loss on disposal below tax value
+  cgtProceeds?: number; // Proceeds less the recoupment included in gross income
+  cgtBaseCost?: number;
+  capitalGain?: number; // Negative for a capital loss
+  components?: ComponentDepreciationCalculation[];
+}
+
+export interface ComponentDepreciationCalculation extends Omit<DepreciationCalculation, 'assetId' | 'components'> {
+  componentId: string;
+  depreciationMethod: DepreciationMethod;
+  depreciationRate: number;
+  fundingSource: FundingSource;
+}
+
+// IAS 12 temporary difference between the IFRS carrying amount and the SARS tax base.
+// Deferred tax amounts are positive for a liability and negative for an asset.
+export interface DeferredTaxLine {
+  assetId: string;
+  openingCarryingAmount: number;
+  openingTaxBase: number;
+  openingTemporaryDifference: number;
+  openingRate: number;
+  openingDeferredTax: number;
+  closingCarryingAmount: number;
+  closingTaxBase: number;
+  closingTemporaryDifference: number;
+  closingRate: number;
+  closingDeferredTax: number;
+  movementPL: number;
+  movementOCI: number;
+}
+
+// Movement for one asset in a closed month, frozen together with its class and branch at close
+export interface AssetPeriodSnapshot extends DepreciationCalculation {
+  categoryId: string;
+  branchId: string;
+  departmentCode?: string;
+}
+
+export interface PeriodClose {
+  period: string; // yyyy-MM
+  closedAt: string;
+  closedBy: string;
+  snapshots: AssetPeriodSnapshot[];
+}
+
+// Catch-up of cumulative balances at the lock date after a change that alters closed periods
+export interface PriorPeriodAdjustment {
+  id: string;
+  assetId: string;
+  categoryId: string;
+  branchId: string;
+  period: string; // yyyy-MM open period the adjustment is posted in
+  affectedPeriods: string[];
+  reason: string;
+  createdAt: string;
+  createdBy: string;
+  costDelta: number;
+  accumDeprDelta: number;
+  revaluationSurplusDelta: number;
+  accumTaxDeprDelta: number;
+  // Part of the change falling in closed months of the current fiscal year, posted to profit or loss
+  currentYearDeprDelta?: number;
+  currentYearImpairmentLossDelta?: number;
+  currentYearImpairmentReversalDelta?: number;
+  currentYearRevaluationPLDelta?: number; // Net gain
+  currentYearDisposalProfitDelta?: number; // Net profit; negative is a loss
+  currentYearDisposalProceedsDelta?: number;
+  // IAS 12 effect at the lock date: total liability, the part on revaluation surplus (OCI) and the current-year expense
+  deferredTaxDelta?: number;
+  deferredTaxOCIDelta?: number;
+  currentYearDeferredTaxPLDelta?: number;
 }
 
 export interface AuditLog {
@@ -128,6 +359,7 @@ export interface AuditLog {
   userId: string;
   assetId: string;
   action: string;
+  batchId?: string; // Depreciation run the action relates to
   changes: {
     field: string;
     oldValue: any;
@@ -135,6 +367,8 @@ export interface AuditLog {
   }[];
 }
 
+export type JournalType = 'Depreciation' | 'Addition' | 'Disposal' | 'Revaluation' | 'Impairment' | 'Deferred Tax' | 'Adjustment';
+
 export interface JournalEntry {
   id: string;
   date: string;
@@ -144,4 +378,208 @@ export interface JournalEntry {
   debit: number;
   credit: number;
   branchId: string;
+  departmentCode?: string;
+  segmentedAccount?: string; // Account code composed with the configured segments
+  type: JournalType;
+}
+
+export type DepreciationRunStatus = 'Draft' | 'Posted' | 'Reversed';
+
+// A month's journals frozen as a numbered batch when the depreciation run is executed
+export interface DepreciationRun {
+  id: string;
+  batchNumber: number;
+  period: string; // yyyy-MM
+  branchId: string; // 'all' for a consolidated run
+  status: DepreciationRunStatus;
+  createdAt: string;
+  createdBy: string;
+  postedAt?: string;
+  postedBy?: string;
+  reversedAt?: string;
+  reversedBy?: string;
+  reversalOfId?: string; // Set on the batch that reverses a posted run
+  entries: JournalEntry[];
+}
+
+// Values a column in an accounting-system journal import file can carry
+export type JournalExportField =
+  | 'date'
+  | 'period' // Fiscal period number (1 = first month of the financial year)
+  | 'reference'
+  | 'accountCode'
+  | 'segmentedAccount'
+  | 'accountName'
+  | 'description'
+  | 'type'
+  | 'branchCode' // Tracking option / cost centre mapped from the branch
+  | 'branchName'
+  | 'debit'
+  | 'credit'
+  | 'amount' // Single signed amount, see JournalExportProfile.signConvention
+  | 'fixed'; // Literal text from JournalExportColumn.value
+
+export interface JournalExportColumn {
+  header: string;
+  field: JournalExportField;
+  value?: string;
+}
+
+// Manual-journal import layout for a target accounting system
+export interface JournalExportProfile {
+  id: string;
+  name: string;
+  fileFormat: 'csv' | 'xlsx';
+  includeHeader: boolean;
+  dateFormat: string; // date-fns pattern, e.g. dd/MM/yyyy
+  signConvention: 'DebitPositive' | 'CreditPositive';
+  referencePrefix: string; // Live previews export as <prefix><yyyy-MM>; batches use their batch number
+  columns: JournalExportColumn[];
+  branchMappings: Record<string, string>; // Branch id -> tracking option / cost centre; falls back to the branch code
+  builtIn?: boolean;
+}
+
+// GL balance imported from a trial balance, signed debit positive
+export interface TrialBalanceLine {
+  accountCode: string;
+  branchId?: string; // Unset when the TB is not split by branch (or the branch is in the account segments)
+  balance: number;
+}
+
+export interface TrialBalance {
+  asAt: string;
+  fileName: string;
+  importedAt: string;
+  importedBy: string;
+  lines: TrialBalanceLine[];
+}
+
+export interface ReconciliationRow {
+  accountCode: string;
+  branchId?: string;
+  balanceType: 'Cost' | 'Accumulated Depreciation';
+  categoryIds: string[];
+  registerBalance: number; // Signed like the GL: cost positive, accumulated depreciation negative
+  glBalance: number;
+  variance: number; // GL less register
+  assets: { assetId: string, amount: number }[];
+}
+
+// IAS 16.73 reconciliation of one class for one financial year
+export interface PPENoteMovement {
+  categoryId: string;
+  openingCost: number;
+  additions: number;
+  disposals: number;
+  revaluations: number;
+  impairments: number;
+  impairmentReversals: number;
+  closingCost: number;
+  openingAccumulatedDepr: number;
+  depreciation: number;
+  accumulatedDeprOnDisposals: number;
+  accumulatedDeprOnRevaluations: number;
+  closingAccumulatedDepr: number;
+  openingCarryingAmount: number;
+  closingCarryingAmount: number;
+}
+
+export interface PPENoteYear {
+  start: Date;
+  end: Date;
+  isPartial: boolean; // Current year reported before its year end
+  movements: PPENoteMovement[];
+  total: PPENoteMovement;
+}
+
+// Budgeted acquisition used only for forecasting; never added to the asset register or journals
+export interface PlannedCapex {
+  id: string;
+  description: string;
+  categoryId: string;
+  branchId: string;
+  plannedDate: string; // Expected date acquired and brought into use
+  cost: number;
+  usefulLifeYears: number;
+}
+
+export interface ForecastLine {
+  period: string; // yyyy-MM
+  categoryId: string;
+  branchId: string;
+  depreciation: number;
+  taxAllowance: number;
+  plannedDepreciation: number; // Share of the totals from planned capex
+  plannedTaxAllowance: number;
+}
+
+export interface ImportIssue {
+  field: string; // Spreadsheet column the issue relates to
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// A spreadsheet row keyed by its header text
+export interface SheetRow {
+  rowNumber: number; // As shown in the spreadsheet, counting title and blank rows
+  values: Record<string, any>;
+}
+
+// One spreadsheet row after mapping, held for review before anything reaches the register
+export interface StagedImportRow {
+  rowNumber: number; // As shown in the spreadsheet, header being row 1 unless a source row says otherwise
+  raw: Record<string, any>; // Values under template columns
+  source?: Record<string, any>; // The uploaded row before column mapping, when one was applied
+  asset: Asset;
+  providedColumns: string[]; // Template columns with a value in this row; only these overwrite a matched asset
+  issues: ImportIssue[];
+  isValid: boolean; // No errors; warnings do not block the row
+}
+
+// How one template column is filled from an arbitrary spreadsheet layout
+export interface ImportColumnMapping {
+  column: string; // Template column, e.g. AcquisitionDate
+  source?: string; // Spreadsheet header the value is read from
+  dateFormat?: string; // date-fns pattern for text dates, e.g. dd/MM/yyyy; blank reads ISO and Excel dates
+  decimalComma?: boolean; // Numbers written as 1.234,56 or 1 234,56
+  defaultValue?: string; // Used when the cell is blank or no source is mapped
+}
+
+// Saved column mapping for a recurring supplier or auditor layout
+export interface ImportMappingProfile {
+  id: string;
+  name: string;
+  mappings: ImportColumnMapping[];
+}
+
+// Branches, locations, sub-locations and asset classes an import creates because the file names them but the register lacks them
+export interface ImportCreatedReferences {
+  locations: AssetLocation[];
+  categories: AssetCategory[];
+}
+
+// A legacy register workbook staged as one row per asset, with its components and events folded in
+export interface StagedMigration {
+  rows: StagedImportRow[];
+  unlinked: ImportIssue[]; // Component and event rows whose asset number is not on the Assets sheet
+}
+
+export type ImportMode = 'insert' | 'update' | 'upsert';
+
+export type ImportMatchKey = 'assetNumber' | 'tagId';
+
+export interface ImportFieldChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+// What committing a staged row will do to the register under the chosen mode
+export interface ImportPlanRow {
+  row: StagedImportRow;
+  action: 'insert' | 'update' | 'skip' | 'reject';
+  asset: Asset; // New asset, or the matched asset with the imported values applied
+  matchedAssetId?: string;
+  changes: ImportFieldChange[];
+  note?: string; // Why a row is skipped
 }